@@ -0,0 +1,174 @@
+import { App, TFile, getLinkpath } from 'obsidian';
+
+export type AttachmentTask = 'altText' | 'ocr' | 'describeFigure' | 'summarizePdf';
+
+export const ATTACHMENT_TASKS: Record<AttachmentTask, string> = {
+    altText: '대체 텍스트',
+    ocr: '텍스트 추출 (OCR)',
+    describeFigure: '그림 설명',
+    summarizePdf: 'PDF 요약',
+};
+
+export type AttachmentOutput = 'beside' | 'companionNote';
+
+export const ATTACHMENT_OUTPUTS: Record<AttachmentOutput, string> = {
+    beside: '임베드 옆에 삽입',
+    companionNote: '첨부 파일 설명 노트에 기록',
+};
+
+export interface AttachmentSettings {
+    output: AttachmentOutput;
+    // 첨부 파일 설명 노트를 만들 폴더
+    companionFolder: string;
+}
+
+// 설명 노트 프론트매터 키 (값은 첨부 파일 경로)
+export const ATTACHMENT_FRONTMATTER_KEY = 'gemini-attachment';
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    pdf: 'application/pdf',
+};
+
+// Gemini 인라인 데이터 요청 한도(20MB)에서 base64 인코딩으로 늘어나는 크기를 뺀 파일 크기
+export const MAX_ATTACHMENT_BYTES = 14 * 1024 * 1024;
+
+// Gemini로 보낼 수 있는 첨부 파일 형식 (지원하지 않으면 null)
+export function attachmentMimeType(file: TFile): string | null {
+    return MIME_TYPES[file.extension.toLowerCase()] ?? null;
+}
+
+// 파일 형식에 맞는 작업 (OCR은 이미지와 스캔한 PDF 모두)
+export function tasksFor(file: TFile): AttachmentTask[] {
+    const mimeType = attachmentMimeType(file);
+    if (!mimeType) return [];
+    return mimeType === 'application/pdf' ? ['ocr', 'summarizePdf'] : ['altText', 'ocr', 'describeFigure'];
+}
+
+// 노트에 임베드된 첨부 파일
+export interface EmbeddedAttachment {
+    file: TFile;
+    // 임베드가 있는 줄 (0부터)
+    line: number;
+    // 노트에 적힌 임베드 (예: ![[diagram.png|300]])
+    original: string;
+}
+
+// 노트에 임베드된 지원 형식 첨부 파일 (lines를 지정하면 그 줄 범위 안의 임베드만)
+export function embeddedAttachments(app: App, note: TFile, lines?: { from: number; to: number }): EmbeddedAttachment[] {
+    const embeds = app.metadataCache.getFileCache(note)?.embeds ?? [];
+    const attachments: EmbeddedAttachment[] = [];
+    for (const embed of embeds) {
+        const line = embed.position.start.line;
+        if (lines && (line < lines.from || line > lines.to)) continue;
+        const file = app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path);
+        if (file && attachmentMimeType(file)) {
+            attachments.push({ file, line, original: embed.original });
+        }
+    }
+    return attachments;
+}
+
+// 대체 텍스트로 쓸 수 없는 글자 (링크 구분자, 줄바꿈) 정리
+function sanitizeAltText(text: string): string {
+    return text.replace(/[|[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// 임베드에 대체 텍스트 적용 (![[파일|대체 텍스트|크기]] 또는 ![대체 텍스트](경로))
+// 형식을 알 수 없으면 null
+export function withAltText(original: string, altText: string): string | null {
+    const alt = sanitizeAltText(altText);
+    const wiki = original.match(/^!\[\[([^|\]]+)((?:\|[^\]]*)?)\]\]$/);
+    if (wiki) {
+        // 크기 지정(300, 300x200)은 유지
+        const size = wiki[2].split('|').slice(1).filter(part => /^\d+(x\d+)?$/.test(part.trim()));
+        return `![[${wiki[1]}|${[alt, ...size].join('|')}]]`;
+    }
+    const markdown = original.match(/^!\[[^\]]*\](\(.*\))$/);
+    return markdown ? `![${alt}]${markdown[1]}` : null;
+}
+
+function calloutHeader(label: string, file: TFile): string {
+    return `> [!note]- ${label}: ${file.name}`;
+}
+
+// 임베드가 있는 줄 (다른 줄로 옮겨졌으면 원래 임베드 텍스트로 다시 찾고, 찾지 못하면 -1)
+function findEmbedLine(lines: string[], attachment: EmbeddedAttachment): number {
+    if (lines[attachment.line]?.includes(attachment.original)) return attachment.line;
+    return lines.findIndex(line => line.includes(attachment.original));
+}
+
+// 노트의 임베드에 대체 텍스트 적용 (임베드를 찾지 못하면 null)
+export function applyAltText(content: string, attachment: EmbeddedAttachment, altText: string): string | null {
+    const lines = content.split('\n');
+    const index = findEmbedLine(lines, attachment);
+    const embed = withAltText(attachment.original, altText);
+    if (index < 0 || embed === null) return null;
+    lines[index] = lines[index].replace(attachment.original, () => embed);
+    return lines.join('\n');
+}
+
+// 임베드 아래에 설명 콜아웃 삽입 (같은 작업의 콜아웃이 이미 있으면 교체, 임베드를 찾지 못하면 null)
+// 콜아웃끼리 합쳐지지 않도록 앞뒤를 빈 줄로 구분합니다.
+export function insertBesideEmbed(content: string, attachment: EmbeddedAttachment, label: string, text: string): string | null {
+    const lines = content.split('\n');
+    const embedLine = findEmbedLine(lines, attachment);
+    if (embedLine < 0) return null;
+
+    const header = calloutHeader(label, attachment.file);
+    const callout = [header, ...text.trim().split('\n').map(line => line ? `> ${line}` : '>')];
+    const isOwnCallout = (line: string) => line.startsWith('> [!note]- ') && line.endsWith(`: ${attachment.file.name}`);
+
+    // 임베드 아래 이어지는 이 첨부 파일의 콜아웃 중 같은 작업을 찾음
+    let insertAt = embedLine + 1;
+    for (;;) {
+        let start = insertAt;
+        while (start < lines.length && !lines[start].trim()) start++;
+        if (start >= lines.length || !isOwnCallout(lines[start])) break;
+        let end = start + 1;
+        while (end < lines.length && lines[end].startsWith('>') && !lines[end].startsWith('> [!')) end++;
+        if (lines[start] === header) {
+            lines.splice(start, end - start, ...callout);
+            return lines.join('\n');
+        }
+        insertAt = end;
+    }
+
+    const block = ['', ...callout];
+    if (insertAt < lines.length && lines[insertAt].trim()) block.push('');
+    lines.splice(insertAt, 0, ...block);
+    return lines.join('\n');
+}
+
+// 설명 노트에서 작업 제목(## 제목) 구역을 새 내용으로 바꾸거나 끝에 추가
+export function updateCompanionSection(content: string, label: string, text: string): string {
+    const lines = content.replace(/\s+$/, '').split('\n');
+    const start = lines.indexOf(`## ${label}`);
+    const section = [`## ${label}`, '', text.trim(), ''];
+    if (start < 0) {
+        lines.push('', ...section);
+    } else {
+        let end = start + 1;
+        while (end < lines.length && !lines[end].startsWith('## ')) end++;
+        lines.splice(start, end - start, ...section);
+    }
+    return lines.join('\n').replace(/\s+$/, '') + '\n';
+}
+
+// 새 설명 노트 내용 (첨부 파일을 임베드하고 출처 노트를 링크)
+export function renderCompanionNote(file: TFile, linkText: string, sourceLink: string | null): string {
+    return [
+        '---',
+        `${ATTACHMENT_FRONTMATTER_KEY}: "${file.path.replace(/"/g, '\\"')}"`,
+        '---',
+        '',
+        `![[${linkText}]]`,
+        '',
+        ...(sourceLink ? [`출처: [[${sourceLink}]]`, ''] : [])
+    ].join('\n');
+}
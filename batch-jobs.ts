@@ -0,0 +1,254 @@
+import { App, TFile, TFolder, getAllTags, moment } from 'obsidian';
+import { hashContent } from './concept-cache';
+import { createId } from './ids';
+
+export type BatchOperation = 'generateTitle' | 'summarizeText' | 'generateHashtags' | 'generateMetadata' | 'customPrompt';
+
+export const BATCH_OPERATIONS: Record<BatchOperation, string> = {
+    generateTitle: '노트 제목 생성 (파일 이름 변경)',
+    summarizeText: '요약 생성 (프론트매터 요약 속성)',
+    generateHashtags: '해시태그 생성 (프론트매터 태그)',
+    generateMetadata: '메타데이터 생성 (미리보기 없이 적용)',
+    customPrompt: '커스텀 프롬프트',
+};
+
+export type BatchSourceType = 'folder' | 'tag' | 'search';
+
+export const BATCH_SOURCES: Record<BatchSourceType, string> = {
+    folder: '폴더',
+    tag: '태그',
+    search: '현재 검색 결과',
+};
+
+// 일괄 작업 실행 요청 (작업 선택 모달의 결과)
+export interface BatchJobRequest {
+    source: BatchSourceType;
+    // 폴더 경로 또는 태그 (검색 결과는 사용하지 않음)
+    value: string;
+    operation: BatchOperation;
+    customPromptId?: string;
+    // 같은 작업으로 처리한 뒤 바뀌지 않은 노트는 건너뜀
+    skipProcessed: boolean;
+}
+
+export type BatchFileStatus = 'pending' | 'done' | 'skipped' | 'failed';
+
+export interface BatchFileEntry {
+    path: string;
+    status: BatchFileStatus;
+    // 결과 요약 또는 실패 이유
+    message?: string;
+    // 노트에 반영하지 않는 결과 (확인 창 방식 커스텀 프롬프트)
+    result?: string;
+}
+
+export interface BatchJob {
+    id: string;
+    operation: BatchOperation;
+    customPromptId?: string;
+    // 대상 설명 (예: 폴더 Projects)
+    source: string;
+    skipProcessed: boolean;
+    createdAt: string;
+    updatedAt: string;
+    files: BatchFileEntry[];
+    // 결과 보고서 노트 경로 (다시 실행하면 같은 노트를 갱신)
+    reportPath?: string;
+}
+
+interface BatchJobData {
+    version: number;
+    jobs: BatchJob[];
+    // 작업 키 → 노트 경로 → 처리한 뒤의 내용 해시
+    processed: Record<string, Record<string, string>>;
+}
+
+const BATCH_JOB_VERSION = 1;
+// 보관하는 최근 작업 수
+const MAX_JOBS = 20;
+
+// 보고서 노트 프론트매터 키 (값은 작업 ID)
+export const BATCH_REPORT_FRONTMATTER_KEY = 'gemini-batch';
+
+// 이미 처리한 노트를 구분하는 키 (커스텀 프롬프트는 프롬프트마다 따로 기록)
+export function batchOperationKey(job: BatchJob): string {
+    return job.operation === 'customPrompt' ? `customPrompt:${job.customPromptId}` : job.operation;
+}
+
+export function countBatchStatuses(job: BatchJob): Record<BatchFileStatus, number> {
+    const counts: Record<BatchFileStatus, number> = { pending: 0, done: 0, skipped: 0, failed: 0 };
+    job.files.forEach(entry => counts[entry.status]++);
+    return counts;
+}
+
+// 일괄 작업 결과 보고서 노트 내용
+export function renderBatchReport(job: BatchJob, label: string, linkText: (path: string) => string): string {
+    const counts = countBatchStatuses(job);
+    const lines = [
+        '---',
+        `${BATCH_REPORT_FRONTMATTER_KEY}: ${job.id}`,
+        '---',
+        '',
+        `# 일괄 작업: ${label}`,
+        '',
+        `- 대상: ${job.source}`,
+        `- 시작: ${moment(job.createdAt).format('YYYY-MM-DD HH:mm')}`,
+        `- 마지막 실행: ${moment(job.updatedAt).format('YYYY-MM-DD HH:mm')}`,
+        `- 완료 ${counts.done} · 건너뜀 ${counts.skipped} · 실패 ${counts.failed} · 남음 ${counts.pending}`,
+        ''
+    ];
+
+    const section = (title: string, status: BatchFileStatus, hint?: string) => {
+        const entries = job.files.filter(entry => entry.status === status);
+        if (entries.length === 0) return;
+        lines.push(`## ${title} (${entries.length})`, '');
+        if (hint) lines.push(hint, '');
+        entries.forEach(entry => lines.push(`- [[${linkText(entry.path)}]]${entry.message ? ` — ${entry.message.replace(/\s+/g, ' ')}` : ''}`));
+        lines.push('');
+    };
+    section('실패', 'failed', '"실패한 Gemini 일괄 작업 다시 실행" 명령어로 실패한 노트만 다시 처리할 수 있습니다.');
+    section('남은 노트', 'pending', '"중단된 Gemini 일괄 작업 이어서 실행" 명령어로 이어서 처리할 수 있습니다.');
+    section('완료', 'done');
+    section('건너뜀', 'skipped');
+
+    const results = job.files.filter(entry => entry.result);
+    if (results.length > 0) {
+        lines.push('## 결과', '');
+        results.forEach(entry => lines.push(`### [[${linkText(entry.path)}]]`, '', (entry.result as string).trim(), ''));
+    }
+    return lines.join('\n');
+}
+
+// 폴더 안의 노트 (루트 폴더는 볼트 전체)
+export function filesInFolder(app: App, folder: TFolder): TFile[] {
+    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+    return app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+}
+
+// 태그가 붙은 노트 (하위 태그 포함)
+export function filesWithTag(app: App, tag: string): TFile[] {
+    const filter = tag.trim().replace(/^#/, '').toLowerCase();
+    if (!filter) return [];
+    return app.vault.getMarkdownFiles().filter(file => {
+        const cache = app.metadataCache.getFileCache(file);
+        const tags = (cache ? getAllTags(cache) ?? [] : []).map(value => value.replace(/^#/, '').toLowerCase());
+        return tags.some(value => value === filter || value.startsWith(`${filter}/`));
+    });
+}
+
+interface SearchViewInternals {
+    getQuery?: () => string;
+    dom?: { resultDomLookup?: Map<unknown, unknown> };
+}
+
+// 검색 패널의 현재 결과와 검색어 (공개 API가 없어 검색 뷰 내부 구조를 사용)
+export function searchResultFiles(app: App): { query: string; files: TFile[] } {
+    const view = app.workspace.getLeavesOfType('search')[0]?.view as unknown as SearchViewInternals | undefined;
+    const files = [...(view?.dom?.resultDomLookup?.keys() ?? [])]
+        .filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+    return { query: view?.getQuery?.() ?? '', files };
+}
+
+// 일괄 작업 기록 (중단된 작업 이어서 실행, 실패한 노트 다시 실행, 처리한 노트 건너뛰기)
+export class BatchJobStore {
+    private app: App;
+    private filePath: string;
+    private jobs: BatchJob[] = [];
+    private processed: Record<string, Record<string, string>> = {};
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as BatchJobData;
+            if (data.version === BATCH_JOB_VERSION && Array.isArray(data.jobs)) {
+                this.jobs = data.jobs;
+                this.processed = data.processed ?? {};
+            }
+        } catch (error) {
+            console.error('일괄 작업 기록 로드 오류:', error);
+            this.jobs = [];
+            this.processed = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: BatchJobData = { version: BATCH_JOB_VERSION, jobs: this.jobs, processed: this.processed };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('일괄 작업 기록 저장 오류:', error);
+        }
+    }
+
+    async create(request: BatchJobRequest, source: string, files: TFile[]): Promise<BatchJob> {
+        const now = new Date().toISOString();
+        const job: BatchJob = {
+            id: createId(),
+            operation: request.operation,
+            customPromptId: request.customPromptId,
+            source,
+            skipProcessed: request.skipProcessed,
+            createdAt: now,
+            updatedAt: now,
+            files: files.map(file => ({ path: file.path, status: 'pending' }))
+        };
+        this.jobs = [...this.jobs, job].slice(-MAX_JOBS);
+        await this.save();
+        return job;
+    }
+
+    // 처리하지 않은 노트가 남은 가장 최근 작업
+    latestUnfinished(): BatchJob | null {
+        return [...this.jobs].reverse().find(job => job.files.some(entry => entry.status === 'pending')) ?? null;
+    }
+
+    // 실패한 노트가 있는 가장 최근 작업
+    latestWithFailures(): BatchJob | null {
+        return [...this.jobs].reverse().find(job => job.files.some(entry => entry.status === 'failed')) ?? null;
+    }
+
+    // 실패한 노트를 다시 처리하도록 되돌림
+    async resetFailed(job: BatchJob): Promise<void> {
+        job.files.forEach(entry => {
+            if (entry.status !== 'failed') return;
+            entry.status = 'pending';
+            entry.message = undefined;
+        });
+        await this.save();
+    }
+
+    // 같은 작업으로 처리한 뒤 내용이 바뀌지 않았는지
+    isProcessed(key: string, path: string, content: string): boolean {
+        return this.processed[key]?.[path] === hashContent(content);
+    }
+
+    markProcessed(key: string, path: string, content: string): void {
+        this.processed[key] = this.processed[key] ?? {};
+        this.processed[key][path] = hashContent(content);
+    }
+
+    handleRename(path: string, oldPath: string): void {
+        let changed = false;
+        for (const job of this.jobs) {
+            for (const entry of job.files) {
+                if (entry.path === oldPath) {
+                    entry.path = path;
+                    changed = true;
+                }
+            }
+        }
+        for (const paths of Object.values(this.processed)) {
+            if (paths[oldPath] !== undefined) {
+                paths[path] = paths[oldPath];
+                delete paths[oldPath];
+                changed = true;
+            }
+        }
+        if (changed) this.save();
+    }
+}
@@ -0,0 +1,365 @@
+import { ItemView, Keymap, MarkdownRenderer, MarkdownView, Notice, TFile, WorkspaceLeaf, moment } from 'obsidian';
+import type GeminiCopilotPlugin from './main';
+import { NoteSuggestModal } from './modals';
+import {
+    CHAT_FRONTMATTER_KEY,
+    ChatContextItem,
+    ChatConversation,
+    ChatMessage,
+    conversationToMarkdown,
+    createConversation,
+    extractWikiLinks,
+    parseConversationMarkdown
+} from './chat';
+
+export const VIEW_TYPE_GEMINI_CHAT = 'gemini-copilot-chat';
+
+const CHAT_INSTRUCTION = '당신은 사용자의 Obsidian 볼트에 대한 질문에 답하는 도우미입니다. '
+    + '아래 노트를 참고해 답하고, 내용을 참고한 노트는 본문에 [[노트 이름]] 형식으로 인용하세요. '
+    + '노트에 없는 내용을 답할 때는 일반 지식임을 밝히세요.';
+
+// 볼트와 대화하는 사이드 패널
+export class GeminiChatView extends ItemView {
+    plugin: GeminiCopilotPlugin;
+    private conversation: ChatConversation = createConversation();
+    private useRetrieval = false;
+    private controller: AbortController | null = null;
+    private contextEl: HTMLElement;
+    private messagesEl: HTMLElement;
+    private inputEl: HTMLTextAreaElement;
+    private sendButton: HTMLButtonElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiCopilotPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_GEMINI_CHAT;
+    }
+
+    getDisplayText(): string {
+        return 'Gemini Chat';
+    }
+
+    getIcon(): string {
+        return 'message-square';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('gemini-chat-view');
+
+        // 대화 관리
+        const toolbar = container.createEl('div', { cls: 'gemini-chat-toolbar' });
+        toolbar.createEl('button', { text: '새 대화' }).addEventListener('click', () => this.newConversation());
+        toolbar.createEl('button', { text: '저장' }).addEventListener('click', () => this.saveConversation());
+        toolbar.createEl('button', { text: '불러오기' }).addEventListener('click', () => this.chooseConversation());
+
+        // 컨텍스트 첨부
+        const attachBar = container.createEl('div', { cls: 'gemini-chat-toolbar' });
+        attachBar.createEl('button', { text: '+ 현재 노트' }).addEventListener('click', () => this.attachCurrentNote());
+        attachBar.createEl('button', { text: '+ 선택 영역' }).addEventListener('click', () => this.attachSelection());
+        attachBar.createEl('button', { text: '+ 노트' }).addEventListener('click', () => {
+            new NoteSuggestModal(this.app, this.app.vault.getMarkdownFiles(), file => this.attachNote(file)).open();
+        });
+        const retrievalLabel = attachBar.createEl('label', { cls: 'gemini-log-errors-only' });
+        const retrievalCheckbox = retrievalLabel.createEl('input', { type: 'checkbox' });
+        retrievalCheckbox.checked = this.useRetrieval;
+        retrievalLabel.appendText(' 볼트 검색');
+        retrievalCheckbox.addEventListener('change', () => this.useRetrieval = retrievalCheckbox.checked);
+
+        this.contextEl = container.createEl('div', { cls: 'gemini-chat-context' });
+        this.messagesEl = container.createEl('div', { cls: 'gemini-chat-messages' });
+
+        // 답변 안의 [[위키링크]] 클릭 시 노트 열기
+        this.registerDomEvent(this.messagesEl, 'click', (evt: MouseEvent) => {
+            const link = (evt.target as HTMLElement).closest('a.internal-link');
+            if (!link) return;
+            evt.preventDefault();
+            const target = link.getAttribute('data-href') ?? link.textContent ?? '';
+            this.app.workspace.openLinkText(target, this.conversation.filePath ?? '', Keymap.isModEvent(evt));
+        });
+
+        const inputRow = container.createEl('div', { cls: 'gemini-chat-input' });
+        this.inputEl = inputRow.createEl('textarea', { attr: { placeholder: '질문을 입력하세요 (Enter: 전송, Shift+Enter: 줄바꿈)', rows: '3' } });
+        this.inputEl.addEventListener('keydown', (evt) => {
+            if (evt.key === 'Enter' && !evt.shiftKey && !evt.isComposing) {
+                evt.preventDefault();
+                this.send();
+            }
+        });
+        this.sendButton = inputRow.createEl('button', { text: '전송', cls: 'mod-cta' });
+        this.sendButton.addEventListener('click', () => {
+            if (this.controller) {
+                this.controller.abort();
+            } else {
+                this.send();
+            }
+        });
+
+        this.render();
+    }
+
+    async onClose() {
+        this.controller?.abort();
+    }
+
+    private newConversation() {
+        this.controller?.abort();
+        this.conversation = createConversation();
+        this.render();
+    }
+
+    private attachCurrentNote() {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) {
+            new Notice('열려 있는 노트가 없습니다.');
+            return;
+        }
+        this.attachNote(file);
+    }
+
+    private attachNote(file: TFile) {
+        if (this.conversation.context.some(item => item.type === 'note' && item.path === file.path)) return;
+        this.conversation.context.push({ type: 'note', path: file.path });
+        this.renderContext();
+    }
+
+    private attachSelection() {
+        // 사이드 패널이 활성화되어 있어도 가장 최근 에디터의 선택 영역을 사용
+        const view = this.app.workspace.getMostRecentLeaf()?.view;
+        const selection = view instanceof MarkdownView ? view.editor.getSelection() : '';
+        if (!selection || !(view instanceof MarkdownView)) {
+            new Notice('에디터에서 텍스트를 먼저 선택하세요.');
+            return;
+        }
+        this.conversation.context.push({ type: 'selection', path: view.file?.path ?? '', text: selection });
+        this.renderContext();
+    }
+
+    private render() {
+        this.renderContext();
+        this.messagesEl.empty();
+        if (this.conversation.messages.length === 0) {
+            this.messagesEl.createEl('p', {
+                text: '노트나 선택 영역을 첨부하거나 볼트 검색을 켜고 질문해 보세요.',
+                cls: 'gemini-log-timestamp'
+            });
+        }
+        this.conversation.messages.forEach(message => this.renderMessage(message));
+    }
+
+    private renderContext() {
+        this.contextEl.empty();
+        this.conversation.context.forEach((item, index) => {
+            const chip = this.contextEl.createEl('span', { cls: 'gemini-chat-chip' });
+            const name = item.path.split('/').pop()?.replace(/\.md$/, '') || '(노트 없음)';
+            chip.setText(item.type === 'note' ? name : `선택: ${name}`);
+            if (item.text) chip.setAttr('title', item.text);
+            const remove = chip.createEl('span', { text: ' ×', cls: 'gemini-chat-chip-remove' });
+            remove.addEventListener('click', () => {
+                this.conversation.context.splice(index, 1);
+                this.renderContext();
+            });
+        });
+    }
+
+    private renderMessage(message: ChatMessage): HTMLElement {
+        const messageEl = this.messagesEl.createEl('div', { cls: `gemini-chat-message gemini-chat-${message.role}` });
+        const bodyEl = messageEl.createEl('div', { cls: 'gemini-chat-body' });
+        if (message.role === 'user') {
+            bodyEl.setText(message.text);
+        } else {
+            MarkdownRenderer.render(this.app, message.text, bodyEl, this.conversation.filePath ?? '', this);
+        }
+        this.renderSources(messageEl, message.sources);
+        this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+        return messageEl;
+    }
+
+    private renderSources(messageEl: HTMLElement, sources: string[] | undefined) {
+        if (!sources || sources.length === 0) return;
+        const sourcesEl = messageEl.createEl('div', { cls: 'gemini-chat-sources' });
+        sourcesEl.appendText('참고: ');
+        sources.forEach((source, index) => {
+            if (index > 0) sourcesEl.appendText(', ');
+            const name = source.split('/').pop()?.replace(/\.md$/, '') ?? source;
+            sourcesEl.createEl('a', { text: `[[${name}]]`, cls: 'internal-link', attr: { 'data-href': source } });
+        });
+    }
+
+    private async send() {
+        const question = this.inputEl.value.trim();
+        if (!question || this.controller) return;
+
+        this.controller = new AbortController();
+        const signal = this.controller.signal;
+        this.inputEl.value = '';
+        this.sendButton.setText('중지');
+
+        const history = this.conversation.messages.map(message => ({ role: message.role, text: message.text }));
+        const userMessage: ChatMessage = { role: 'user', text: question };
+        this.conversation.messages.push(userMessage);
+        if (history.length === 0) this.messagesEl.empty();
+        this.renderMessage(userMessage);
+
+        const answerEl = this.messagesEl.createEl('div', { cls: 'gemini-chat-message gemini-chat-model' });
+        const answerBody = answerEl.createEl('div', { cls: 'gemini-chat-body', text: '생각 중...' });
+
+        try {
+            const { instruction, notes } = await this.buildContext(question, signal);
+            let streamed = '';
+            const answer = await this.plugin.streamChat(history, question, instruction, (token) => {
+                streamed += token;
+                answerBody.setText(streamed);
+                this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+            }, signal);
+
+            answerEl.remove();
+            if (answer === null) {
+                // 실패하거나 취소된 질문은 다시 보낼 수 있도록 입력창에 되돌림
+                this.conversation.messages.pop();
+                this.render();
+                this.inputEl.value = question;
+                return;
+            }
+
+            const answerMessage: ChatMessage = { role: 'model', text: answer, sources: this.findCitations(answer, notes) };
+            this.conversation.messages.push(answerMessage);
+            this.renderMessage(answerMessage);
+        } catch (error) {
+            answerEl.remove();
+            this.conversation.messages.pop();
+            this.render();
+            this.inputEl.value = question;
+            if (!signal.aborted) {
+                console.error('채팅 오류:', error);
+                new Notice(`채팅 오류: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        } finally {
+            this.controller = null;
+            this.sendButton.setText('전송');
+        }
+    }
+
+    // 첨부된 컨텍스트와 볼트 검색 결과로 시스템 지시문 구성
+    private async buildContext(question: string, signal: AbortSignal): Promise<{ instruction: string, notes: TFile[] }> {
+        const { retrievalCount, maxContextChars } = this.plugin.settings.chatSettings;
+        const items: ChatContextItem[] = [...this.conversation.context];
+
+        if (this.useRetrieval) {
+            const retrieved = await this.plugin.retrieveRelevantNotes(question, retrievalCount, signal);
+            retrieved
+                .filter(file => !items.some(item => item.type === 'note' && item.path === file.path))
+                .forEach(file => items.push({ type: 'note', path: file.path }));
+        }
+        if (items.length === 0) return { instruction: '', notes: [] };
+
+        const notes: TFile[] = [];
+        const sections: string[] = [];
+        let remaining = maxContextChars;
+        for (const item of items) {
+            if (remaining <= 0) break;
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            // Gemini로 보내지 않도록 설정한 노트는 첨부하지 않음
+            if (file instanceof TFile && this.plugin.privacyGuard.isBlocked(file)) {
+                new Notice(`"${file.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있어 첨부하지 않았습니다.`);
+                continue;
+            }
+            let text = item.text ?? '';
+            if (item.type === 'note') {
+                if (!(file instanceof TFile)) continue;
+                text = await this.app.vault.cachedRead(file);
+            }
+            if (file instanceof TFile && !notes.includes(file)) notes.push(file);
+
+            const heading = file instanceof TFile ? `[[${file.basename}]]` : '(선택한 텍스트)';
+            const body = text.length > remaining ? text.substring(0, remaining) + '...(이하 생략)' : text;
+            remaining -= body.length;
+            sections.push(`### ${heading}${item.type === 'selection' ? ' (선택 영역)' : ''}\n${body}`);
+        }
+
+        return { instruction: `${CHAT_INSTRUCTION}\n\n${sections.join('\n\n')}`, notes };
+    }
+
+    // 답변에서 인용한 노트 중 실제로 존재하는 노트 경로
+    private findCitations(answer: string, notes: TFile[]): string[] {
+        const citations: string[] = [];
+        for (const link of extractWikiLinks(answer)) {
+            const file = notes.find(note => note.basename === link)
+                ?? this.app.metadataCache.getFirstLinkpathDest(link, '');
+            if (file && !citations.includes(file.path)) citations.push(file.path);
+        }
+        return citations;
+    }
+
+    private async saveConversation() {
+        if (this.conversation.messages.length === 0) {
+            new Notice('저장할 대화가 없습니다.');
+            return;
+        }
+
+        const folder = this.plugin.settings.chatSettings.folder.replace(/\/+$/, '');
+        const linkText = (path: string) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, '', true) : path;
+        };
+        const markdown = conversationToMarkdown(this.conversation, linkText);
+
+        try {
+            const existing = this.conversation.filePath ? this.app.vault.getAbstractFileByPath(this.conversation.filePath) : null;
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, markdown);
+            } else {
+                if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                    await this.app.vault.createFolder(folder);
+                }
+                const firstQuestion = this.conversation.messages[0].text.split('\n')[0].substring(0, 40);
+                this.conversation.title = this.plugin.sanitizeFilename(`${moment().format('YYYY-MM-DD HHmm')} ${firstQuestion}`).trim();
+                const path = `${folder ? folder + '/' : ''}${this.conversation.title}.md`;
+                const file = await this.app.vault.create(path, markdown);
+                this.conversation.filePath = file.path;
+            }
+            new Notice(`대화를 저장했습니다: ${this.conversation.filePath}`);
+        } catch (error) {
+            console.error('대화 저장 오류:', error);
+            new Notice(`대화 저장 오류: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private chooseConversation() {
+        const chats = this.app.vault.getMarkdownFiles()
+            .filter(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.[CHAT_FRONTMATTER_KEY])
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+        if (chats.length === 0) {
+            new Notice('저장된 대화가 없습니다.');
+            return;
+        }
+        new NoteSuggestModal(this.app, chats, file => this.loadConversation(file), '불러올 대화를 선택하세요...').open();
+    }
+
+    // 저장된 대화 노트를 불러와 이어서 대화
+    async loadConversation(file: TFile) {
+        this.controller?.abort();
+        const markdown = await this.app.vault.read(file);
+        const contextValue: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.context;
+        const contextLinks: unknown[] = Array.isArray(contextValue) ? contextValue : [];
+
+        const context: ChatContextItem[] = [];
+        contextLinks.forEach(link => {
+            const [name] = extractWikiLinks(String(link));
+            const target = name ? this.app.metadataCache.getFirstLinkpathDest(name, file.path) : null;
+            if (target) context.push({ type: 'note', path: target.path });
+        });
+
+        this.conversation = {
+            title: file.basename,
+            messages: parseConversationMarkdown(markdown),
+            context,
+            filePath: file.path
+        };
+        this.render();
+    }
+}
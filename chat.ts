@@ -0,0 +1,96 @@
+import type { LLMChatMessage } from './llm-provider';
+
+// 대화에 첨부된 컨텍스트 (노트는 보낼 때마다 최신 내용을 읽음)
+export interface ChatContextItem {
+    type: 'note' | 'selection';
+    path: string;
+    // 선택 영역 첨부 시 선택한 텍스트
+    text?: string;
+}
+
+export interface ChatMessage extends LLMChatMessage {
+    // 답변이 참고한 노트 (경로 또는 링크 텍스트, 볼트 검색 결과 포함)
+    sources?: string[];
+}
+
+export interface ChatConversation {
+    title: string;
+    messages: ChatMessage[];
+    context: ChatContextItem[];
+    // 저장된 노트 경로 (다시 저장하면 같은 노트를 덮어씀)
+    filePath?: string;
+}
+
+export const CHAT_FRONTMATTER_KEY = 'gemini-chat';
+
+const USER_HEADING = '## 🧑 You';
+const MODEL_HEADING = '## ✨ Gemini';
+
+export function createConversation(): ChatConversation {
+    return { title: '', messages: [], context: [] };
+}
+
+// 답변에서 [[위키링크]] 대상 이름을 추출
+export function extractWikiLinks(text: string): string[] {
+    const links = new Set<string>();
+    const pattern = /\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        links.add(match[1].trim());
+    }
+    return [...links];
+}
+
+// 대화를 마크다운 노트로 변환
+// 노트 컨텍스트는 프론트매터에 위키링크로 남기고, 선택 영역은 저장하지 않습니다.
+export function conversationToMarkdown(conversation: ChatConversation, linkText: (path: string) => string): string {
+    const lines = ['---', `${CHAT_FRONTMATTER_KEY}: true`];
+    const notes = conversation.context.filter(item => item.type === 'note');
+    if (notes.length > 0) {
+        lines.push('context:');
+        notes.forEach(item => lines.push(`  - "[[${linkText(item.path)}]]"`));
+    }
+    lines.push('---', '');
+
+    for (const message of conversation.messages) {
+        lines.push(message.role === 'user' ? USER_HEADING : MODEL_HEADING, '');
+        lines.push(message.text.trim(), '');
+        if (message.sources && message.sources.length > 0) {
+            lines.push(`> 참고: ${message.sources.map(path => `[[${linkText(path)}]]`).join(', ')}`, '');
+        }
+    }
+    return lines.join('\n');
+}
+
+// conversationToMarkdown으로 저장한 노트에서 메시지를 복원
+export function parseConversationMarkdown(markdown: string): ChatMessage[] {
+    const body = markdown.replace(/^---\n[\s\S]*?\n---\n?/, '');
+    const messages: ChatMessage[] = [];
+    let current: ChatMessage | null = null;
+    let buffer: string[] = [];
+
+    const flush = () => {
+        if (!current) return;
+        // 마지막 "참고" 줄은 출처로 분리
+        while (buffer.length > 0 && !buffer[buffer.length - 1].trim()) buffer.pop();
+        const last = buffer[buffer.length - 1];
+        if (last && last.startsWith('> 참고: ')) {
+            current.sources = extractWikiLinks(last);
+            buffer.pop();
+        }
+        current.text = buffer.join('\n').trim();
+        messages.push(current);
+    };
+
+    for (const line of body.split('\n')) {
+        if (line === USER_HEADING || line === MODEL_HEADING) {
+            flush();
+            current = { role: line === USER_HEADING ? 'user' : 'model', text: '' };
+            buffer = [];
+        } else if (current) {
+            buffer.push(line);
+        }
+    }
+    flush();
+    return messages;
+}
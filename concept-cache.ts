@@ -0,0 +1,100 @@
+import { App, TAbstractFile, debounce } from 'obsidian';
+
+// 노트별 핵심 개념 캐시 항목
+export interface ConceptCacheEntry {
+    hash: string;
+    concepts: string;
+    updatedAt: string;
+}
+
+interface ConceptCacheData {
+    version: number;
+    entries: Record<string, ConceptCacheEntry>;
+}
+
+const CONCEPT_CACHE_VERSION = 1;
+
+// 노트 내용의 해시 계산 (FNV-1a 32bit)
+export function hashContent(content: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0') + content.length.toString(16);
+}
+
+// 파일 경로와 내용 해시를 키로 하는 영구 핵심 개념 캐시
+export class ConceptCache {
+    private app: App;
+    private filePath: string;
+    private entries: Record<string, ConceptCacheEntry> = {};
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as ConceptCacheData;
+            if (data.version === CONCEPT_CACHE_VERSION && data.entries) {
+                this.entries = data.entries;
+            }
+        } catch (error) {
+            console.error('핵심 개념 캐시 로드 오류:', error);
+            this.entries = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: ConceptCacheData = { version: CONCEPT_CACHE_VERSION, entries: this.entries };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('핵심 개념 캐시 저장 오류:', error);
+        }
+    }
+
+    // 내용이 바뀌지 않은 경우에만 캐시된 개념 반환
+    get(path: string, content: string): string | null {
+        const entry = this.entries[path];
+        if (!entry || entry.hash !== hashContent(content)) return null;
+        return entry.concepts;
+    }
+
+    set(path: string, content: string, concepts: string): void {
+        this.entries[path] = {
+            hash: hashContent(content),
+            concepts,
+            updatedAt: new Date().toISOString()
+        };
+        this.requestSave();
+    }
+
+    // 파일 이름 변경 시 캐시 키 이동
+    handleRename(file: TAbstractFile, oldPath: string): void {
+        const entry = this.entries[oldPath];
+        if (!entry) return;
+        delete this.entries[oldPath];
+        this.entries[file.path] = entry;
+        this.requestSave();
+    }
+
+    handleDelete(file: TAbstractFile): void {
+        if (!(file.path in this.entries)) return;
+        delete this.entries[file.path];
+        this.requestSave();
+    }
+
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    async clear(): Promise<void> {
+        this.entries = {};
+        await this.save();
+    }
+}
@@ -0,0 +1,108 @@
+// 원본과 제안된 텍스트를 비교하는 단어/줄 단위 diff
+
+export type DiffGranularity = 'word' | 'line';
+
+export type DiffSegment =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; hunk: number; removed: string; added: string };
+
+// LCS 표가 이 크기를 넘으면 가운데 부분 전체를 하나의 변경으로 취급
+const MAX_DIFF_CELLS = 4000000;
+
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+    const pattern = granularity === 'line' ? /[^\n]*\n|[^\n]+/g : /\s+|[^\s]+/g;
+    return text.match(pattern) ?? [];
+}
+
+// 두 토큰 목록의 LCS를 구해 같음/삭제/삽입 순서로 반환
+function diffTokens(a: string[], b: string[]): { type: 'equal' | 'delete' | 'insert'; token: string }[] {
+    const ops: { type: 'equal' | 'delete' | 'insert'; token: string }[] = [];
+
+    // 공통 앞뒤 부분은 표 없이 처리
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+    for (let i = 0; i < start; i++) ops.push({ type: 'equal', token: a[i] });
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const n = midA.length;
+    const m = midB.length;
+
+    if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+        midA.forEach(token => ops.push({ type: 'delete', token }));
+        midB.forEach(token => ops.push({ type: 'insert', token }));
+    } else {
+        // lengths[i * (m + 1) + j] = midA[i:]와 midB[j:]의 LCS 길이
+        const lengths = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * (m + 1) + j] = midA[i] === midB[j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (midA[i] === midB[j]) {
+                ops.push({ type: 'equal', token: midA[i] });
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+                ops.push({ type: 'delete', token: midA[i++] });
+            } else {
+                ops.push({ type: 'insert', token: midB[j++] });
+            }
+        }
+        while (i < n) ops.push({ type: 'delete', token: midA[i++] });
+        while (j < m) ops.push({ type: 'insert', token: midB[j++] });
+    }
+
+    for (let i = endA; i < a.length; i++) ops.push({ type: 'equal', token: a[i] });
+    return ops;
+}
+
+// 연속된 삭제/삽입을 하나의 변경 덩어리(hunk)로 묶은 구간 목록
+export function diffSegments(original: string, proposed: string, granularity: DiffGranularity): DiffSegment[] {
+    const segments: DiffSegment[] = [];
+    let hunk = 0;
+
+    for (const op of diffTokens(tokenize(original, granularity), tokenize(proposed, granularity))) {
+        const last = segments[segments.length - 1];
+        if (op.type === 'equal') {
+            if (last && last.type === 'equal') last.text += op.token;
+            else segments.push({ type: 'equal', text: op.token });
+            continue;
+        }
+
+        let change: DiffSegment;
+        if (last && last.type === 'change') {
+            change = last;
+        } else {
+            change = { type: 'change', hunk: hunk++, removed: '', added: '' };
+            segments.push(change);
+        }
+        if (op.type === 'delete') change.removed += op.token;
+        else change.added += op.token;
+    }
+    return segments;
+}
+
+export function countHunks(segments: DiffSegment[]): number {
+    return segments.filter(segment => segment.type === 'change').length;
+}
+
+// 수락한 변경만 반영한 결과 텍스트 (accepted[hunk]가 false이면 원본 유지)
+export function applySegments(segments: DiffSegment[], accepted: boolean[]): string {
+    return segments.map(segment => {
+        if (segment.type === 'equal') return segment.text;
+        return accepted[segment.hunk] === false ? segment.removed : segment.added;
+    }).join('');
+}
@@ -0,0 +1,317 @@
+import { App, TAbstractFile, TFile, debounce } from 'obsidian';
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { hashContent } from './concept-cache';
+import { RequestScheduler } from './request-scheduler';
+import { estimateTokens } from './usage';
+
+// 텍스트를 벡터로 변환하는 임베딩 제공자 인터페이스
+export interface EmbeddingProvider {
+    // 저장된 벡터와 섞이지 않도록 제공자/모델마다 고유한 ID
+    readonly id: string;
+    embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+// 임베딩 요청의 예산 확인과 사용량 기록 (응답에 토큰 수가 없어 추정치를 사용)
+export interface EmbeddingUsageHooks {
+    // 보내기 전 예산 확인 (false이면 요청하지 않음)
+    allow(estimatedTokens: number): boolean;
+    // 요청 한 번(최대 100개 청크)이 끝날 때마다 호출 (실패하면 error)
+    record(model: string, chunkCount: number, estimatedTokens: number, error?: unknown): void;
+}
+
+// Gemini 임베딩 API를 사용하는 제공자
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+    private getClient: () => GoogleGenerativeAI | null;
+    private model: string;
+    private scheduler: RequestScheduler;
+    // 보내기 전에 민감 정보를 가리는 함수
+    private redact: (text: string) => string;
+    private usage: EmbeddingUsageHooks | null;
+
+    constructor(
+        getClient: () => GoogleGenerativeAI | null,
+        model: string,
+        scheduler: RequestScheduler,
+        redact: (text: string) => string = text => text,
+        usage: EmbeddingUsageHooks | null = null
+    ) {
+        this.getClient = getClient;
+        this.model = model;
+        this.scheduler = scheduler;
+        this.redact = redact;
+        this.usage = usage;
+    }
+
+    get id(): string {
+        return `gemini:${this.model}`;
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+        const client = this.getClient();
+        if (!client) {
+            throw new Error('Gemini API Key is not configured.');
+        }
+
+        const redacted = texts.map(text => this.redact(text));
+        if (this.usage && !this.usage.allow(redacted.reduce((sum, text) => sum + estimateTokens(text), 0))) {
+            throw new Error('토큰 예산을 초과해 임베딩 요청이 차단되었습니다.');
+        }
+
+        const model = client.getGenerativeModel({ model: this.model });
+        const vectors: number[][] = [];
+
+        // batchEmbedContents는 요청당 최대 100개까지 처리
+        for (let i = 0; i < redacted.length; i += 100) {
+            const batch = redacted.slice(i, i + 100);
+            const tokens = batch.reduce((sum, text) => sum + estimateTokens(text), 0);
+            try {
+                const result = await this.scheduler.schedule(requestSignal => model.batchEmbedContents({
+                    requests: batch.map(text => ({
+                        content: { role: 'user', parts: [{ text }] },
+                        taskType: TaskType.RETRIEVAL_DOCUMENT
+                    }))
+                }, { signal: requestSignal }), { signal });
+                vectors.push(...result.embeddings.map(embedding => embedding.values));
+                this.usage?.record(this.model, batch.length, tokens);
+            } catch (error) {
+                this.usage?.record(this.model, batch.length, tokens, error);
+                throw error;
+            }
+        }
+        return vectors;
+    }
+}
+
+// 네트워크 없이 동작하는 결정적 임베딩 (테스트 및 오프라인용)
+// 단어와 문자 3-gram을 고정 크기 벡터에 해싱합니다.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    private dimensions: number;
+
+    constructor(dimensions = 256) {
+        this.dimensions = dimensions;
+    }
+
+    get id(): string {
+        return `local:hash-${this.dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+        for (const token of tokens) {
+            vector[this.bucket(token)] += 1;
+            for (let i = 0; i + 3 <= token.length; i++) {
+                vector[this.bucket(token.substring(i, i + 3))] += 0.5;
+            }
+        }
+        return normalize(vector);
+    }
+
+    private bucket(token: string): number {
+        return parseInt(hashContent(token).substring(0, 8), 16) % this.dimensions;
+    }
+}
+
+export function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// 문단 경계를 기준으로 노트를 임베딩용 청크로 분할
+export function chunkText(content: string, maxChars = 1500): string[] {
+    const paragraphs = content.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const paragraph of paragraphs) {
+        if (current && current.length + paragraph.length + 2 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        if (paragraph.length > maxChars) {
+            for (let i = 0; i < paragraph.length; i += maxChars) {
+                chunks.push(paragraph.substring(i, i + maxChars));
+            }
+            continue;
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// 노트별 임베딩 벡터 항목
+interface EmbeddingEntry {
+    hash: string;
+    mtime: number;
+    vectors: number[][];
+}
+
+interface EmbeddingStoreData {
+    providerId: string;
+    entries: Record<string, EmbeddingEntry>;
+}
+
+// 노트 청크 임베딩을 로컬에 저장하는 벡터 저장소
+export class EmbeddingStore {
+    private app: App;
+    private filePath: string;
+    private provider: EmbeddingProvider;
+    private entries: Record<string, EmbeddingEntry> = {};
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(app: App, filePath: string, provider: EmbeddingProvider) {
+        this.app = app;
+        this.filePath = filePath;
+        this.provider = provider;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as EmbeddingStoreData;
+            // 다른 제공자로 만든 벡터는 비교할 수 없으므로 버림
+            this.entries = data.providerId === this.provider.id && data.entries ? data.entries : {};
+        } catch (error) {
+            console.error('임베딩 저장소 로드 오류:', error);
+            this.entries = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: EmbeddingStoreData = { providerId: this.provider.id, entries: this.entries };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('임베딩 저장소 저장 오류:', error);
+        }
+    }
+
+    // 임베딩 제공자 교체 (제공자가 바뀌면 저장된 벡터 초기화)
+    // 다음 ensure에서 다시 임베딩할 노트인지 (content는 노트의 현재 내용)
+    isStale(file: TFile, content: string): boolean {
+        const entry = this.entries[file.path];
+        if (!entry) return true;
+        return entry.mtime !== file.stat.mtime && entry.hash !== hashContent(content);
+    }
+
+    setProvider(provider: EmbeddingProvider): void {
+        if (provider.id !== this.provider.id) {
+            this.entries = {};
+            this.requestSave();
+        }
+        this.provider = provider;
+    }
+
+    get(file: TFile): number[][] | null {
+        const entry = this.entries[file.path];
+        return entry ? entry.vectors : null;
+    }
+
+    // 임베딩이 없거나 내용이 바뀐 노트만 일괄 임베딩
+    async ensure(files: TFile[], signal?: AbortSignal): Promise<void> {
+        const pending: { file: TFile, hash: string, chunks: string[] }[] = [];
+
+        for (const file of files) {
+            const entry = this.entries[file.path];
+            if (entry && entry.mtime === file.stat.mtime) continue;
+
+            const content = await this.app.vault.cachedRead(file);
+            const hash = hashContent(content);
+            if (entry && entry.hash === hash) {
+                entry.mtime = file.stat.mtime;
+                continue;
+            }
+
+            const chunks = chunkText(content);
+            if (chunks.length === 0) {
+                delete this.entries[file.path];
+                continue;
+            }
+            pending.push({ file, hash, chunks });
+        }
+
+        if (pending.length === 0) return;
+
+        const vectors = await this.provider.embed(pending.flatMap(item => item.chunks), signal);
+        let offset = 0;
+        for (const item of pending) {
+            this.entries[item.file.path] = {
+                hash: item.hash,
+                mtime: item.file.stat.mtime,
+                vectors: vectors.slice(offset, offset + item.chunks.length)
+            };
+            offset += item.chunks.length;
+        }
+        this.requestSave();
+    }
+
+    // 두 노트의 유사도: 청크 쌍 중 가장 높은 코사인 유사도
+    similarity(a: number[][], b: number[][]): number {
+        let best = 0;
+        for (const va of a) {
+            for (const vb of b) {
+                best = Math.max(best, cosineSimilarity(va, vb));
+            }
+        }
+        return best;
+    }
+
+    // 질의 문장과 가장 비슷한 노트 검색 (질의 벡터는 저장하지 않음)
+    async search(query: string, files: TFile[], limit: number, signal?: AbortSignal): Promise<{ file: TFile, score: number }[]> {
+        await this.ensure(files, signal);
+        const [queryVector] = await this.provider.embed([query], signal);
+        if (!queryVector) return [];
+
+        const results: { file: TFile, score: number }[] = [];
+        for (const file of files) {
+            const vectors = this.get(file);
+            if (!vectors) continue;
+            results.push({ file, score: this.similarity([queryVector], vectors) });
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string): void {
+        const entry = this.entries[oldPath];
+        if (!entry) return;
+        delete this.entries[oldPath];
+        this.entries[file.path] = entry;
+        this.requestSave();
+    }
+
+    handleDelete(file: TAbstractFile): void {
+        if (!(file.path in this.entries)) return;
+        delete this.entries[file.path];
+        this.requestSave();
+    }
+
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    async clear(): Promise<void> {
+        this.entries = {};
+        await this.save();
+    }
+}
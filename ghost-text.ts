@@ -0,0 +1,255 @@
+import { TFile, editorInfoField } from 'obsidian';
+import { EditorState, Extension, Prec, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, EditorView, ViewPlugin, ViewUpdate, WidgetType, keymap } from '@codemirror/view';
+import { headingPathAt } from './long-notes';
+
+export interface GhostTextSettings {
+    // 전체 사용 여부 (켜도 노트나 폴더별로 켠 곳에서만 동작)
+    enabled: boolean;
+    // 입력을 멈춘 뒤 요청할 때까지 기다리는 시간 (ms)
+    delayMs: number;
+    // 자동 완성을 켤 폴더 글롭
+    folders: string[];
+    // 자동 완성에 사용할 모델 (비어 있으면 제공자의 기본 모델)
+    model: string;
+    maxOutputTokens: number;
+}
+
+// 노트별로 켜고 끄는 프론트매터 속성 (true/false, 폴더 설정보다 우선)
+export const AUTOCOMPLETE_FRONTMATTER_KEY = 'gemini-autocomplete';
+
+// 커서 앞에서 보낼 최대 글자 수
+const MAX_CONTEXT_CHARS = 3000;
+
+// 자동 완성 요청에 보낼 커서 주변 내용
+export interface GhostTextRequest {
+    file: TFile;
+    pos: number;
+    // 커서 앞 (바로 앞 문단과 현재 문단)
+    before: string;
+    // 커서 뒤 현재 문단의 나머지
+    after: string;
+    // 커서 위치의 제목 경로
+    headingPath: string;
+}
+
+// 에디터 확장이 플러그인에 요청하는 기능
+export interface GhostTextSource {
+    isEnabled(file: TFile): boolean;
+    delay(): number;
+    // 커서 뒤에 이어질 텍스트 (없으면 null)
+    complete(request: GhostTextRequest, signal: AbortSignal): Promise<string | null>;
+}
+
+interface GhostText {
+    pos: number;
+    text: string;
+}
+
+const setGhostText = StateEffect.define<GhostText | null>();
+
+// 표시 중인 제안
+// 제안과 같은 글자를 입력하면 남은 부분만 유지하고, 다른 편집이나 커서 이동이 있으면 지움
+const ghostTextField = StateField.define<GhostText | null>({
+    create: () => null,
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setGhostText)) return effect.value;
+        }
+        if (!value) return null;
+
+        if (tr.docChanged) {
+            const changes: { from: number; to: number; text: string }[] = [];
+            tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => changes.push({ from: fromA, to: toA, text: inserted.toString() }));
+            const typed = changes.length === 1 && changes[0].from === value.pos && changes[0].to === value.pos ? changes[0].text : '';
+            if (!typed || !value.text.startsWith(typed) || typed.length === value.text.length) return null;
+            return { pos: value.pos + typed.length, text: value.text.substring(typed.length) };
+        }
+
+        const selection = tr.state.selection.main;
+        return selection.empty && selection.head === value.pos ? value : null;
+    },
+    provide: field => EditorView.decorations.from(field, value => value
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(value.text), side: 1 }).range(value.pos)])
+        : Decoration.none)
+});
+
+class GhostTextWidget extends WidgetType {
+    private text: string;
+
+    constructor(text: string) {
+        super();
+        this.text = text;
+    }
+
+    eq(other: GhostTextWidget): boolean {
+        return other.text === this.text;
+    }
+
+    toDOM(): HTMLElement {
+        const span = document.createElement('span');
+        span.className = 'gemini-ghost-text';
+        span.textContent = this.text;
+        return span;
+    }
+}
+
+// 프론트매터 마지막 줄 번호 (없으면 0)
+function frontmatterEnd(doc: Text): number {
+    if (doc.line(1).text.trim() !== '---') return 0;
+    for (let n = 2; n <= doc.lines; n++) {
+        if (doc.line(n).text.trim() === '---') return n;
+    }
+    return doc.lines;
+}
+
+function isHeading(text: string): boolean {
+    return /^#{1,6}\s/.test(text);
+}
+
+// 문단의 첫 줄 번호 (빈 줄, 제목 줄, 프론트매터 다음에서 시작)
+function paragraphStart(doc: Text, lineNumber: number, minLine: number): number {
+    let start = lineNumber;
+    while (start > minLine && !isHeading(doc.line(start).text)) {
+        const above = doc.line(start - 1).text;
+        if (!above.trim() || isHeading(above)) break;
+        start--;
+    }
+    return start;
+}
+
+// 커서 주변 문단과 제목 경로 (제안할 위치가 아니면 null)
+// 줄 끝에서만 제안하고, 빈 줄이나 프론트매터 안에서는 요청하지 않습니다.
+export function buildGhostTextContext(state: EditorState): Omit<GhostTextRequest, 'file'> | null {
+    const selection = state.selection.main;
+    if (!selection.empty) return null;
+
+    const doc = state.doc;
+    const pos = selection.head;
+    const line = doc.lineAt(pos);
+    if (line.text.substring(pos - line.from).trim() || !line.text.substring(0, pos - line.from).trim()) return null;
+    const minLine = frontmatterEnd(doc) + 1;
+    if (line.number < minLine) return null;
+
+    // 현재 문단과 바로 앞 문단 (제목을 넘어가지 않음)
+    let first = paragraphStart(doc, line.number, minLine);
+    let previous = first - 1;
+    while (previous >= minLine && !doc.line(previous).text.trim()) previous--;
+    if (previous >= minLine && !isHeading(doc.line(previous).text) && !isHeading(doc.line(first).text)) {
+        first = paragraphStart(doc, previous, minLine);
+    }
+
+    let last = line.number;
+    while (last < doc.lines && doc.line(last + 1).text.trim()) last++;
+
+    return {
+        pos,
+        before: doc.sliceString(Math.max(doc.line(first).from, pos - MAX_CONTEXT_CHARS), pos),
+        after: doc.sliceString(pos, Math.min(doc.line(last).to, pos + MAX_CONTEXT_CHARS)).trim(),
+        headingPath: headingPathAt(doc.sliceString(0, pos))
+    };
+}
+
+// 모델 응답에서 커서 뒤에 넣을 텍스트만 남김 (코드 블록 감싸기, 커서 앞 줄 반복 제거, 한 문단까지)
+export function cleanCompletion(response: string, before: string): string | null {
+    let text = response.replace(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/, '$1');
+    const lineBefore = before.substring(before.lastIndexOf('\n') + 1);
+    if (lineBefore.trim() && text.startsWith(lineBefore)) text = text.substring(lineBefore.length);
+    if (/\s$/.test(lineBefore)) text = text.replace(/^[ \t]+/, '');
+
+    const leading = text.length - text.replace(/^\s+/, '').length;
+    const paragraphEnd = text.substring(leading).search(/\n\s*\n/);
+    if (paragraphEnd >= 0) text = text.substring(0, leading + paragraphEnd);
+    text = text.replace(/\s+$/, '');
+    return text.trim() ? text : null;
+}
+
+// 입력을 멈추면 제안을 요청하고, 입력이나 커서 이동이 있으면 대기 중인 요청을 취소
+class GhostTextPlugin {
+    private view: EditorView;
+    private source: GhostTextSource;
+    private timer: number | null = null;
+    private controller: AbortController | null = null;
+
+    constructor(view: EditorView, source: GhostTextSource) {
+        this.view = view;
+        this.source = source;
+    }
+
+    update(update: ViewUpdate): void {
+        if (!update.docChanged && !update.selectionSet) return;
+        this.cancel();
+        // 제안을 따라 입력하는 중이면 새로 요청하지 않음
+        if (!update.docChanged || update.state.field(ghostTextField)) return;
+        if (update.transactions.some(tr => tr.isUserEvent('input') || tr.isUserEvent('delete'))) {
+            this.timer = window.setTimeout(() => this.request(), this.source.delay());
+        }
+    }
+
+    destroy(): void {
+        this.cancel();
+    }
+
+    private cancel(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.controller?.abort();
+        this.controller = null;
+    }
+
+    private async request(): Promise<void> {
+        this.timer = null;
+        const state = this.view.state;
+        const file = state.field(editorInfoField, false)?.file;
+        if (!file || !this.source.isEnabled(file)) return;
+        const context = buildGhostTextContext(state);
+        if (!context) return;
+
+        const controller = new AbortController();
+        this.controller = controller;
+        try {
+            const text = await this.source.complete({ file, ...context }, controller.signal);
+            if (controller.signal.aborted || !text || this.view.state.doc !== state.doc) return;
+            this.view.dispatch({ effects: setGhostText.of({ pos: context.pos, text }) });
+        } catch (error) {
+            console.error('인라인 자동 완성 오류:', error);
+        } finally {
+            if (this.controller === controller) this.controller = null;
+        }
+    }
+}
+
+// 제안 전체 또는 다음 단어까지 입력
+function acceptGhostText(view: EditorView, wordOnly: boolean): boolean {
+    const suggestion = view.state.field(ghostTextField, false);
+    if (!suggestion) return false;
+    const text = wordOnly ? (suggestion.text.match(/^\s*\S+/)?.[0] ?? suggestion.text) : suggestion.text;
+    view.dispatch({
+        changes: { from: suggestion.pos, insert: text },
+        selection: { anchor: suggestion.pos + text.length },
+        userEvent: 'input.complete'
+    });
+    return true;
+}
+
+function dismissGhostText(view: EditorView): boolean {
+    if (!view.state.field(ghostTextField, false)) return false;
+    view.dispatch({ effects: setGhostText.of(null) });
+    return true;
+}
+
+// 회색 제안 텍스트 에디터 확장
+// Tab: 전체 입력, Ctrl/Cmd+→: 다음 단어 입력, Esc: 닫기 (제안이 없으면 기본 동작)
+export function ghostTextExtension(source: GhostTextSource): Extension {
+    return [
+        ghostTextField,
+        ViewPlugin.define(view => new GhostTextPlugin(view, source)),
+        Prec.highest(keymap.of([
+            { key: 'Tab', run: view => acceptGhostText(view, false) },
+            { key: 'Mod-ArrowRight', run: view => acceptGhostText(view, true) },
+            { key: 'Escape', run: dismissGhostText }
+        ]))
+    ];
+}
@@ -0,0 +1,112 @@
+import type { DocumentRelation } from './main';
+
+// 레이블 전파 최대 반복 횟수
+const MAX_ITERATIONS = 20;
+// 핵심 개념 겹침(Jaccard)에 곱하는 가중치 (관계 유사도는 0~1)
+const CONCEPT_WEIGHT = 0.5;
+
+type WeightedGraph = Map<string, Map<string, number>>;
+
+// 방향과 관계없이 두 노트 사이의 가장 높은 유사도를 가중치로 사용
+function relationGraph(relations: DocumentRelation[]): WeightedGraph {
+    const graph: WeightedGraph = new Map();
+    for (const relation of relations) {
+        const source = relation.sourceFile.path;
+        const target = relation.targetFile.path;
+        if (source === target) continue;
+        for (const [a, b] of [[source, target], [target, source]]) {
+            const edges = graph.get(a) ?? new Map<string, number>();
+            edges.set(b, Math.max(edges.get(b) ?? 0, relation.similarityScore));
+            graph.set(a, edges);
+        }
+    }
+    return graph;
+}
+
+// 유사도 가중치 레이블 전파 (반환값: 노트 경로 → 레이블)
+function propagateLabels(graph: WeightedGraph): Map<string, string> {
+    // 결과가 매번 같도록 경로 순서로 처리
+    const nodes = [...graph.keys()].sort();
+    const labels = new Map(nodes.map(node => [node, node]));
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        let changed = false;
+        for (const node of nodes) {
+            const weights = new Map<string, number>();
+            graph.get(node)?.forEach((score, neighbor) => {
+                const label = labels.get(neighbor) as string;
+                weights.set(label, (weights.get(label) ?? 0) + score);
+            });
+
+            // 가중치가 같으면 사전 순으로 앞선 레이블 선택
+            let best = labels.get(node) as string;
+            let bestWeight = weights.get(best) ?? 0;
+            weights.forEach((weight, label) => {
+                if (weight > bestWeight || (weight === bestWeight && label < best)) {
+                    best = label;
+                    bestWeight = weight;
+                }
+            });
+            if (best !== labels.get(node)) {
+                labels.set(node, best);
+                changed = true;
+            }
+        }
+        if (!changed) break;
+    }
+    return labels;
+}
+
+// 레이블별 구성원 목록 (큰 군집 순, 구성원은 경로 순)
+function groupLabels(labels: Map<string, string>): string[][] {
+    const members = new Map<string, string[]>();
+    labels.forEach((label, node) => members.set(label, [...(members.get(label) ?? []), node]));
+    return [...members.entries()]
+        .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+        .map(([, paths]) => paths.sort());
+}
+
+// 관계 그래프를 군집화
+// 반환값: 노트 경로 → 군집 번호 (0부터, 큰 군집 순)
+export function clusterRelations(relations: DocumentRelation[]): Map<string, number> {
+    const clusters = new Map<string, number>();
+    groupLabels(propagateLabels(relationGraph(relations)))
+        .forEach((paths, index) => paths.forEach(path => clusters.set(path, index)));
+    return clusters;
+}
+
+// 관계 유사도와 핵심 개념 겹침을 함께 사용한 주제 군집 (concepts: 노트 경로 → 핵심 개념)
+// 너무 많은 노트에 나오는 개념은 군집을 구분하지 못하므로 무시합니다.
+export function clusterTopics(relations: DocumentRelation[], concepts: Map<string, string[]>): string[][] {
+    const graph = relationGraph(relations);
+
+    const notesByConcept = new Map<string, string[]>();
+    concepts.forEach((list, path) => {
+        new Set(list).forEach(concept => notesByConcept.set(concept, [...(notesByConcept.get(concept) ?? []), path]));
+    });
+    const maxNotesPerConcept = Math.max(5, Math.ceil(concepts.size / 4));
+
+    // 개념을 공유하는 노트 쌍만 Jaccard 계산
+    const shared = new Map<string, number>();
+    notesByConcept.forEach(paths => {
+        if (paths.length < 2 || paths.length > maxNotesPerConcept) return;
+        for (let i = 0; i < paths.length; i++) {
+            for (let j = i + 1; j < paths.length; j++) {
+                const key = paths[i] < paths[j] ? `${paths[i]}\n${paths[j]}` : `${paths[j]}\n${paths[i]}`;
+                shared.set(key, (shared.get(key) ?? 0) + 1);
+            }
+        }
+    });
+    shared.forEach((count, key) => {
+        const [a, b] = key.split('\n');
+        const union = new Set([...(concepts.get(a) ?? []), ...(concepts.get(b) ?? [])]).size;
+        const weight = CONCEPT_WEIGHT * count / Math.max(union, 1);
+        for (const [from, to] of [[a, b], [b, a]]) {
+            const edges = graph.get(from) ?? new Map<string, number>();
+            edges.set(to, (edges.get(to) ?? 0) + weight);
+            graph.set(from, edges);
+        }
+    });
+
+    return groupLabels(propagateLabels(graph));
+}
@@ -0,0 +1,211 @@
+import type { DocumentRelation } from './main';
+import { clusterRelations } from './graph-clusters';
+
+export type GraphExportFormat = 'json' | 'graphml' | 'mermaid' | 'canvas';
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string }> = {
+    json: { label: 'JSON', extension: 'json' },
+    graphml: { label: 'GraphML', extension: 'graphml' },
+    mermaid: { label: 'Mermaid', extension: 'md' },
+    canvas: { label: 'Canvas', extension: 'canvas' },
+};
+
+interface ExportNode {
+    id: string;
+    path: string;
+    label: string;
+    cluster: number;
+}
+
+interface ExportEdge {
+    source: ExportNode;
+    target: ExportNode;
+    score: number;
+    context: string;
+}
+
+// Canvas 배치 크기
+const CANVAS_NODE_WIDTH = 300;
+const CANVAS_NODE_HEIGHT = 160;
+const CANVAS_GAP = 60;
+const CANVAS_GROUP_PADDING = 40;
+
+// 관계 목록을 노드/엣지로 변환 (같은 방향의 중복 관계는 점수가 높은 것만)
+function buildGraph(relations: DocumentRelation[]): { nodes: ExportNode[]; edges: ExportEdge[]; clusterCount: number } {
+    const clusters = clusterRelations(relations);
+    const nodes = new Map<string, ExportNode>();
+    const nodeFor = (path: string, label: string): ExportNode => {
+        let node = nodes.get(path);
+        if (!node) {
+            node = { id: `n${nodes.size}`, path, label, cluster: clusters.get(path) ?? 0 };
+            nodes.set(path, node);
+        }
+        return node;
+    };
+
+    const edges = new Map<string, ExportEdge>();
+    for (const relation of relations) {
+        const source = nodeFor(relation.sourceFile.path, relation.sourceFile.basename);
+        const target = nodeFor(relation.targetFile.path, relation.targetFile.basename);
+        const key = `${source.id}>${target.id}`;
+        const existing = edges.get(key);
+        if (!existing || existing.score < relation.similarityScore) {
+            edges.set(key, { source, target, score: relation.similarityScore, context: relation.extractedContext });
+        }
+    }
+
+    const clusterCount = Math.max(0, ...[...nodes.values()].map(node => node.cluster + 1));
+    return { nodes: [...nodes.values()], edges: [...edges.values()], clusterCount };
+}
+
+function formatScore(score: number): string {
+    return `${Math.round(score * 100)}%`;
+}
+
+function toJson(nodes: ExportNode[], edges: ExportEdge[]): string {
+    return JSON.stringify({
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        nodes: nodes.map(node => ({ id: node.path, label: node.label, cluster: node.cluster })),
+        edges: edges.map(edge => ({
+            source: edge.source.path,
+            target: edge.target.path,
+            similarityScore: edge.score,
+            extractedContext: edge.context
+        }))
+    }, null, 2);
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Gephi 등에서 읽을 수 있는 GraphML
+function toGraphML(nodes: ExportNode[], edges: ExportEdge[]): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="path" for="node" attr.name="path" attr.type="string"/>',
+        '  <key id="cluster" for="node" attr.name="cluster" attr.type="int"/>',
+        '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+        '  <key id="context" for="edge" attr.name="context" attr.type="string"/>',
+        '  <graph id="G" edgedefault="directed">'
+    ];
+    for (const node of nodes) {
+        lines.push(`    <node id="${node.id}">`,
+            `      <data key="label">${escapeXml(node.label)}</data>`,
+            `      <data key="path">${escapeXml(node.path)}</data>`,
+            `      <data key="cluster">${node.cluster}</data>`,
+            '    </node>');
+    }
+    edges.forEach((edge, index) => {
+        lines.push(`    <edge id="e${index}" source="${edge.source.id}" target="${edge.target.id}">`,
+            `      <data key="weight">${edge.score}</data>`,
+            `      <data key="context">${escapeXml(edge.context)}</data>`,
+            '    </edge>');
+    });
+    lines.push('  </graph>', '</graphml>', '');
+    return lines.join('\n');
+}
+
+function escapeMermaid(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').trim();
+}
+
+// Mermaid graph 블록이 든 마크다운 노트 (노드를 누르면 해당 노트로 이동)
+function toMermaid(nodes: ExportNode[], edges: ExportEdge[], clusterCount: number): string {
+    const lines = ['```mermaid', 'graph LR'];
+    for (let cluster = 0; cluster < clusterCount; cluster++) {
+        const members = nodes.filter(node => node.cluster === cluster);
+        if (members.length === 0) continue;
+        lines.push(`    subgraph c${cluster}["군집 ${cluster + 1}"]`);
+        members.forEach(node => lines.push(`        ${node.id}["${escapeMermaid(node.label)}"]`));
+        lines.push('    end');
+    }
+    for (const edge of edges) {
+        const context = edge.context.length > 80 ? `${edge.context.substring(0, 80)}…` : edge.context;
+        const label = escapeMermaid(context ? `${formatScore(edge.score)} · ${context}` : formatScore(edge.score));
+        lines.push(`    ${edge.source.id} -->|"${label}"| ${edge.target.id}`);
+    }
+    if (nodes.length > 0) {
+        lines.push(`    class ${nodes.map(node => node.id).join(',')} internal-link;`);
+    }
+    lines.push('```');
+
+    return [
+        '# 지식 그래프',
+        '',
+        `${nodes.length}개 노트, ${edges.length}개 관계, ${clusterCount}개 군집`,
+        '',
+        ...lines,
+        ''
+    ].join('\n');
+}
+
+// Obsidian Canvas (군집마다 그룹으로 묶어 격자로 배치)
+function toCanvas(nodes: ExportNode[], edges: ExportEdge[], clusterCount: number): string {
+    const canvasNodes: Record<string, unknown>[] = [];
+    const groups: Record<string, unknown>[] = [];
+    const clustersPerRow = Math.max(1, Math.ceil(Math.sqrt(clusterCount)));
+
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+    for (let cluster = 0; cluster < clusterCount; cluster++) {
+        const members = nodes.filter(node => node.cluster === cluster);
+        if (members.length === 0) continue;
+
+        const columns = Math.ceil(Math.sqrt(members.length));
+        const rows = Math.ceil(members.length / columns);
+        const width = columns * CANVAS_NODE_WIDTH + (columns - 1) * CANVAS_GAP + CANVAS_GROUP_PADDING * 2;
+        const height = rows * CANVAS_NODE_HEIGHT + (rows - 1) * CANVAS_GAP + CANVAS_GROUP_PADDING * 2;
+
+        groups.push({ id: `group-${cluster}`, type: 'group', label: `군집 ${cluster + 1}`, x, y, width, height });
+        members.forEach((node, index) => {
+            canvasNodes.push({
+                id: node.id,
+                type: 'file',
+                file: node.path,
+                x: x + CANVAS_GROUP_PADDING + (index % columns) * (CANVAS_NODE_WIDTH + CANVAS_GAP),
+                y: y + CANVAS_GROUP_PADDING + Math.floor(index / columns) * (CANVAS_NODE_HEIGHT + CANVAS_GAP),
+                width: CANVAS_NODE_WIDTH,
+                height: CANVAS_NODE_HEIGHT
+            });
+        });
+
+        rowHeight = Math.max(rowHeight, height);
+        if ((groups.length % clustersPerRow) === 0) {
+            x = 0;
+            y += rowHeight + CANVAS_GAP * 2;
+            rowHeight = 0;
+        } else {
+            x += width + CANVAS_GAP * 2;
+        }
+    }
+
+    const canvasEdges = edges.map((edge, index) => ({
+        id: `edge-${index}`,
+        fromNode: edge.source.id,
+        toNode: edge.target.id,
+        label: edge.context ? `${formatScore(edge.score)} · ${edge.context}` : formatScore(edge.score)
+    }));
+
+    // 그룹을 먼저 두어야 노트 뒤에 그려짐
+    return JSON.stringify({ nodes: [...groups, ...canvasNodes], edges: canvasEdges }, null, 2);
+}
+
+// 관계 목록을 지정한 형식의 파일 내용으로 변환
+export function exportGraph(relations: DocumentRelation[], format: GraphExportFormat): string {
+    const { nodes, edges, clusterCount } = buildGraph(relations);
+    switch (format) {
+        case 'json':
+            return toJson(nodes, edges);
+        case 'graphml':
+            return toGraphML(nodes, edges);
+        case 'mermaid':
+            return toMermaid(nodes, edges, clusterCount);
+        case 'canvas':
+            return toCanvas(nodes, edges, clusterCount);
+    }
+}
@@ -0,0 +1,116 @@
+import { App, TFile, TFolder, getAllTags } from 'obsidian';
+import { MOC_FRONTMATTER_KEY } from './topic-clusters';
+import { BATCH_REPORT_FRONTMATTER_KEY } from './batch-jobs';
+import { ATTACHMENT_FRONTMATTER_KEY } from './attachments';
+import type { PrivacyGuard } from './privacy-guard';
+
+// 지식 그래프와 관련 문서 검색 대상 노트를 정하는 조건
+export interface GraphScopeSettings {
+    // 폴더 글롭 (예: Projects, Daily/**, **/archive). 포함 목록이 비어 있으면 전체
+    includeFolders: string[];
+    excludeFolders: string[];
+    // # 없이 입력한 태그 (하위 태그 포함). 포함 목록이 비어 있으면 전체
+    includeTags: string[];
+    excludeTags: string[];
+    // 이 글자 수보다 짧은 노트는 제외
+    minNoteLength: number;
+    // 이 프론트매터 속성이 false인 노트는 제외 (예: gemini: false)
+    optOutProperty: string;
+    // 첨부 파일 설명 노트(이미지, PDF 설명)를 분석에 포함
+    includeAttachmentNotes: boolean;
+}
+
+// 폴더 글롭을 경로 정규식으로 변환 (폴더를 지정하면 하위 노트 전체가 일치)
+export function globToRegExp(glob: string): RegExp {
+    const pattern = glob.trim().replace(/^\/+|\/+$/g, '');
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (pattern.startsWith('**/', i)) {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (pattern.startsWith('**', i)) {
+            source += '.*';
+            i += 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}(?:/.*)?$`, 'i');
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+// 설정 문자열(쉼표 또는 줄바꿈 구분)을 목록으로 변환
+export function parseScopeList(value: string): string[] {
+    return value.split(/[,\n]/).map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// 노트가 지식 그래프 범위에 포함되는지 판단
+export class GraphScope {
+    private app: App;
+    private getSettings: () => GraphScopeSettings;
+    private privacyGuard: PrivacyGuard;
+
+    constructor(app: App, getSettings: () => GraphScopeSettings, privacyGuard: PrivacyGuard) {
+        this.app = app;
+        this.getSettings = getSettings;
+        this.privacyGuard = privacyGuard;
+    }
+
+    // 폴더, 태그, 프론트매터 조건 (노트 내용은 읽지 않음)
+    includes(file: TFile): boolean {
+        const settings = this.getSettings();
+        if (file.extension !== 'md') return false;
+
+        const matchesFolder = (globs: string[]) => globs.some(glob => globToRegExp(glob).test(file.path));
+        if (settings.includeFolders.length > 0 && !matchesFolder(settings.includeFolders)) return false;
+        if (matchesFolder(settings.excludeFolders)) return false;
+        // 외부로 보내지 않도록 표시한 노트
+        if (this.privacyGuard.isBlocked(file)) return false;
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (settings.optOutProperty && cache?.frontmatter?.[settings.optOutProperty] === false) return false;
+        // 플러그인이 만든 MOC 노트와 일괄 작업 보고서는 분석하지 않음
+        if (cache?.frontmatter?.[MOC_FRONTMATTER_KEY] !== undefined) return false;
+        if (cache?.frontmatter?.[BATCH_REPORT_FRONTMATTER_KEY] !== undefined) return false;
+        if (!settings.includeAttachmentNotes && cache?.frontmatter?.[ATTACHMENT_FRONTMATTER_KEY] !== undefined) return false;
+
+        if (settings.includeTags.length > 0 || settings.excludeTags.length > 0) {
+            const tags = (cache ? getAllTags(cache) ?? [] : []).map(normalizeTag);
+            const hasTag = (filters: string[]) => filters.map(normalizeTag)
+                .some(filter => tags.some(tag => tag === filter || tag.startsWith(`${filter}/`)));
+            if (settings.includeTags.length > 0 && !hasTag(settings.includeTags)) return false;
+            if (hasTag(settings.excludeTags)) return false;
+        }
+        return true;
+    }
+
+    // 내용 길이 조건까지 확인
+    includesContent(file: TFile, content: string): boolean {
+        return this.includes(file) && this.isLongEnough(content);
+    }
+
+    // 범위에 포함되는 노트 목록 (folder를 지정하면 그 폴더 안의 노트만)
+    async files(folder?: TFolder): Promise<TFile[]> {
+        const prefix = folder && !folder.isRoot() ? `${folder.path}/` : '';
+        const files: TFile[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (prefix && !file.path.startsWith(prefix)) continue;
+            if (!this.includes(file)) continue;
+            if (this.isLongEnough(await this.app.vault.cachedRead(file))) files.push(file);
+        }
+        return files;
+    }
+
+    // 빈 노트는 항상 제외
+    private isLongEnough(content: string): boolean {
+        return content.trim().length >= Math.max(1, this.getSettings().minNoteLength);
+    }
+}
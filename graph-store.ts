@@ -0,0 +1,150 @@
+import { App, TAbstractFile, TFile, debounce } from 'obsidian';
+import { hashContent } from './concept-cache';
+import type { DocumentRelation } from './main';
+
+// 한 노트에서 다른 노트로 향하는 관계
+export interface GraphEdge {
+    target: string;
+    score: number;
+    context: string;
+}
+
+// 노트별 분석 결과 (hash는 분석 당시 노트 내용)
+export interface GraphNodeEntry {
+    hash: string;
+    analyzedAt: string;
+    edges: GraphEdge[];
+}
+
+interface GraphStoreData {
+    version: number;
+    nodes: Record<string, GraphNodeEntry>;
+}
+
+const GRAPH_STORE_VERSION = 1;
+
+// 지식 그래프 관계를 노트 단위로 저장하는 영구 저장소
+export class GraphStore {
+    private app: App;
+    private filePath: string;
+    private nodes: Record<string, GraphNodeEntry> = {};
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as GraphStoreData;
+            if (data.version === GRAPH_STORE_VERSION && data.nodes) {
+                this.nodes = data.nodes;
+            }
+        } catch (error) {
+            console.error('그래프 저장소 로드 오류:', error);
+            this.nodes = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: GraphStoreData = { version: GRAPH_STORE_VERSION, nodes: this.nodes };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('그래프 저장소 저장 오류:', error);
+        }
+    }
+
+    // 노트 내용이 분석 이후 바뀌지 않았는지 확인
+    isFresh(path: string, content: string): boolean {
+        const node = this.nodes[path];
+        return !!node && node.hash === hashContent(content);
+    }
+
+    set(path: string, content: string, edges: GraphEdge[]): void {
+        this.nodes[path] = {
+            hash: hashContent(content),
+            analyzedAt: new Date().toISOString(),
+            edges
+        };
+        this.requestSave();
+    }
+
+    // 플러그인이 직접 수정한 노트는 다시 분석하지 않도록 관계는 두고 해시만 갱신
+    refreshHash(path: string, content: string): void {
+        const node = this.nodes[path];
+        if (!node) return;
+        node.hash = hashContent(content);
+        this.requestSave();
+    }
+
+    // 저장된 관계를 현재 볼트의 파일로 변환 (없어진 파일은 제외)
+    relationsFor(file: TFile): DocumentRelation[] {
+        const node = this.nodes[file.path];
+        if (!node) return [];
+        return node.edges
+            .map(edge => {
+                const targetFile = this.app.vault.getAbstractFileByPath(edge.target);
+                if (!(targetFile instanceof TFile)) return null;
+                return { sourceFile: file, targetFile, similarityScore: edge.score, extractedContext: edge.context };
+            })
+            .filter((relation): relation is DocumentRelation => relation !== null);
+    }
+
+    allRelations(): DocumentRelation[] {
+        return Object.keys(this.nodes).flatMap(path => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? this.relationsFor(file) : [];
+        });
+    }
+
+    // 노트 이름이 바뀌면 노드 키와 다른 노트의 관계 대상을 함께 변경
+    handleRename(file: TAbstractFile, oldPath: string): void {
+        let changed = false;
+        const node = this.nodes[oldPath];
+        if (node) {
+            delete this.nodes[oldPath];
+            this.nodes[file.path] = node;
+            changed = true;
+        }
+        for (const entry of Object.values(this.nodes)) {
+            for (const edge of entry.edges) {
+                if (edge.target === oldPath) {
+                    edge.target = file.path;
+                    changed = true;
+                }
+            }
+        }
+        if (changed) this.requestSave();
+    }
+
+    // 삭제된 노트와 그 노트로 향하는 관계 제거
+    handleDelete(file: TAbstractFile): void {
+        let changed = false;
+        if (file.path in this.nodes) {
+            delete this.nodes[file.path];
+            changed = true;
+        }
+        for (const entry of Object.values(this.nodes)) {
+            const before = entry.edges.length;
+            entry.edges = entry.edges.filter(edge => edge.target !== file.path);
+            if (entry.edges.length !== before) changed = true;
+        }
+        if (changed) this.requestSave();
+    }
+
+    get size(): number {
+        return Object.keys(this.nodes).length;
+    }
+
+    get edgeCount(): number {
+        return Object.values(this.nodes).reduce((sum, node) => sum + node.edges.length, 0);
+    }
+
+    async clear(): Promise<void> {
+        this.nodes = {};
+        await this.save();
+    }
+}
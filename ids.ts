@@ -0,0 +1,4 @@
+// 설정과 저장소 항목에 쓰는 짧은 고유 ID (시간 순서 + 임의 문자)
+export function createId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
+}
@@ -0,0 +1,44 @@
+import { App } from 'obsidian';
+
+// 이름 붙인 API 키 프로필 (키는 SecretStore에 따로 저장)
+export interface KeyProfile {
+    id: string;
+    name: string;
+    // 이 프로필에서 사용할 기본 Gemini 모델
+    geminiModel: string;
+}
+
+// 프로필의 Gemini API 키 이름
+export function geminiKeyName(profile: KeyProfile): string {
+    return `gemini:${profile.id}`;
+}
+
+export const OPENAI_KEY_NAME = 'openai';
+
+// Obsidian의 볼트별 로컬 저장소 (공개 타입 정의에 없어 내부 API 사용)
+interface LocalStorageApp {
+    loadLocalStorage(key: string): unknown;
+    saveLocalStorage(key: string, data: unknown | null): void;
+}
+
+// API 키처럼 동기화하거나 커밋하면 안 되는 값을 이 기기에만 저장
+// data.json이 아니라 볼트별 로컬 저장소에 기록하므로 기기마다 한 번씩 입력해야 합니다.
+export class SecretStore {
+    private app: LocalStorageApp;
+    private prefix: string;
+
+    constructor(app: App, prefix: string) {
+        this.app = app as unknown as LocalStorageApp;
+        this.prefix = prefix;
+    }
+
+    get(name: string): string {
+        const value = this.app.loadLocalStorage(`${this.prefix}:${name}`);
+        return typeof value === 'string' ? value : '';
+    }
+
+    // 빈 값이면 삭제
+    set(name: string, value: string): void {
+        this.app.saveLocalStorage(`${this.prefix}:${name}`, value || null);
+    }
+}
@@ -0,0 +1,95 @@
+import { App } from 'obsidian';
+import { hashContent } from './concept-cache';
+import { createId } from './ids';
+import type { RelatedLinkChange } from './related-section';
+
+// 변경된 노트 하나 (afterHash로 이후 수정 여부를 판단)
+export interface LinkChangesetFile {
+    path: string;
+    before: string;
+    afterHash: string;
+}
+
+// 한 번에 적용한 관련 링크 일괄 변경
+export interface LinkChangeset {
+    id: string;
+    createdAt: string;
+    files: LinkChangesetFile[];
+}
+
+interface LinkChangesetData {
+    version: number;
+    changesets: LinkChangeset[];
+}
+
+const LINK_CHANGESET_VERSION = 1;
+// 되돌릴 수 있도록 보관하는 최근 일괄 변경 수
+const MAX_CHANGESETS = 10;
+
+// 자동 링크 추가 기록 (마지막 일괄 변경부터 되돌리기)
+export class LinkChangesetStore {
+    private app: App;
+    private filePath: string;
+    private changesets: LinkChangeset[] = [];
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as LinkChangesetData;
+            if (data.version === LINK_CHANGESET_VERSION && Array.isArray(data.changesets)) {
+                this.changesets = data.changesets;
+            }
+        } catch (error) {
+            console.error('링크 변경 기록 로드 오류:', error);
+            this.changesets = [];
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: LinkChangesetData = { version: LINK_CHANGESET_VERSION, changesets: this.changesets };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('링크 변경 기록 저장 오류:', error);
+        }
+    }
+
+    async record(changes: RelatedLinkChange[]): Promise<LinkChangeset> {
+        const changeset: LinkChangeset = {
+            id: createId(),
+            createdAt: new Date().toISOString(),
+            files: changes.map(change => ({ path: change.path, before: change.before, afterHash: hashContent(change.after) }))
+        };
+        this.changesets = [...this.changesets, changeset].slice(-MAX_CHANGESETS);
+        await this.save();
+        return changeset;
+    }
+
+    latest(): LinkChangeset | null {
+        return this.changesets[this.changesets.length - 1] ?? null;
+    }
+
+    async remove(id: string): Promise<void> {
+        this.changesets = this.changesets.filter(changeset => changeset.id !== id);
+        await this.save();
+    }
+
+    // 노트 이름이 바뀌어도 되돌릴 수 있도록 경로 갱신
+    handleRename(path: string, oldPath: string): void {
+        let changed = false;
+        for (const changeset of this.changesets) {
+            for (const file of changeset.files) {
+                if (file.path === oldPath) {
+                    file.path = path;
+                    changed = true;
+                }
+            }
+        }
+        if (changed) this.save();
+    }
+}
@@ -0,0 +1,374 @@
+import { requestUrl } from 'obsidian';
+import { GenerateContentStreamResult, GoogleGenerativeAI, Part, UsageMetadata } from '@google/generative-ai';
+import { estimateTokens } from './usage';
+import { JsonSchema, toGeminiSchema } from './structured-output';
+
+export type LLMProviderType = 'gemini' | 'openai';
+
+// 제공자를 따로 지정할 수 있는 기능 목록
+export type LLMFeature =
+    | 'generateTitle'
+    | 'summarizeText'
+    | 'expandText'
+    | 'generateHashtags'
+    | 'generateMetadata'
+    | 'extractCoreConcepts'
+    | 'analyzeDocumentRelation'
+    | 'describeTopicCluster'
+    | 'customPrompt'
+    | 'chat'
+    | 'inlineCompletion'
+    | 'describeAttachment';
+
+export const LLM_FEATURE_LABELS: Record<LLMFeature, string> = {
+    generateTitle: '노트 제목 생성',
+    summarizeText: '텍스트 요약',
+    expandText: '텍스트 확장',
+    generateHashtags: '해시태그 생성',
+    generateMetadata: '메타데이터 생성',
+    extractCoreConcepts: '핵심 개념 추출',
+    analyzeDocumentRelation: '문서 관계 분석',
+    describeTopicCluster: '주제 군집 이름 생성',
+    customPrompt: '커스텀 프롬프트',
+    chat: '채팅',
+    inlineCompletion: '인라인 자동 완성',
+    describeAttachment: '첨부 파일 설명',
+};
+
+// 사용량과 로그에서 구분하는 기능 (임베딩은 제공자를 고르는 기능 목록에 넣지 않음)
+export type UsageFeature = LLMFeature | 'embedding';
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+    ...LLM_FEATURE_LABELS,
+    embedding: '임베딩',
+};
+
+// HTTP 상태 코드를 포함하는 제공자 오류 (재시도 판단에 사용)
+export class LLMRequestError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'LLMRequestError';
+        this.status = status;
+    }
+}
+
+// 요청별로 기본값을 덮어쓰는 생성 옵션 (지정하지 않은 항목은 제공자 기본값 사용)
+export interface LLMGenerationOptions {
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    systemInstruction?: string;
+    // 지정하면 이 스키마에 맞는 JSON으로 응답하도록 요청
+    responseSchema?: JsonSchema;
+}
+
+// 프롬프트와 함께 보내는 파일 (이미지, PDF)
+export interface LLMInlineData {
+    // 로그에 표시할 파일 이름
+    name: string;
+    mimeType: string;
+    // base64로 인코딩한 파일 내용
+    data: string;
+}
+
+export interface LLMRequest {
+    prompt: string;
+    signal?: AbortSignal;
+    options?: LLMGenerationOptions;
+    attachments?: LLMInlineData[];
+}
+
+// 대화 기록의 한 턴
+export interface LLMChatMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+// prompt는 이번 사용자 메시지, history는 그 이전 대화
+export interface LLMChatRequest extends LLMRequest {
+    history: LLMChatMessage[];
+}
+
+export interface LLMResponse {
+    text: string;
+    // 응답에 사용량 정보가 있을 때만 채워짐
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+export interface LLMStreamOptions {
+    // 새 토큰 조각이 도착할 때마다 호출
+    onToken: (token: string) => void;
+    signal?: AbortSignal;
+}
+
+// 텍스트 생성 모델 공통 인터페이스
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    readonly model: string;
+    generate(request: LLMRequest): Promise<LLMResponse>;
+    generateStream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse>;
+    chat(request: LLMChatRequest, options: LLMStreamOptions): Promise<LLMResponse>;
+    countTokens(text: string, signal?: AbortSignal): Promise<number>;
+    // 이 키로 사용할 수 있는 텍스트 생성 모델 목록 (연결 테스트용)
+    listModels(): Promise<string[]>;
+    // 기본 모델의 입력 토큰 한도 (알 수 없으면 null)
+    getInputTokenLimit(): Promise<number | null>;
+}
+
+function fromUsageMetadata(text: string, usage: UsageMetadata | undefined): LLMResponse {
+    return {
+        text,
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount
+    };
+}
+
+// Google Gemini 제공자
+export class GeminiProvider implements LLMProvider {
+    readonly type = 'gemini';
+    readonly model: string;
+    private client: GoogleGenerativeAI;
+    // 한 번 조회한 입력 한도 (조회 실패도 null로 기억해 다시 요청하지 않음)
+    private inputTokenLimit: number | null | undefined;
+
+    constructor(client: GoogleGenerativeAI, model: string) {
+        this.client = client;
+        this.model = model;
+    }
+
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+        const model = this.getModel(request.options);
+        const result = await model.generateContent(this.toParts(request), { signal: request.signal });
+        return fromUsageMetadata(result.response.text(), result.response.usageMetadata);
+    }
+
+    async generateStream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+        const model = this.getModel(request.options);
+        const result = await model.generateContentStream(this.toParts(request), { signal: options.signal });
+        return this.readStream(result, options);
+    }
+
+    // 첨부 파일은 인라인 데이터 파트로 프롬프트 앞에 보냄
+    private toParts(request: LLMRequest): (string | Part)[] {
+        const attachments = (request.attachments ?? []).map(attachment => ({
+            inlineData: { mimeType: attachment.mimeType, data: attachment.data }
+        }));
+        return [...attachments, request.prompt];
+    }
+
+    async chat(request: LLMChatRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+        const session = this.getModel(request.options).startChat({
+            history: request.history.map(message => ({ role: message.role, parts: [{ text: message.text }] }))
+        });
+        const result = await session.sendMessageStream(request.prompt, { signal: options.signal });
+        return this.readStream(result, options);
+    }
+
+    private async readStream(result: GenerateContentStreamResult, options: LLMStreamOptions): Promise<LLMResponse> {
+        let text = '';
+        let chunk = await result.stream.next();
+        while (!chunk.done) {
+            const token = chunk.value.text();
+            text += token;
+            options.onToken(token);
+            chunk = await result.stream.next();
+        }
+
+        // 스트림이 끝나면 집계된 응답에서 사용량을 가져옴
+        const aggregated = await result.response;
+        return fromUsageMetadata(text, aggregated.usageMetadata);
+    }
+
+    async countTokens(text: string, signal?: AbortSignal): Promise<number> {
+        const model = this.client.getGenerativeModel({ model: this.model });
+        const result = await model.countTokens(text, { signal });
+        return result.totalTokens;
+    }
+
+    async listModels(): Promise<string[]> {
+        const response = await requestUrl({
+            url: 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000',
+            headers: { 'x-goog-api-key': this.client.apiKey },
+            throw: false
+        });
+        if (response.status >= 400) {
+            const message = response.json?.error?.message ?? response.text;
+            throw new LLMRequestError(`Gemini API returned ${response.status}: ${message}`, response.status);
+        }
+
+        const models: { name?: string; supportedGenerationMethods?: string[] }[] = response.json?.models ?? [];
+        return models
+            .filter(model => model.name && (model.supportedGenerationMethods ?? []).includes('generateContent'))
+            .map(model => (model.name as string).replace(/^models\//, ''))
+            .sort();
+    }
+
+    async getInputTokenLimit(): Promise<number | null> {
+        if (this.inputTokenLimit !== undefined) return this.inputTokenLimit;
+        const response = await requestUrl({
+            url: `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(this.model)}`,
+            headers: { 'x-goog-api-key': this.client.apiKey },
+            throw: false
+        });
+        const limit = response.status < 400 ? response.json?.inputTokenLimit : undefined;
+        this.inputTokenLimit = typeof limit === 'number' ? limit : null;
+        return this.inputTokenLimit;
+    }
+
+    private getModel(options: LLMGenerationOptions = {}) {
+        return this.client.getGenerativeModel({
+            model: options.model || this.model,
+            systemInstruction: options.systemInstruction || undefined,
+            generationConfig: {
+                temperature: options.temperature,
+                maxOutputTokens: options.maxOutputTokens,
+                responseMimeType: options.responseSchema ? 'application/json' : undefined,
+                responseSchema: options.responseSchema ? toGeminiSchema(options.responseSchema) : undefined
+            }
+        });
+    }
+}
+
+// 텍스트 또는 텍스트와 이미지 파트 목록
+type OpenAIMessageContent = string | (
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+)[];
+
+// OpenAI 호환 Chat Completions 엔드포인트 제공자 (llama.cpp, Ollama, vLLM 등)
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly type = 'openai';
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey: string;
+
+    constructor(baseUrl: string, apiKey: string, model: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.model = model;
+    }
+
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+        return this.complete([{ role: 'user', content: this.toContent(request) }], request.options);
+    }
+
+    // 이미지는 data URL 이미지 파트로 보냄 (Chat Completions 형식에는 PDF 파트가 없음)
+    private toContent(request: LLMRequest): OpenAIMessageContent {
+        const attachments = request.attachments ?? [];
+        if (attachments.length === 0) return request.prompt;
+        const unsupported = attachments.find(attachment => !attachment.mimeType.startsWith('image/'));
+        if (unsupported) {
+            throw new Error(`OpenAI 호환 제공자는 ${unsupported.mimeType} 첨부를 지원하지 않습니다. 기능별 제공자에서 첨부 파일 설명을 Gemini로 지정하세요.`);
+        }
+        return [
+            { type: 'text', text: request.prompt },
+            ...attachments.map(attachment => ({
+                type: 'image_url' as const,
+                image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
+            }))
+        ];
+    }
+
+    async chat(request: LLMChatRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+        const messages = request.history.map(message => ({
+            role: message.role === 'model' ? 'assistant' : 'user',
+            content: message.text
+        }));
+        messages.push({ role: 'user', content: request.prompt });
+        return this.completeAsStream(messages, request.options, options);
+    }
+
+    private async complete(messages: { role: string; content: OpenAIMessageContent }[], options: LLMGenerationOptions = {}): Promise<LLMResponse> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        if (options.systemInstruction) {
+            messages = [{ role: 'system', content: options.systemInstruction }, ...messages];
+        }
+
+        const response = await requestUrl({
+            url: `${this.baseUrl}/chat/completions`,
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: options.model || this.model,
+                messages,
+                temperature: options.temperature,
+                max_tokens: options.maxOutputTokens,
+                // 엔드포인트가 json_schema를 지원하지 않아도 응답은 호출하는 쪽에서 다시 검증함
+                response_format: options.responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } }
+                    : undefined
+            }),
+            throw: false
+        });
+
+        if (response.status >= 400) {
+            throw new LLMRequestError(`OpenAI-compatible endpoint returned ${response.status}: ${response.text}`, response.status);
+        }
+
+        const text = response.json?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+            throw new Error('OpenAI-compatible endpoint returned no message content.');
+        }
+        const usage = response.json?.usage;
+        return {
+            text,
+            inputTokens: typeof usage?.prompt_tokens === 'number' ? usage.prompt_tokens : undefined,
+            outputTokens: typeof usage?.completion_tokens === 'number' ? usage.completion_tokens : undefined
+        };
+    }
+
+    async listModels(): Promise<string[]> {
+        const response = await requestUrl({
+            url: `${this.baseUrl}/models`,
+            headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+            throw: false
+        });
+        if (response.status >= 400) {
+            throw new LLMRequestError(`OpenAI-compatible endpoint returned ${response.status}: ${response.text}`, response.status);
+        }
+
+        const models: { id?: string }[] = response.json?.data ?? [];
+        return models
+            .filter(model => typeof model.id === 'string')
+            .map(model => model.id as string)
+            .sort();
+    }
+
+    // 모델 정보 API가 표준화되어 있지 않으므로 설정의 기본 컨텍스트 크기를 사용하도록 null 반환
+    async getInputTokenLimit(): Promise<number | null> {
+        return null;
+    }
+
+    // 토큰 계산 API가 표준화되어 있지 않으므로 추정치 사용
+    async countTokens(text: string): Promise<number> {
+        return estimateTokens(text);
+    }
+
+    async generateStream(request: LLMRequest, options: LLMStreamOptions): Promise<LLMResponse> {
+        return this.completeAsStream([{ role: 'user', content: this.toContent(request) }], request.options, options);
+    }
+
+    // requestUrl은 스트리밍을 지원하지 않으므로 전체 응답을 한 번에 전달
+    private async completeAsStream(
+        messages: { role: string; content: OpenAIMessageContent }[],
+        generationOptions: LLMGenerationOptions | undefined,
+        options: LLMStreamOptions
+    ): Promise<LLMResponse> {
+        if (options.signal?.aborted) {
+            throw new DOMException('The operation was aborted.', 'AbortError');
+        }
+        const response = await this.complete(messages, generationOptions);
+        if (options.signal?.aborted) {
+            throw new DOMException('The operation was aborted.', 'AbortError');
+        }
+        options.onToken(response.text);
+        return response;
+    }
+}
@@ -0,0 +1,189 @@
+import { App, debounce } from 'obsidian';
+import type { GeminiLogEntry } from './main';
+
+export interface LogRetentionSettings {
+    maxEntries: number;
+    maxAgeDays: number;
+    maxSizeMB: number;
+}
+
+export interface LogFilter {
+    query?: string;
+    model?: string;
+    feature?: string;
+    errorsOnly?: boolean;
+    // YYYY-MM-DD (포함)
+    from?: string;
+    to?: string;
+}
+
+// 설정 파일과 분리된 상호작용 로그 저장소
+// 기록은 메모리에 모았다가 일정 시간마다 한 번에 기록합니다.
+export class LogStore {
+    private app: App;
+    private filePath: string;
+    private retention: LogRetentionSettings;
+    private entries: GeminiLogEntry[] = [];
+    private listeners = new Set<() => void>();
+    private requestFlush = debounce(() => this.flush(), 3000, false);
+    private dirty = false;
+
+    constructor(app: App, filePath: string, retention: LogRetentionSettings) {
+        this.app = app;
+        this.filePath = filePath;
+        this.retention = retention;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const raw = await this.app.vault.adapter.read(this.filePath);
+            this.entries = raw.split('\n')
+                .filter(line => line.trim())
+                .map(line => {
+                    try {
+                        return JSON.parse(line) as GeminiLogEntry;
+                    } catch {
+                        return null;
+                    }
+                })
+                .filter((entry): entry is GeminiLogEntry => entry !== null);
+            if (this.applyRetention()) this.requestFlush();
+        } catch (error) {
+            console.error('로그 로드 오류:', error);
+            this.entries = [];
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (!this.dirty) return;
+        this.dirty = false;
+        try {
+            await this.app.vault.adapter.write(this.filePath, this.entries.map(entry => JSON.stringify(entry)).join('\n'));
+        } catch (error) {
+            console.error('로그 저장 오류:', error);
+        }
+    }
+
+    setRetention(retention: LogRetentionSettings): void {
+        this.retention = retention;
+        if (this.applyRetention()) {
+            this.requestFlush();
+            this.notify();
+        }
+    }
+
+    add(entry: GeminiLogEntry): void {
+        this.entries.push(entry);
+        this.applyRetention();
+        this.dirty = true;
+        this.requestFlush();
+        this.notify();
+    }
+
+    // 최신 항목이 앞에 오도록 필터링된 목록 반환
+    query(filter: LogFilter = {}): GeminiLogEntry[] {
+        const query = filter.query?.toLowerCase().trim();
+        return this.entries.filter(entry => {
+            if (filter.model && entry.model !== filter.model) return false;
+            if (filter.feature && entry.feature !== filter.feature) return false;
+            if (filter.errorsOnly && !entry.error) return false;
+            const day = entry.timestamp.substring(0, 10);
+            if (filter.from && day < filter.from) return false;
+            if (filter.to && day > filter.to) return false;
+            if (query) {
+                const haystack = `${entry.inputPrompt}\n${entry.outputResponse ?? ''}\n${entry.error ?? ''}`.toLowerCase();
+                if (!haystack.includes(query)) return false;
+            }
+            return true;
+        }).reverse();
+    }
+
+    get all(): GeminiLogEntry[] {
+        return this.entries.slice();
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    get models(): string[] {
+        return [...new Set(this.entries.map(entry => entry.model))].sort();
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        this.dirty = true;
+        await this.flush();
+        this.notify();
+    }
+
+    // 로그가 바뀔 때 호출될 콜백 등록 (해제 함수 반환)
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+
+    // 개수, 기간, 크기 제한을 넘는 오래된 항목 제거
+    private applyRetention(): boolean {
+        const before = this.entries.length;
+        const { maxEntries, maxAgeDays, maxSizeMB } = this.retention;
+
+        if (maxAgeDays > 0) {
+            const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+            this.entries = this.entries.filter(entry => entry.timestamp >= cutoff);
+        }
+        if (maxEntries > 0 && this.entries.length > maxEntries) {
+            this.entries = this.entries.slice(this.entries.length - maxEntries);
+        }
+        if (maxSizeMB > 0) {
+            const maxBytes = maxSizeMB * 1024 * 1024;
+            let total = 0;
+            let keepFrom = this.entries.length;
+            // 최신 항목부터 크기를 더해 한도 안에 드는 항목만 유지
+            while (keepFrom > 0) {
+                const size = JSON.stringify(this.entries[keepFrom - 1]).length + 1;
+                if (total + size > maxBytes) break;
+                total += size;
+                keepFrom--;
+            }
+            this.entries = this.entries.slice(keepFrom);
+        }
+
+        const trimmed = this.entries.length !== before;
+        if (trimmed) this.dirty = true;
+        return trimmed;
+    }
+}
+
+// CSV 필드 이스케이프
+function csvField(value: string | number | undefined | null): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function logEntriesToJsonl(entries: GeminiLogEntry[]): string {
+    return entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+export function logEntriesToCsv(entries: GeminiLogEntry[]): string {
+    const header = ['timestamp', 'provider', 'model', 'feature', 'inputTokens', 'outputTokens', 'error', 'redactions', 'inputPrompt', 'outputResponse'];
+    const rows = entries.map(entry => [
+        entry.timestamp,
+        entry.provider,
+        entry.model,
+        entry.feature,
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.error,
+        entry.redactions ? JSON.stringify(entry.redactions) : undefined,
+        entry.inputPrompt,
+        entry.outputResponse
+    ].map(csvField).join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,195 @@
+import { ItemView, Notice, WorkspaceLeaf, debounce } from 'obsidian';
+import type GeminiCopilotPlugin from './main';
+import type { GeminiLogEntry } from './main';
+import { USAGE_FEATURE_LABELS, UsageFeature } from './llm-provider';
+import { LogFilter, logEntriesToCsv, logEntriesToJsonl } from './log-store';
+
+export const VIEW_TYPE_GEMINI_LOG = 'gemini-copilot-log';
+
+// 한 번에 표시할 최대 로그 수
+const MAX_VISIBLE_ENTRIES = 200;
+
+// 상호작용 로그 검색/필터/내보내기 뷰
+export class GeminiLogView extends ItemView {
+    plugin: GeminiCopilotPlugin;
+    private filter: LogFilter = {};
+    private listEl: HTMLElement;
+    private summaryEl: HTMLElement;
+    private modelSelect: HTMLSelectElement;
+    private unsubscribe: (() => void) | null = null;
+    private requestRender = debounce(() => this.renderEntries(), 300, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiCopilotPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_GEMINI_LOG;
+    }
+
+    getDisplayText(): string {
+        return 'Gemini Interaction Log';
+    }
+
+    getIcon(): string {
+        return 'scroll-text';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('gemini-log-view');
+
+        // 검색 및 필터
+        const toolbar = container.createEl('div', { cls: 'gemini-log-toolbar' });
+        const searchInput = toolbar.createEl('input', { type: 'search', placeholder: '프롬프트/응답 검색...' });
+        searchInput.addEventListener('input', () => {
+            this.filter.query = searchInput.value;
+            this.requestRender();
+        });
+
+        this.modelSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        this.modelSelect.addEventListener('change', () => {
+            this.filter.model = this.modelSelect.value || undefined;
+            this.renderEntries();
+        });
+
+        const featureSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        featureSelect.createEl('option', { text: '모든 기능', value: '' });
+        (Object.keys(USAGE_FEATURE_LABELS) as UsageFeature[]).forEach(feature => {
+            featureSelect.createEl('option', { text: USAGE_FEATURE_LABELS[feature], value: feature });
+        });
+        featureSelect.addEventListener('change', () => {
+            this.filter.feature = featureSelect.value || undefined;
+            this.renderEntries();
+        });
+
+        const dateRow = container.createEl('div', { cls: 'gemini-log-toolbar' });
+        dateRow.createEl('span', { text: '기간' });
+        const fromInput = dateRow.createEl('input', { type: 'date' });
+        fromInput.addEventListener('change', () => {
+            this.filter.from = fromInput.value || undefined;
+            this.renderEntries();
+        });
+        dateRow.createEl('span', { text: '~' });
+        const toInput = dateRow.createEl('input', { type: 'date' });
+        toInput.addEventListener('change', () => {
+            this.filter.to = toInput.value || undefined;
+            this.renderEntries();
+        });
+
+        const errorsLabel = dateRow.createEl('label', { cls: 'gemini-log-errors-only' });
+        const errorsCheckbox = errorsLabel.createEl('input', { type: 'checkbox' });
+        errorsLabel.appendText(' 오류만');
+        errorsCheckbox.addEventListener('change', () => {
+            this.filter.errorsOnly = errorsCheckbox.checked;
+            this.renderEntries();
+        });
+
+        // 내보내기 및 지우기
+        const actions = container.createEl('div', { cls: 'gemini-log-toolbar' });
+        this.summaryEl = actions.createEl('span', { cls: 'gemini-log-timestamp' });
+        const exportJsonlButton = actions.createEl('button', { text: 'JSONL 내보내기' });
+        exportJsonlButton.addEventListener('click', () => this.exportEntries('jsonl'));
+        const exportCsvButton = actions.createEl('button', { text: 'CSV 내보내기' });
+        exportCsvButton.addEventListener('click', () => this.exportEntries('csv'));
+        const clearButton = actions.createEl('button', { text: '로그 지우기', cls: 'mod-warning' });
+        clearButton.addEventListener('click', async () => {
+            if (!window.confirm('모든 상호작용 로그를 삭제할까요?')) return;
+            await this.plugin.logStore.clear();
+            new Notice('상호작용 로그를 지웠습니다.');
+        });
+
+        this.listEl = container.createEl('div', { cls: 'gemini-log-container' });
+
+        this.unsubscribe = this.plugin.logStore.onChange(() => this.requestRender());
+        this.renderEntries();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private renderModelOptions() {
+        const current = this.filter.model ?? '';
+        this.modelSelect.empty();
+        this.modelSelect.createEl('option', { text: '모든 모델', value: '' });
+        this.plugin.logStore.models.forEach(model => {
+            this.modelSelect.createEl('option', { text: model, value: model });
+        });
+        this.modelSelect.value = current;
+    }
+
+    private renderEntries() {
+        this.renderModelOptions();
+        this.listEl.empty();
+
+        const entries = this.plugin.logStore.query(this.filter);
+        this.summaryEl.setText(`${entries.length} / ${this.plugin.logStore.size}개 항목`);
+
+        if (entries.length === 0) {
+            this.listEl.createEl('p', { text: '조건에 맞는 로그가 없습니다.', cls: 'gemini-log-timestamp' });
+            return;
+        }
+
+        entries.slice(0, MAX_VISIBLE_ENTRIES).forEach(entry => this.renderEntry(entry));
+        if (entries.length > MAX_VISIBLE_ENTRIES) {
+            this.listEl.createEl('p', {
+                text: `외 ${entries.length - MAX_VISIBLE_ENTRIES}개 더... 검색이나 필터로 범위를 좁혀 보세요.`,
+                cls: 'gemini-log-timestamp'
+            });
+        }
+    }
+
+    private renderEntry(entry: GeminiLogEntry) {
+        const entryEl = this.listEl.createEl('details', { cls: 'gemini-log-entry' });
+        const summary = entryEl.createEl('summary');
+        summary.createEl('span', { text: new Date(entry.timestamp).toLocaleString(), cls: 'gemini-log-timestamp' });
+        summary.createEl('span', { text: ` · ${entry.model}` });
+        if (entry.feature) {
+            summary.createEl('span', { text: ` · ${USAGE_FEATURE_LABELS[entry.feature] ?? entry.feature}` });
+        }
+        if (entry.inputTokens !== undefined) {
+            summary.createEl('span', { text: ` · ${entry.inputTokens}/${entry.outputTokens ?? 0} tokens` });
+        }
+        if (entry.redactions) {
+            const total = Object.values(entry.redactions).reduce((sum, count) => sum + count, 0);
+            summary.createEl('span', {
+                text: ` · 민감 정보 ${total}개 가림`,
+                attr: { title: Object.keys(entry.redactions).map(label => `${label} ${entry.redactions?.[label]}`).join(', ') }
+            });
+        }
+        if (entry.error) {
+            summary.createEl('span', { text: ` · ${entry.error}`, cls: 'gemini-log-error' });
+        }
+
+        // 펼쳤을 때 전체 프롬프트/응답 표시
+        entryEl.createEl('h5', { text: 'Prompt' });
+        entryEl.createEl('pre', { text: entry.inputPrompt, cls: 'gemini-log-full-text' });
+        entryEl.createEl('h5', { text: 'Response' });
+        entryEl.createEl('pre', { text: entry.outputResponse ?? '(없음)', cls: 'gemini-log-full-text' });
+    }
+
+    // 현재 필터에 맞는 로그를 볼트 루트에 파일로 내보내기
+    private async exportEntries(format: 'jsonl' | 'csv') {
+        const entries = this.plugin.logStore.query(this.filter).reverse();
+        if (entries.length === 0) {
+            new Notice('내보낼 로그가 없습니다.');
+            return;
+        }
+
+        const content = format === 'jsonl' ? logEntriesToJsonl(entries) : logEntriesToCsv(entries);
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+        const path = `gemini-log-${stamp}.${format}`;
+
+        try {
+            await this.app.vault.create(path, content);
+            new Notice(`${entries.length}개 로그를 ${path}로 내보냈습니다.`);
+        } catch (error) {
+            console.error('로그 내보내기 오류:', error);
+            new Notice(`로그 내보내기 오류: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
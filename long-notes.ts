@@ -0,0 +1,136 @@
+export interface LongNoteSettings {
+    // 조각 하나에 넣을 최대 토큰 수 (모델 입력 한도가 더 작으면 그 한도를 따름)
+    maxChunkTokens: number;
+    // 입력 한도를 알 수 없는 모델(OpenAI 호환 서버 등)에 사용할 컨텍스트 크기
+    defaultContextTokens: number;
+}
+
+// 제목 구조를 유지한 노트 조각
+export interface NoteChunk {
+    // 조각이 시작되는 위치의 제목 경로 (예: 회의록 > 결정 사항)
+    heading: string;
+    text: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+interface NotePiece {
+    trail: string[];
+    text: string;
+    // 제목 줄로 시작하지 않는 조각 (앞 조각에서 이어짐)
+    continued: boolean;
+}
+
+// 제목 단위로 구역을 나눔 (코드 블록 안의 # 줄은 제목으로 보지 않음)
+function splitSections(content: string): NotePiece[] {
+    const sections: NotePiece[] = [];
+    const levels: string[] = [];
+    let current: { trail: string[]; lines: string[] } = { trail: [], lines: [] };
+    let inFence = false;
+
+    const flush = () => {
+        const text = current.lines.join('\n').trim();
+        if (text) sections.push({ trail: current.trail, text, continued: false });
+    };
+
+    for (const line of content.split('\n')) {
+        if (FENCE_PATTERN.test(line)) inFence = !inFence;
+        const match = inFence ? null : line.match(HEADING_PATTERN);
+        if (match) {
+            flush();
+            const level = match[1].length;
+            levels[level - 1] = match[2];
+            levels.length = level;
+            current = { trail: levels.filter(title => title), lines: [line] };
+        } else {
+            current.lines.push(line);
+        }
+    }
+    flush();
+    return sections;
+}
+
+// 텍스트 끝 위치의 제목 경로 (예: 회의록 > 결정 사항)
+export function headingPathAt(content: string): string {
+    const sections = splitSections(content);
+    return sections.length > 0 ? sections[sections.length - 1].trail.join(' > ') : '';
+}
+
+// 조각들을 한도 안에서 최대한 합침
+function pack(parts: string[], separator: string, maxTokens: number, countTokens: (text: string) => number): string[] {
+    const packed: string[] = [];
+    let current = '';
+    for (const part of parts) {
+        const joined = current ? current + separator + part : part;
+        if (current && countTokens(joined) > maxTokens) {
+            packed.push(current);
+            current = part;
+        } else {
+            current = joined;
+        }
+    }
+    if (current) packed.push(current);
+    return packed;
+}
+
+// 한도를 넘는 텍스트를 문단, 줄, 글자 순으로 나눔
+function splitText(text: string, maxTokens: number, countTokens: (text: string) => number): string[] {
+    if (countTokens(text) <= maxTokens) return [text];
+    for (const separator of ['\n\n', '\n']) {
+        const parts = text.split(separator).filter(part => part.trim());
+        if (parts.length > 1) {
+            const pieces = parts.reduce<string[]>((all, part) => all.concat(splitText(part, maxTokens, countTokens)), []);
+            return pack(pieces, separator, maxTokens, countTokens);
+        }
+    }
+
+    // 나눌 줄이 없으면 글자 수로 자름
+    const size = Math.max(1, Math.floor(text.length * maxTokens / countTokens(text)));
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        pieces.push(text.substring(i, i + size));
+    }
+    return pieces;
+}
+
+function continuationPrefix(heading: string): string {
+    return heading ? `(${heading} 이어서)\n` : '';
+}
+
+// 제목 경계를 우선해 노트를 조각으로 나눔
+// 구역 하나가 한도를 넘으면 문단 단위로 나누고, 이어지는 조각 앞에는 제목 경로를 붙입니다.
+export function chunkNote(content: string, maxTokens: number, countTokens: (text: string) => number): NoteChunk[] {
+    const pieces: NotePiece[] = [];
+    for (const section of splitSections(content)) {
+        // 이어지는 조각에 붙일 제목 경로만큼 한도를 남겨 둠
+        const reserve = countTokens(continuationPrefix(section.trail.join(' > ')));
+        splitText(section.text, Math.max(1, maxTokens - reserve), countTokens).forEach((text, index) => {
+            pieces.push({ trail: section.trail, text, continued: index > 0 });
+        });
+    }
+
+    const chunks: NoteChunk[] = [];
+    let current: NoteChunk | null = null;
+    for (const piece of pieces) {
+        if (current && countTokens(current.text + '\n\n' + piece.text) <= maxTokens) {
+            current.text += '\n\n' + piece.text;
+            continue;
+        }
+        if (current) chunks.push(current);
+        const heading = piece.trail.join(' > ');
+        current = {
+            heading,
+            text: piece.continued ? continuationPrefix(heading) + piece.text : piece.text
+        };
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// 조각별 결과를 마지막 단계에 넘길 하나의 텍스트로 합침
+export function joinChunkResults(chunks: NoteChunk[], results: string[]): string {
+    return chunks
+        .map((chunk, index) => `### 부분 ${index + 1}/${chunks.length}${chunk.heading ? ` (${chunk.heading})` : ''}\n${results[index].trim()}`)
+        .join('\n\n');
+}
@@ -1 +1,2996 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, Setting, TFile, Menu } from 'obsidian';\nimport { GoogleGenerativeAI } from \"@google/generative-ai\";\nimport { RelatedDocumentsModal, KnowledgeGraphSummaryModal, GeminiConfirmationModal, CustomPromptSelectorModal } from './modals';\nimport { GeminiCopilotSettingTab } from './settings-tab';\n\nexport interface GeminiCopilotSettings {\n    geminiApiKey: string;\n    geminiModel: string;\n    logHistory: GeminiLogEntry[];\n    defaultNewFileLocation: string;\n    customPrompts: CustomPrompt[];\n    knowledgeGraphSettings: {\n        enabled: boolean;\n        minSimilarityScore: number;\n        maxLinksPerDocument: number;\n        autoAddLinks: boolean;\n    };\n    promptTemplates: {\n        generateTitle: string;\n        summarizeText: string;\n        expandText: string;\n        generateHashtags: string;\n        extractCoreConcepts: string;\n        analyzeDocumentRelation: string;\n    };\n}\n\nexport interface GeminiLogEntry {\n    timestamp: string;\n    model: string;\n    inputPrompt: string;\n    outputResponse: string | null;\n    inputTokens?: number;\n    outputTokens?: number;\n    error?: string;\n}\n\nexport interface CustomPrompt {\n    name: string;\n    prompt: string;\n    description: string;\n}\n\n// 문서 관계 인터페이스 정의\nexport interface DocumentRelation {\n    sourceFile: TFile;\n    targetFile: TFile;\n    similarityScore: number;\n    extractedContext: string;\n}\n\n// Obsidian의 App 인터페이스 확장\ndeclare module 'obsidian' {\n    interface App {\n        plugins: {\n            plugins: {\n                [id: string]: unknown;\n            };\n        };\n        commands: {\n            executeCommandById(id: string): boolean;\n        };\n        setting: {\n            open(): void;\n            openTabById(id: string): void;\n        };\n    }\n}\n\nexport const DEFAULT_SETTINGS: GeminiCopilotSettings = {\n    geminiApiKey: '',\n    geminiModel: 'gemini-pro',\n    logHistory: [],\n    defaultNewFileLocation: 'root',\n    customPrompts: [],\n    knowledgeGraphSettings: {\n        enabled: false,\n        minSimilarityScore: 0.5,\n        maxLinksPerDocument: 5,\n        autoAddLinks: false,\n    },\n    promptTemplates: {\n        generateTitle: 'Generate a concise and informative title for the following note content:{{currentTitle}}\\\\n\\\\n{{content}}\\\\n\\\\nOutput format: YYYY-MM-DD: title. Ensure the title part is suitable for filename (no special chars).',\n        summarizeText: 'Please summarize the following text concisely:\\\\n\\\\n{{content}}\\\\n\\\\nSummary:',\n        expandText: 'Please expand upon the following text, adding more detail and information:\\\\n\\\\n{{content}}\\\\n\\\\nExpanded Text:',\n        generateHashtags: '한글로 다음 문서의 핵심을 나타내는 키워드를 10개 정도 추출하여 설명, 부호, 순서 없이 \\\\'#\\\\'로 시작하는 키워드로 출력하세요.\\\\n문서: \\\\n{{content}}\\\\n\\\\n해시태그: #',\n        extractCoreConcepts: '다음 문서에서 핵심 개념, 주제, 키워드를 5-10개 정도 추출해 주세요. JSON 형식으로 반환하되, 키워드는 단어나 짧은 구문으로 제한해주세요.\\\\n\\\\n문서:\\\\n{{content}}\\\\n\\\\n출력 형식:\\\\n{\\\\n    \\\"concepts\\\": [\\\"개념1\\\", \\\"개념2\\\", \\\"개념3\\\", ...]\\\\n}',\n        analyzeDocumentRelation: '두 문서 간의 관계를 분석하고 유사도 점수(0.0 ~ 1.0 사이)를 매겨주세요.\\\\n\\\\n문서 1: \\\"{{sourceTitle}}\\\"\\\\n핵심 개념: {{sourceConcepts}}\\\\n\\\\n문서 2: \\\"{{targetTitle}}\\\"\\\\n핵심 개념: {{targetConcepts}}\\\\n\\\\n다음 형식으로 JSON으로 응답해주세요:\\\\n{\\\\n    \\\"similarityScore\\\": 0.0부터 1.0 사이의 숫자,\\\\n    \\\"context\\\": \\\"두 문서가 어떻게 관련되어 있는지에 대한 간략한 설명(1-2문장)\\\"\\\\n}'\n    },\n};\n\nexport default class GeminiCopilotPlugin extends Plugin {\n    settings: GeminiCopilotSettings;\n    private genAI: GoogleGenerativeAI | null = null;\n\n    async onload() {\n        await this.loadSettings();\n        this.initializeGeminiAPI();\n\n        this.addRibbonIcon('sparkles', 'Gemini Copilot', (evt: MouseEvent) => {\n            // 메뉴 생성 및 표시\n            const menu = new Menu();\n            \n            // 노트 제목 생성 기능\n            menu.addItem((item) => {\n                item.setTitle('노트 제목 생성')\n                    .setIcon('heading')\n                    .onClick(async () => {\n                        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);\n                        if (activeView) {\n                            const content = activeView.editor.getValue();\n                            if (!content) {\n                                new Notice('노트 내용이 비어있습니다.');\n                                return;\n                            }\n\n                            try {\n                                const suggestedTitle = await this.generateNoteTitle(content, activeView.file?.basename);\n                                if (!suggestedTitle) {\n                                    new Notice('제목 생성에 실패했습니다.');\n                                    return;\n                                }\n\n                                new GeminiConfirmationModal(this.app, suggestedTitle, async (confirmedTitle) => {\n                                    if (!confirmedTitle) return; // 사용자가 취소함\n\n                                    let newFileName = this.sanitizeFilename(confirmedTitle.trim());\n                                    const creationDate = new Date().toISOString().slice(0, 10);\n                                    const finalFileName = `${creationDate} - ${newFileName}`;\n\n                                    if (activeView.file) {\n                                        // 기존 파일 이름 변경\n                                        const originalFilePath = activeView.file.path;\n                                        const dirPath = activeView.file.parent ? activeView.file.parent.path : \"\";\n                                        const newFilePath = dirPath ? `${dirPath}/${finalFileName}.${activeView.file.extension}` : `${finalFileName}.${activeView.file.extension}`;\n\n                                        try {\n                                            await this.app.fileManager.renameFile(activeView.file, newFilePath);\n                                            new Notice(`노트 제목이 다음으로 변경되었습니다: ${finalFileName}`);\n                                        } catch (error) {\n                                            console.error('파일 이름 변경 오류:', error);\n                                            new Notice(`파일 이름 변경 오류: ${error instanceof Error ? error.message : String(error)}`);\n                                        }\n                                    } else {\n                                        // 신규 파일 생성\n                                        this.createNewFileWithTitle(content, finalFileName);\n                                    }\n                                }).open();\n\n                            } catch (error) {\n                                console.error('노트 제목 생성 오류:', error);\n                                new Notice('노트 제목 생성 중 오류가 발생했습니다.');\n                            }\n                        } else {\n                            new Notice('노트가 열려있지 않습니다.');\n                        }\n                    });\n            });\n            \n            // 메뉴의 나머지 항목 추가 (생략)...\n            \n            // 메뉴 표시\n            menu.showAtMouseEvent(evt);\n        });\n\n        // 명령어 추가\n        this.addCommands();\n\n        this.addSettingTab(new GeminiCopilotSettingTab(this.app, this));\n    }\n\n    // 명령어 추가 메서드\n    private addCommands() {\n        // 제목 생성 명령어\n        this.addCommand({\n            id: 'gemini-generate-note-title',\n            name: 'Generate Note Title with Gemini',\n            editorCallback: async (editor: Editor, view: MarkdownView) => {\n                // 내용 생략..\n            }\n        });\n\n        // 텍스트 요약 명령어\n        this.addCommand({\n            id: 'gemini-summarize-text',\n            name: 'Summarize Selected Text with Gemini',\n            editorCallback: async (editor: Editor, view: MarkdownView) => {\n                // 내용 생략..\n            }\n        });\n\n        // 기타 명령어들...\n    }\n\n    onunload() {\n        this.genAI = null;\n    }\n\n    async loadSettings() {\n        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());\n    }\n\n    async saveSettings() {\n        await this.saveData(this.settings);\n        this.initializeGeminiAPI();\n    }\n\n    private initializeGeminiAPI() {\n        if (this.settings.geminiApiKey) {\n            this.genAI = new GoogleGenerativeAI(this.settings.geminiApiKey);\n        } else {\n            this.genAI = null;\n            console.warn('Gemini API Key is not set. Plugin features will be disabled.');\n        }\n    }\n\n    private async generateContent(prompt: string): Promise<{ text: string | null }> {\n        if (!this.genAI) {\n            new Notice('Gemini API Key is not configured.');\n            return { text: null };\n        }\n\n        let responseText: string | null = null;\n        let logEntry: GeminiLogEntry = {\n            timestamp: new Date().toISOString(),\n            model: this.settings.geminiModel,\n            inputPrompt: prompt,\n            outputResponse: null,\n            inputTokens: undefined,\n            outputTokens: undefined,\n            error: undefined\n        };\n\n        try {\n            const model = this.genAI.getGenerativeModel({ model: this.settings.geminiModel });\n            const result = await model.generateContent(prompt);\n            responseText = result.response.text();\n            logEntry.outputResponse = responseText;\n            this.logGeminiInteraction(logEntry);\n            return { text: responseText };\n\n        } catch (error) {\n            console.error('Gemini API Error:', error);\n            logEntry.error = error instanceof Error ? error.message : String(error);\n            this.logGeminiInteraction(logEntry);\n            new Notice('Gemini API call failed. See console for details.');\n            return { text: null };\n        }\n    }\n\n    private logGeminiInteraction(logEntry: GeminiLogEntry) {\n        this.settings.logHistory.push(logEntry);\n        this.saveSettings();\n        console.log(\"Gemini Interaction Logged:\", logEntry);\n    }\n\n    sanitizeFilename(filename: string): string {\n        const invalidCharsRegex = /[*\"\\\\\\/<>:|?]/g;\n        return filename.replace(invalidCharsRegex, '_');\n    }\n\n    async generateNoteTitle(content: string, currentTitle: string | undefined): Promise<string | null> {\n        let prompt = this.settings.promptTemplates.generateTitle;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{content}}', content);\n        prompt = prompt.replace('{{currentTitle}}', currentTitle ? ` using current title: ${currentTitle}` : '');\n        \n        const response = await this.generateContent(prompt);\n        return response.text;\n    }\n\n    async summarizeText(text: string): Promise<string | null> {\n        let prompt = this.settings.promptTemplates.summarizeText;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{content}}', text);\n        \n        const response = await this.generateContent(prompt);\n        return response.text;\n    }\n\n    async generateAdditionalText(text: string): Promise<string | null> {\n        let prompt = this.settings.promptTemplates.expandText;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{content}}', text);\n        \n        const response = await this.generateContent(prompt);\n        return response.text;\n    }\n\n    async generateHashtags(text: string): Promise<string | null> {\n        let prompt = this.settings.promptTemplates.generateHashtags;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{content}}', text);\n        \n        const response = await this.generateContent(prompt);\n        return response.text;\n    }\n\n    // 지식 그래프 생성 메서드\n    async generateKnowledgeGraph(): Promise<void> {\n        const markdownFiles = this.app.vault.getMarkdownFiles();\n        \n        if (markdownFiles.length === 0) {\n            new Notice('분석할 마크다운 파일이 없습니다.');\n            return;\n        }\n\n        const totalFiles = markdownFiles.length;\n        let processedFiles = 0;\n        const relations: DocumentRelation[] = [];\n\n        // 각 파일을 처리\n        for (const sourceFile of markdownFiles) {\n            try {\n                const sourceContent = await this.app.vault.read(sourceFile);\n                if (!sourceContent.trim()) continue; // 빈 파일 건너뛰기\n\n                // 관련 문서 찾기\n                const relatedDocs = await this.findRelatedDocuments(sourceFile, sourceContent);\n                relations.push(...relatedDocs);\n\n                // 진행 상황 업데이트\n                processedFiles++;\n                if (processedFiles % 10 === 0 || processedFiles === totalFiles) {\n                    new Notice(`지식 그래프 분석 중: ${processedFiles}/${totalFiles} 파일 처리됨`);\n                }\n            } catch (error) {\n                console.error(`파일 ${sourceFile.path} 처리 중 오류 발생:`, error);\n            }\n        }\n\n        // 자동으로 링크 추가하기 (설정에서 활성화된 경우)\n        if (this.settings.knowledgeGraphSettings.autoAddLinks) {\n            await this.addWikiLinksToDocuments(relations);\n        }\n\n        new Notice(`지식 그래프 생성 완료: 총 ${relations.length}개의 관계 발견`);\n        \n        // 분석 결과 요약 표시\n        new KnowledgeGraphSummaryModal(this.app, relations).open();\n    }\n\n    // 관련 문서 찾기\n    async findRelatedDocuments(sourceFile: TFile, sourceContent: string): Promise<DocumentRelation[]> {\n        const markdownFiles = this.app.vault.getMarkdownFiles();\n        const relations: DocumentRelation[] = [];\n        \n        // 소스 파일 자신은 제외\n        const otherFiles = markdownFiles.filter(file => file.path !== sourceFile.path);\n        \n        // 소스 문서의 핵심 개념 추출\n        const sourceConcepts = await this.extractCoreConcepts(sourceContent);\n        if (!sourceConcepts) return relations;\n\n        // 각 파일과 비교\n        for (const targetFile of otherFiles) {\n            try {\n                const targetContent = await this.app.vault.read(targetFile);\n                if (!targetContent.trim()) continue; // 빈 파일 건너뛰기\n\n                // 타겟 문서의 핵심 개념 추출\n                const targetConcepts = await this.extractCoreConcepts(targetContent);\n                if (!targetConcepts) continue;\n\n                // 두 문서 간의 관계 분석\n                const analysisResult = await this.analyzeDocumentRelation(\n                    sourceFile.basename, \n                    sourceConcepts,\n                    targetFile.basename, \n                    targetConcepts\n                );\n\n                if (analysisResult && \n                    analysisResult.similarityScore >= this.settings.knowledgeGraphSettings.minSimilarityScore) {\n                    relations.push({\n                        sourceFile: sourceFile,\n                        targetFile: targetFile,\n                        similarityScore: analysisResult.similarityScore,\n                        extractedContext: analysisResult.context\n                    });\n                }\n            } catch (error) {\n                console.error(`파일 ${targetFile.path} 비교 중 오류 발생:`, error);\n            }\n        }\n\n        // 유사도 점수에 따라 정렬\n        relations.sort((a, b) => b.similarityScore - a.similarityScore);\n        \n        // 최대 링크 수 제한\n        return relations.slice(0, this.settings.knowledgeGraphSettings.maxLinksPerDocument);\n    }\n\n    // 문서에서 핵심 개념 추출\n    async extractCoreConcepts(content: string): Promise<string | null> {\n        let prompt = this.settings.promptTemplates.extractCoreConcepts;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{content}}', content.substring(0, 2000) + (content.length > 2000 ? '...(이하 생략)' : ''));\n        \n        const response = await this.generateContent(prompt);\n        if (!response.text) return null;\n\n        try {\n            // JSON 형식 파싱\n            const jsonMatch = response.text.match(/\\{[\\s\\S]*\\}/);\n            if (jsonMatch) {\n                const conceptsData = JSON.parse(jsonMatch[0]);\n                return conceptsData.concepts.join(', ');\n            }\n            return response.text;\n        } catch (error) {\n            console.error('핵심 개념 추출 결과 파싱 오류:', error);\n            return response.text; // 파싱 실패 시 원본 텍스트 반환\n        }\n    }\n\n    // 두 문서 간의 관계 분석\n    async analyzeDocumentRelation(\n        sourceTitle: string, \n        sourceConcepts: string,\n        targetTitle: string, \n        targetConcepts: string\n    ): Promise<{ similarityScore: number, context: string } | null> {\n        let prompt = this.settings.promptTemplates.analyzeDocumentRelation;\n        \n        // 변수 교체\n        prompt = prompt.replace('{{sourceTitle}}', sourceTitle);\n        prompt = prompt.replace('{{sourceConcepts}}', sourceConcepts);\n        prompt = prompt.replace('{{targetTitle}}', targetTitle);\n        prompt = prompt.replace('{{targetConcepts}}', targetConcepts);\n\n        const response = await this.generateContent(prompt);\n        if (!response.text) return null;\n\n        try {\n            // JSON 형식 파싱\n            const jsonMatch = response.text.match(/\\{[\\s\\S]*\\}/);\n            if (jsonMatch) {\n                return JSON.parse(jsonMatch[0]);\n            }\n            return null;\n        } catch (error) {\n            console.error('문서 관계 분석 결과 파싱 오류:', error);\n            return null;\n        }\n    }\n\n    // 위키링크 추가\n    async addWikiLinksToDocuments(relations: DocumentRelation[]): Promise<void> {\n        const processedFiles = new Set<string>();\n        \n        for (const relation of relations) {\n            try {\n                // 이미 처리한 파일은 건너뛰기\n                if (processedFiles.has(relation.sourceFile.path)) continue;\n                \n                // 현재 문서 내용 읽기\n                const content = await this.app.vault.read(relation.sourceFile);\n                \n                // 관련 문서들 그룹화\n                const relatedFiles = relations\n                    .filter(r => r.sourceFile.path === relation.sourceFile.path)\n                    .sort((a, b) => b.similarityScore - a.similarityScore)\n                    .slice(0, this.settings.knowledgeGraphSettings.maxLinksPerDocument);\n                \n                if (relatedFiles.length === 0) continue;\n                \n                // 관련 문서 목록 생성\n                let relatedLinksSection = '\\n\\n## 관련 문서\\n';\n                for (const rel of relatedFiles) {\n                    const linkText = `- [[${rel.targetFile.basename}]] - ${rel.extractedContext}\\n`;\n                    relatedLinksSection += linkText;\n                }\n                \n                // 이미 '관련 문서' 섹션이 있는지 확인\n                if (content.includes('## 관련 문서')) {\n                    // 기존 관련 문서 섹션 업데이트는 복잡할 수 있으므로 건너뛰기\n                    continue;\n                }\n                \n                // 새 내용 작성\n                const newContent = content + relatedLinksSection;\n                \n                // 파일 업데이트\n                await this.app.vault.modify(relation.sourceFile, newContent);\n                processedFiles.add(relation.sourceFile.path);\n            } catch (error) {\n                console.error(`파일 ${relation.sourceFile.path}에 링크 추가 중 오류 발생:`, error);\n            }\n        }\n        \n        new Notice(`${processedFiles.size}개 문서에 관련 링크가 추가되었습니다.`);\n    }\n\n    // 새 파일 생성을 위한 헬퍼 메서드 추가\n    private async createNewFileWithTitle(content: string, finalFileName: string): Promise<void> {\n        // 기본 새 파일 위치 설정에서 가져오기\n        let newFilePath = '';\n        if(this.settings.defaultNewFileLocation === 'root') {\n            newFilePath = `${finalFileName}.md`; // 기본값: 볼트 루트, .md 확장자 추가\n        }\n        else if (this.settings.defaultNewFileLocation === 'current') {\n            // 현재 활성화된 파일의 경로 가져오기 시도\n            const activeFile = this.app.workspace.getActiveFile();\n            if (activeFile && activeFile.parent) {\n                const activeDir = activeFile.parent.path; // 활성화된 파일의 디렉토리 경로 가져오기\n                newFilePath = `${activeDir}/${finalFileName}.md`; // 활성화된 노트의 폴더 사용\n            } else {\n                // activeFile이 루트 폴더에 있거나 존재하지 않음\n                newFilePath = `${finalFileName}.md`;\n                new Notice(\"새 노트가 루트 폴더에 생성됩니다.\");\n            }\n        }\n        else if (this.settings.defaultNewFileLocation) { // 특정 폴더가 설정된 경우\n            newFilePath = `${this.settings.defaultNewFileLocation}/${finalFileName}.md`;\n        } else {\n            // 설정이 제대로 되지 않은 경우 기본값으로 루트 사용\n            newFilePath = `${finalFileName}.md`;\n            console.warn(\"잘못된 newFileLocation 설정, 루트 폴더 사용\");\n        }\n\n        console.log(\"새 파일 경로:\", newFilePath);\n\n        try {\n            // 새 파일 생성\n            const newFile = await this.app.vault.create(newFilePath, content);\n            new Notice(`새 노트 생성됨: ${finalFileName}`);\n\n            // 새 파일을 새 창에서 열기\n            await this.app.workspace.getLeaf(true).openFile(newFile);\n        } catch (error) {\n            console.error('새 파일 생성 오류:', error);\n            new Notice(`파일 생성 오류: ${error instanceof Error ? error.message : String(error)}`);\n        }\n    }\n}
\ No newline at end of file
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, Setting, TFile, TFolder, Menu, arrayBufferToBase64, debounce, moment, parseFrontMatterTags } from 'obsidian';
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { RelatedDocumentsModal, KnowledgeGraphSummaryModal, GeminiConfirmationModal, CustomPromptSelectorModal, LinkChangePlanModal, RevertLinkBatchModal, MetadataPreviewModal, BatchJobModal, RedactionPreviewModal, KeyProfileSuggestModal, PayloadPreviewSuggestModal } from './modals';
+import { GeminiCopilotSettingTab } from './settings-tab';
+import { ConceptCache, hashContent } from './concept-cache';
+import { createId } from './ids';
+import { EmbeddingProvider, EmbeddingStore, GeminiEmbeddingProvider, LocalEmbeddingProvider } from './embeddings';
+import { GeminiProvider, LLMChatMessage, LLMFeature, LLMGenerationOptions, LLMInlineData, LLMProvider, LLMProviderType, OpenAICompatibleProvider, UsageFeature } from './llm-provider';
+import { EditorStreamSession, streamingExtension } from './streaming';
+import { RequestScheduler, RequestSchedulerOptions, isAbortError, runWithConcurrency } from './request-scheduler';
+import { ProgressNotice } from './progress';
+import { ModelPrice, UsageTracker, estimateTokens } from './usage';
+import { LogRetentionSettings, LogStore } from './log-store';
+import { GeminiLogView, VIEW_TYPE_GEMINI_LOG } from './log-view';
+import { PromptTemplateEngine } from './template-engine';
+import { GeminiChatView, VIEW_TYPE_GEMINI_CHAT } from './chat-view';
+import { CHAT_FRONTMATTER_KEY } from './chat';
+import { GraphStore } from './graph-store';
+import { RelatedLinkChange, RelatedSectionSettings, RelatedSectionWriter } from './related-section';
+import { LinkChangesetStore } from './link-changesets';
+import { GraphScope, GraphScopeSettings, globToRegExp } from './graph-scope';
+import { GRAPH_EXPORT_FORMATS, GraphExportFormat, exportGraph } from './graph-export';
+import { clusterTopics } from './graph-clusters';
+import { MOC_FRONTMATTER_KEY, TopicCluster, TopicClusterStore, splitConcepts, topConcepts, updateMocContent } from './topic-clusters';
+import { GeneratedMetadata, MetadataFieldChange, MetadataSettings, TagVocabulary, buildMetadataSchema, collectVaultTags, mergeTags, planMetadataChanges, topVaultTags } from './note-metadata';
+import { BATCH_OPERATIONS, BATCH_REPORT_FRONTMATTER_KEY, BatchJob, BatchJobRequest, BatchJobStore, batchOperationKey, countBatchStatuses, filesInFolder, filesWithTag, renderBatchReport, searchResultFiles } from './batch-jobs';
+import { PrivacyGuard, PrivacySettings } from './privacy-guard';
+import { LongNoteSettings, NoteChunk, chunkNote, joinChunkResults } from './long-notes';
+import { ATTACHMENT_FRONTMATTER_KEY, ATTACHMENT_TASKS, AttachmentSettings, AttachmentTask, EmbeddedAttachment, MAX_ATTACHMENT_BYTES, applyAltText, attachmentMimeType, embeddedAttachments, insertBesideEmbed, renderCompanionNote, tasksFor, updateCompanionSection } from './attachments';
+import { AUTOCOMPLETE_FRONTMATTER_KEY, GhostTextRequest, GhostTextSettings, cleanCompletion, ghostTextExtension } from './ghost-text';
+import { KeyProfile, OPENAI_KEY_NAME, SecretStore, geminiKeyName } from './key-profiles';
+import { CORE_CONCEPTS_SCHEMA, DOCUMENT_RELATION_SCHEMA, JsonSchema, StructuredOutputError, TOPIC_CLUSTER_SCHEMA, parseSchemaDefinition, parseStructuredOutput } from './structured-output';
+
+export interface GeminiCopilotSettings {
+    // API 키는 프로필별로 SecretStore에 저장 (data.json에는 저장하지 않음)
+    keyProfiles: KeyProfile[];
+    activeKeyProfileId: string;
+    defaultProvider: LLMProviderType;
+    openAICompatible: {
+        baseUrl: string;
+        model: string;
+    };
+    // 기능별 제공자 지정 (없으면 기본 제공자 사용)
+    featureProviders: Partial<Record<LLMFeature, LLMProviderType>>;
+    requestSettings: {
+        requestsPerMinute: number;
+        maxConcurrency: number;
+        maxRetries: number;
+        timeoutSeconds: number;
+    };
+    usageSettings: {
+        // 모델별 100만 토큰당 가격 (USD)
+        prices: Record<string, ModelPrice>;
+        // 토큰 예산 (0이면 제한 없음)
+        dailyTokenBudget: number;
+        monthlyTokenBudget: number;
+        budgetAction: 'warn' | 'block';
+    };
+    logSettings: LogRetentionSettings;
+    chatSettings: {
+        // 대화를 저장할 폴더
+        folder: string;
+        // 볼트 검색으로 첨부할 노트 수
+        retrievalCount: number;
+        // 컨텍스트로 보낼 최대 글자 수
+        maxContextChars: number;
+    };
+    defaultNewFileLocation: string;
+    customPrompts: CustomPrompt[];
+    knowledgeGraphSettings: GraphScopeSettings & {
+        enabled: boolean;
+        minSimilarityScore: number;
+        maxLinksPerDocument: number;
+        autoAddLinks: boolean;
+        // 링크를 추가하기 전에 변경될 노트를 미리 보여주고 선택받음
+        previewLinks: boolean;
+        embeddingProvider: EmbeddingProviderType;
+        embeddingModel: string;
+        // 그래프 내보내기 파일을 저장할 폴더
+        exportFolder: string;
+    };
+    relatedSectionSettings: RelatedSectionSettings;
+    mocSettings: {
+        // MOC 노트를 만들 폴더
+        folder: string;
+        // 이보다 작은 군집은 MOC 노트를 만들지 않음
+        minClusterSize: number;
+    };
+    metadataSettings: MetadataSettings;
+    batchSettings: {
+        // 일괄 작업 결과 보고서를 만들 폴더
+        reportFolder: string;
+    };
+    privacySettings: PrivacySettings;
+    longNoteSettings: LongNoteSettings;
+    autocompleteSettings: GhostTextSettings;
+    attachmentSettings: AttachmentSettings;
+    promptTemplates: {
+        generateTitle: string;
+        summarizeText: string;
+        expandText: string;
+        generateHashtags: string;
+        extractCoreConcepts: string;
+        analyzeDocumentRelation: string;
+        describeTopicCluster: string;
+        generateMetadata: string;
+        inlineCompletion: string;
+        attachmentAltText: string;
+        attachmentOcr: string;
+        attachmentDescription: string;
+        attachmentPdfSummary: string;
+    };
+}
+
+export interface GeminiLogEntry {
+    timestamp: string;
+    provider?: LLMProviderType;
+    feature?: UsageFeature;
+    model: string;
+    inputPrompt: string;
+    outputResponse: string | null;
+    inputTokens?: number;
+    outputTokens?: number;
+    error?: string;
+    // 보내기 전에 가린 민감 정보 (종류별 개수, 가린 내용이 있을 때만)
+    redactions?: Record<string, number>;
+}
+
+// 커스텀 프롬프트 결과를 반영하는 방식
+export type CustomPromptOutputMode = 'replace' | 'insertBelow' | 'append' | 'newNote' | 'confirm';
+
+export const CUSTOM_PROMPT_OUTPUT_MODES: Record<CustomPromptOutputMode, string> = {
+    replace: '선택 영역 대체',
+    insertBelow: '선택 영역 아래에 삽입',
+    append: '노트 끝에 추가',
+    newNote: '새 노트로 만들기',
+    confirm: '확인 창에 표시',
+};
+
+export interface CustomPrompt {
+    // 명령어 ID에 사용되는 고정 식별자
+    id: string;
+    name: string;
+    prompt: string;
+    description: string;
+    outputMode: CustomPromptOutputMode;
+    // 프롬프트별 생성 옵션 (비어 있으면 기본값 사용)
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    systemInstruction?: string;
+    // JSON 스키마 텍스트. 지정하면 스키마로 검증한 JSON 결과를 출력
+    outputSchema?: string;
+}
+
+// 보낼 내용 미리보기에서 고르는 요청 (실제 명령과 같은 템플릿과 변수로 프롬프트를 만듦)
+export interface PayloadPreviewTarget {
+    name: string;
+    feature: LLMFeature;
+    template: string;
+    variables: Record<string, string | undefined>;
+    // 긴 내용을 조각별로 먼저 요약하는 기능인지
+    condense: boolean;
+    options?: LLMGenerationOptions;
+}
+
+export type EmbeddingProviderType = 'gemini' | 'local';
+
+// 문서 관계 인터페이스 정의
+export interface DocumentRelation {
+    sourceFile: TFile;
+    targetFile: TFile;
+    similarityScore: number;
+    extractedContext: string;
+}
+
+// Obsidian의 App 인터페이스 확장
+declare module 'obsidian' {
+    interface App {
+        plugins: {
+            plugins: {
+                [id: string]: unknown;
+            };
+        };
+        commands: {
+            executeCommandById(id: string): boolean;
+        };
+        setting: {
+            open(): void;
+            openTabById(id: string): void;
+        };
+    }
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-pro';
+
+// 긴 노트를 나눌 때 템플릿 외에 응답 몫으로 남겨 두는 토큰 수
+const RESPONSE_RESERVE_TOKENS = 1024;
+// 모델 한도가 아주 작아도 조각은 이 크기 이상으로 만듦
+const MIN_CHUNK_TOKENS = 500;
+
+// 예산 확인용 첨부 파일 하나의 입력 토큰 추정치 (Gemini 이미지 한 장 기준, 실제 사용량은 응답에서 기록)
+const ATTACHMENT_TOKEN_ESTIMATE = 258;
+
+// 첨부 파일 작업별 프롬프트 템플릿과 명령어
+const ATTACHMENT_TEMPLATES: Record<AttachmentTask, keyof GeminiCopilotSettings['promptTemplates']> = {
+    altText: 'attachmentAltText',
+    ocr: 'attachmentOcr',
+    describeFigure: 'attachmentDescription',
+    summarizePdf: 'attachmentPdfSummary',
+};
+
+const ATTACHMENT_COMMANDS: Record<AttachmentTask, { id: string; name: string }> = {
+    altText: { id: 'gemini-attachment-alt-text', name: '첨부 이미지 대체 텍스트 생성' },
+    ocr: { id: 'gemini-attachment-ocr', name: '첨부 파일 텍스트 추출 (OCR)' },
+    describeFigure: { id: 'gemini-attachment-describe', name: '첨부 그림 설명 생성' },
+    summarizePdf: { id: 'gemini-attachment-summarize-pdf', name: '첨부 PDF 요약' },
+};
+
+// 유사도 점수까지 요청하던 이전 기본 관계 분석 템플릿 (점수는 임베딩 유사도로 대체됨)
+const LEGACY_DOCUMENT_RELATION_TEMPLATE = '두 문서 간의 관계를 분석하고 유사도 점수(0.0 ~ 1.0 사이)를 매겨주세요.\n\n문서 1: "{{sourceTitle}}"\n핵심 개념: {{sourceConcepts}}\n\n문서 2: "{{targetTitle}}"\n핵심 개념: {{targetConcepts}}\n\n다음 형식으로 JSON으로 응답해주세요:\n{\n    "similarityScore": 0.0부터 1.0 사이의 숫자,\n    "context": "두 문서가 어떻게 관련되어 있는지에 대한 간략한 설명(1-2문장)"\n}';
+
+export const DEFAULT_SETTINGS: GeminiCopilotSettings = {
+    // 처음 불러올 때 기본 프로필을 만듦
+    keyProfiles: [],
+    activeKeyProfileId: '',
+    defaultProvider: 'gemini',
+    openAICompatible: {
+        baseUrl: 'http://localhost:11434/v1',
+        model: '',
+    },
+    featureProviders: {},
+    requestSettings: {
+        requestsPerMinute: 15,
+        maxConcurrency: 2,
+        maxRetries: 3,
+        timeoutSeconds: 60,
+    },
+    usageSettings: {
+        prices: {
+            'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+            'gemini-1.5-pro': { input: 1.25, output: 5 },
+            'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+            'gemini-pro': { input: 0.5, output: 1.5 },
+        },
+        dailyTokenBudget: 0,
+        monthlyTokenBudget: 0,
+        budgetAction: 'warn',
+    },
+    logSettings: {
+        maxEntries: 1000,
+        maxAgeDays: 30,
+        maxSizeMB: 20,
+    },
+    chatSettings: {
+        folder: 'Gemini Chats',
+        retrievalCount: 5,
+        maxContextChars: 20000,
+    },
+    defaultNewFileLocation: 'root',
+    customPrompts: [],
+    knowledgeGraphSettings: {
+        enabled: false,
+        minSimilarityScore: 0.5,
+        maxLinksPerDocument: 5,
+        autoAddLinks: false,
+        previewLinks: true,
+        embeddingProvider: 'gemini',
+        embeddingModel: 'text-embedding-004',
+        includeFolders: [],
+        excludeFolders: [],
+        includeTags: [],
+        excludeTags: [],
+        minNoteLength: 0,
+        optOutProperty: 'gemini',
+        includeAttachmentNotes: true,
+        exportFolder: 'Gemini Graph',
+    },
+    relatedSectionSettings: {
+        format: 'list',
+        position: 'end',
+        headingText: '관련 문서',
+        headingLevel: 2,
+        anchorHeading: '',
+    },
+    mocSettings: {
+        folder: 'Gemini MOC',
+        minClusterSize: 3,
+    },
+    metadataSettings: {
+        maxTags: 8,
+        summaryProperty: 'summary',
+        properties: {},
+    },
+    batchSettings: {
+        reportFolder: 'Gemini Batch',
+    },
+    privacySettings: {
+        detectors: {
+            email: true,
+            phone: true,
+            residentNumber: true,
+            apiKey: true,
+        },
+        customPatterns: [],
+        blockedFolders: [],
+    },
+    longNoteSettings: {
+        maxChunkTokens: 8000,
+        defaultContextTokens: 8192,
+    },
+    autocompleteSettings: {
+        enabled: true,
+        delayMs: 800,
+        folders: [],
+        model: '',
+        maxOutputTokens: 64,
+    },
+    attachmentSettings: {
+        output: 'beside',
+        companionFolder: 'Gemini Attachments',
+    },
+    promptTemplates: {
+        generateTitle: 'Generate a concise and informative title for the following note content:{{currentTitle}}\n\n{{content}}\n\nOutput format: YYYY-MM-DD: title. Ensure the title part is suitable for filename (no special chars).',
+        summarizeText: 'Please summarize the following text concisely:\n\n{{content}}\n\nSummary:',
+        expandText: 'Please expand upon the following text, adding more detail and information:\n\n{{content}}\n\nExpanded Text:',
+        generateHashtags: '한글로 다음 문서의 핵심을 나타내는 키워드를 10개 정도 추출하여 설명, 부호, 순서 없이 \'#\'로 시작하는 키워드로 출력하세요.\n문서: \n{{content}}\n\n해시태그: #',
+        extractCoreConcepts: '다음 문서에서 핵심 개념, 주제, 키워드를 5-10개 정도 추출해 주세요. JSON 형식으로 반환하되, 키워드는 단어나 짧은 구문으로 제한해주세요.\n\n문서:\n{{content}}\n\n출력 형식:\n{\n    "concepts": ["개념1", "개념2", "개념3", ...]\n}',
+        analyzeDocumentRelation: '두 문서가 어떻게 관련되어 있는지 설명해주세요.\n\n문서 1: "{{sourceTitle}}"\n핵심 개념: {{sourceConcepts}}\n\n문서 2: "{{targetTitle}}"\n핵심 개념: {{targetConcepts}}\n\n다음 형식으로 JSON으로 응답해주세요:\n{\n    "context": "두 문서가 어떻게 관련되어 있는지에 대한 간략한 설명(1-2문장)"\n}',
+        describeTopicCluster: '다음 노트들은 하나의 주제로 묶인 문서입니다. 이 주제를 대표하는 짧은 이름(2-6 단어)과 1-2문장의 요약을 만들어 주세요.\n\n노트 제목:\n{{clusterNotes}}\n\n주요 핵심 개념: {{clusterConcepts}}\n\n다음 형식으로 JSON으로 응답해주세요:\n{\n    "name": "주제 이름",\n    "summary": "주제 요약"\n}',
+        generateMetadata: '다음 노트의 프론트매터 메타데이터를 만들어 주세요.\n\n- tags: 노트의 핵심 주제를 나타내는 태그 (# 없이, 공백 대신 하이픈). 볼트의 기존 태그 중 알맞은 것이 있으면 그대로 사용하세요.\n- aliases: 이 노트를 다른 이름으로 찾을 때 쓸 만한 별칭 (없으면 빈 목록)\n- summary: 노트 내용을 1-2문장으로 요약\n{{#if metadataProperties}}- properties: 다음 속성의 값\n{{metadataProperties}}\n{{/if}}\n볼트의 기존 태그: {{vaultTags}}\n현재 태그: {{tags}}\n\n노트 제목: {{title}}\n노트:\n{{content}}',
+        inlineCompletion: '노트의 커서 위치에 이어질 텍스트를 작성하세요. 커서 앞 문장을 같은 언어와 문체로 자연스럽게 이어 한두 문장 이내로 쓰고, 커서 앞 내용을 반복하거나 설명을 덧붙이지 말고 이어질 텍스트만 출력하세요.\n\n노트 제목: {{title}}\n{{#if headingPath}}현재 제목: {{headingPath}}\n{{/if}}\n커서 앞:\n{{textBefore}}\n{{#if textAfter}}\n커서 뒤:\n{{textAfter}}\n{{/if}}\n이어질 텍스트:',
+        attachmentAltText: '첨부한 이미지({{attachmentName}})의 대체 텍스트를 한 문장(125자 이내)으로 작성하세요. {{#if title}}노트 "{{title}}"에 들어 있는 이미지입니다. {{/if}}화면을 볼 수 없는 사람이 내용을 이해할 수 있도록 핵심을 설명하고, "이미지:" 같은 머리말 없이 대체 텍스트만 출력하세요.',
+        attachmentOcr: '첨부한 파일({{attachmentName}})에 있는 모든 글자를 원문 그대로 옮겨 적으세요. 줄바꿈, 목록, 표 구조는 마크다운으로 유지하고, 읽을 수 없는 부분은 [판독 불가]로 표시하세요. 설명 없이 옮겨 적은 텍스트만 출력하세요.',
+        attachmentDescription: '첨부한 그림({{attachmentName}})을 자세히 설명하세요. 그림의 종류(사진, 도표, 그래프, 다이어그램 등), 주요 구성 요소와 관계, 그래프라면 축과 추세, 그림이 전달하려는 핵심 내용을 마크다운으로 정리하세요.{{#if title}}\n\n노트 제목: {{title}}{{/if}}',
+        attachmentPdfSummary: '첨부한 PDF 문서({{attachmentName}})를 요약하세요. 문서의 목적, 핵심 내용, 주요 결론을 마크다운 목록으로 정리하고, 중요한 수치나 표가 있으면 함께 적어 주세요.'
+    },
+};
+
+export default class GeminiCopilotPlugin extends Plugin {
+    settings: GeminiCopilotSettings;
+    secrets: SecretStore;
+    conceptCache: ConceptCache;
+    embeddingStore: EmbeddingStore;
+    scheduler: RequestScheduler;
+    usageTracker: UsageTracker;
+    logStore: LogStore;
+    templateEngine: PromptTemplateEngine;
+    privacyGuard: PrivacyGuard;
+    graphStore: GraphStore;
+    relatedSectionWriter: RelatedSectionWriter;
+    linkChangesets: LinkChangesetStore;
+    graphScope: GraphScope;
+    topicClusters: TopicClusterStore;
+    batchJobs: BatchJobStore;
+    private genAI: GoogleGenerativeAI | null = null;
+    private providers: Record<LLMProviderType, LLMProvider | null> = { gemini: null, openai: null };
+    private activeStream: EditorStreamSession | null = null;
+    // 예산 초과 경고를 기간당 한 번만 표시하기 위한 키
+    private budgetWarningKey: string | null = null;
+    private streamStatusEl: HTMLElement;
+    // 현재 등록된 커스텀 프롬프트 명령어 ID
+    private customPromptCommandIds: string[] = [];
+    // 변경되어 다시 분석할 노트 경로 (백그라운드에서 하나씩 처리)
+    private graphQueue = new Set<string>();
+    private graphUpdating = false;
+    private requestGraphUpdate = debounce(() => this.processGraphQueue(), 5000, true);
+    private batchRunning = false;
+
+    async onload() {
+        this.secrets = new SecretStore(this.app, this.manifest.id);
+        await this.loadSettings();
+        this.scheduler = new RequestScheduler(this.getSchedulerOptions());
+        this.privacyGuard = new PrivacyGuard(this.app, () => this.settings.privacySettings);
+        this.templateEngine = new PromptTemplateEngine(this.app, file => this.privacyGuard.isBlocked(file));
+        this.relatedSectionWriter = new RelatedSectionWriter(this.app, () => this.settings.relatedSectionSettings);
+        this.graphScope = new GraphScope(this.app, () => this.settings.knowledgeGraphSettings, this.privacyGuard);
+        this.initializeGeminiAPI();
+
+        // 스트리밍 상태 표시 (클릭 시 취소)
+        this.streamStatusEl = this.addStatusBarItem();
+        this.streamStatusEl.addClass('gemini-stream-status');
+        this.streamStatusEl.hide();
+        this.streamStatusEl.addEventListener('click', () => this.cancelStreaming());
+        this.registerEditorExtension(streamingExtension);
+
+        // 스트리밍 중인 에디터에 다른 노트가 열리거나 창이 닫히면 생성을 취소하고, 저장된 부분 삽입을 되돌림
+        const cancelDetachedStream = async () => {
+            const session = this.activeStream;
+            if (!session?.isDetached) return;
+            this.cancelStreaming();
+            if (!session.file) return;
+            try {
+                await this.app.vault.process(session.file, data => session.restoreIn(data));
+            } catch (error) {
+                console.error('스트리밍 삽입 되돌리기 오류:', error);
+            }
+        };
+        this.registerEvent(this.app.workspace.on('file-open', cancelDetachedStream));
+        this.registerEvent(this.app.workspace.on('active-leaf-change', cancelDetachedStream));
+
+        // 핵심 개념 캐시 로드 및 볼트 이벤트 연결
+        this.conceptCache = new ConceptCache(this.app, `${this.manifest.dir}/concept-cache.json`);
+        await this.conceptCache.load();
+
+        // 상호작용 로그 저장소 로드
+        this.logStore = new LogStore(this.app, `${this.manifest.dir}/logs.jsonl`, this.settings.logSettings);
+        await this.logStore.load();
+        await this.migrateLegacyLogHistory();
+        this.registerView(VIEW_TYPE_GEMINI_LOG, (leaf) => new GeminiLogView(leaf, this));
+        this.registerView(VIEW_TYPE_GEMINI_CHAT, (leaf) => new GeminiChatView(leaf, this));
+
+        // 입력을 멈추면 이어질 텍스트를 회색으로 제안
+        this.registerEditorExtension(ghostTextExtension({
+            isEnabled: file => this.isAutocompleteEnabled(file),
+            delay: () => this.settings.autocompleteSettings.delayMs,
+            complete: (request, signal) => this.completeInline(request, signal)
+        }));
+
+        // 토큰 사용량 기록 로드
+        this.usageTracker = new UsageTracker(this.app, `${this.manifest.dir}/usage.json`);
+        await this.usageTracker.load();
+
+        // 문서 임베딩 저장소 로드
+        this.embeddingStore = new EmbeddingStore(this.app, `${this.manifest.dir}/embeddings.json`, this.createEmbeddingProvider());
+        await this.embeddingStore.load();
+
+        // 지식 그래프 저장소 로드
+        this.graphStore = new GraphStore(this.app, `${this.manifest.dir}/graph.json`);
+        await this.graphStore.load();
+
+        // 자동 링크 추가 기록 로드 (되돌리기용)
+        this.linkChangesets = new LinkChangesetStore(this.app, `${this.manifest.dir}/link-changesets.json`);
+        await this.linkChangesets.load();
+
+        // 주제 군집 기록 로드 (MOC 노트 갱신용)
+        this.topicClusters = new TopicClusterStore(this.app, `${this.manifest.dir}/topic-clusters.json`);
+        await this.topicClusters.load();
+
+        // 일괄 작업 기록 로드 (이어서 실행, 실패 다시 실행용)
+        this.batchJobs = new BatchJobStore(this.app, `${this.manifest.dir}/batch-jobs.json`);
+        await this.batchJobs.load();
+
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.conceptCache.handleRename(file, oldPath);
+            this.embeddingStore.handleRename(file, oldPath);
+            this.graphStore.handleRename(file, oldPath);
+            this.linkChangesets.handleRename(file.path, oldPath);
+            this.topicClusters.handleRename(file, oldPath);
+            this.batchJobs.handleRename(file.path, oldPath);
+            if (this.graphQueue.delete(oldPath)) this.graphQueue.add(file.path);
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            this.conceptCache.handleDelete(file);
+            this.embeddingStore.handleDelete(file);
+            this.graphStore.handleDelete(file);
+            this.graphQueue.delete(file.path);
+        }));
+        // 지식 그래프가 활성화된 경우 수정된 노트만 다시 분석
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (!this.settings.knowledgeGraphSettings.enabled) return;
+            if (!(file instanceof TFile) || file.extension !== 'md') return;
+            this.graphQueue.add(file.path);
+            this.requestGraphUpdate();
+        }));
+
+        // 파일 탐색기 폴더 메뉴에서 해당 폴더만 지식 그래프 분석
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            // 이미지나 PDF는 설명 노트에 결과를 기록
+            if (file instanceof TFile) {
+                tasksFor(file).forEach(task => menu.addItem((item) => {
+                    item.setTitle(`Gemini ${ATTACHMENT_TASKS[task]} 생성`)
+                        .setIcon('image')
+                        .onClick(() => this.describeAttachmentFile(file, task));
+                }));
+                return;
+            }
+            if (!(file instanceof TFolder)) return;
+            menu.addItem((item) => {
+                item.setTitle('이 폴더로 지식 그래프 생성')
+                    .setIcon('git-fork')
+                    .onClick(async () => {
+                        new Notice(`"${file.isRoot() ? '/' : file.path}" 폴더의 지식 그래프 생성을 시작합니다...`);
+                        await this.generateKnowledgeGraph(file);
+                    });
+            });
+            menu.addItem((item) => {
+                item.setTitle('이 폴더에 Gemini 일괄 작업 실행')
+                    .setIcon('list-checks')
+                    .onClick(() => this.openBatchJobModal({ source: 'folder', value: file.isRoot() ? '' : file.path }));
+            });
+            const autocompleteGlob = file.isRoot() ? '**' : file.path;
+            const autocompleteOn = this.settings.autocompleteSettings.folders.includes(autocompleteGlob);
+            menu.addItem((item) => {
+                item.setTitle(autocompleteOn ? '이 폴더에서 인라인 자동 완성 끄기' : '이 폴더에서 인라인 자동 완성 켜기')
+                    .setIcon('text-cursor-input')
+                    .onClick(() => this.toggleAutocompleteForFolder(autocompleteGlob));
+            });
+        }));
+
+        this.addRibbonIcon('sparkles', 'Gemini Copilot', (evt: MouseEvent) => {
+            // 메뉴 생성 및 표시
+            const menu = new Menu();
+            
+            // 노트 제목 생성 기능
+            menu.addItem((item) => {
+                item.setTitle('노트 제목 생성')
+                    .setIcon('heading')
+                    .onClick(async () => {
+                        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+                        if (activeView) {
+                            const content = activeView.editor.getValue();
+                            if (!content) {
+                                new Notice('노트 내용이 비어있습니다.');
+                                return;
+                            }
+
+                            try {
+                                const suggestedTitle = await this.generateNoteTitle(content, activeView.file?.basename);
+                                if (!suggestedTitle) {
+                                    new Notice('제목 생성에 실패했습니다.');
+                                    return;
+                                }
+
+                                new GeminiConfirmationModal(this.app, suggestedTitle, async (confirmedTitle) => {
+                                    if (!confirmedTitle) return; // 사용자가 취소함
+
+                                    let newFileName = this.sanitizeFilename(confirmedTitle.trim());
+                                    const creationDate = new Date().toISOString().slice(0, 10);
+                                    const finalFileName = `${creationDate} - ${newFileName}`;
+
+                                    if (activeView.file) {
+                                        // 기존 파일 이름 변경
+                                        const originalFilePath = activeView.file.path;
+                                        const dirPath = activeView.file.parent ? activeView.file.parent.path : "";
+                                        const newFilePath = dirPath ? `${dirPath}/${finalFileName}.${activeView.file.extension}` : `${finalFileName}.${activeView.file.extension}`;
+
+                                        try {
+                                            await this.app.fileManager.renameFile(activeView.file, newFilePath);
+                                            new Notice(`노트 제목이 다음으로 변경되었습니다: ${finalFileName}`);
+                                        } catch (error) {
+                                            console.error('파일 이름 변경 오류:', error);
+                                            new Notice(`파일 이름 변경 오류: ${error instanceof Error ? error.message : String(error)}`);
+                                        }
+                                    } else {
+                                        // 신규 파일 생성
+                                        this.createNewFileWithTitle(content, finalFileName);
+                                    }
+                                }).open();
+
+                            } catch (error) {
+                                console.error('노트 제목 생성 오류:', error);
+                                new Notice('노트 제목 생성 중 오류가 발생했습니다.');
+                            }
+                        } else {
+                            new Notice('노트가 열려있지 않습니다.');
+                        }
+                    });
+            });
+            
+            // 프론트매터 메타데이터 생성 기능
+            menu.addItem((item) => {
+                item.setTitle('노트 메타데이터 생성')
+                    .setIcon('tags')
+                    .onClick(async () => {
+                        const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+                        if (!file) {
+                            new Notice('노트가 열려있지 않습니다.');
+                            return;
+                        }
+                        await this.generateMetadata(file);
+                    });
+            });
+
+            // 메뉴의 나머지 항목 추가 (생략)...
+            
+            // 메뉴 표시
+            menu.showAtMouseEvent(evt);
+        });
+
+        // 명령어 추가
+        this.addCommands();
+        this.syncCustomPromptCommands();
+
+        this.addSettingTab(new GeminiCopilotSettingTab(this.app, this));
+    }
+
+    // 명령어 추가 메서드
+    private addCommands() {
+        // 제목 생성 명령어
+        this.addCommand({
+            id: 'gemini-generate-note-title',
+            name: 'Generate Note Title with Gemini',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                // 내용 생략..
+            }
+        });
+
+        // 텍스트 요약 명령어
+        this.addCommand({
+            id: 'gemini-summarize-text',
+            name: 'Summarize Selected Text with Gemini',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                // 내용 생략..
+            }
+        });
+
+        // 지식 그래프 생성 명령어
+        this.addCommand({
+            id: 'gemini-generate-knowledge-graph',
+            name: '지식 그래프 생성하기',
+            callback: async () => {
+                new Notice('지식 그래프 생성을 시작합니다...');
+                await this.generateKnowledgeGraph();
+            }
+        });
+
+        // 관련 문서 찾기 명령어
+        this.addCommand({
+            id: 'gemini-find-related-documents',
+            name: '현재 문서의 관련 문서 찾기',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                if (!view.file) {
+                    new Notice('현재 열려있는 파일이 없습니다.');
+                    return;
+                }
+
+                const content = editor.getValue();
+                if (!content) {
+                    new Notice('문서 내용이 비어있습니다.');
+                    return;
+                }
+
+                // 내용이 바뀌지 않았다면 그래프 저장소에서 바로 응답
+                let relatedDocs: DocumentRelation[];
+                if (this.graphStore.isFresh(view.file.path, content)) {
+                    relatedDocs = this.graphStore.relationsFor(view.file)
+                        .filter(relation => this.graphScope.includes(relation.targetFile));
+                } else {
+                    new Notice('관련 문서를 찾는 중입니다...');
+                    relatedDocs = await this.analyzeAndStoreRelations(view.file, content);
+                }
+
+                if (relatedDocs.length === 0) {
+                    new Notice('관련 문서를 찾지 못했습니다.');
+                    return;
+                }
+
+                new RelatedDocumentsModal(this.app, relatedDocs, this).open();
+            }
+        });
+
+        // 프론트매터 메타데이터 생성 명령어
+        this.addCommand({
+            id: 'gemini-generate-metadata',
+            name: '노트 메타데이터 생성 (태그, 별칭, 요약, 속성)',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                if (!view.file) {
+                    new Notice('현재 열려있는 파일이 없습니다.');
+                    return;
+                }
+                await this.generateMetadata(view.file);
+            }
+        });
+
+        // 민감 정보를 가린 뒤 실제로 보낼 내용 미리보기
+        this.addCommand({
+            id: 'gemini-preview-redaction',
+            name: 'Gemini로 보낼 내용 미리보기 (민감 정보 가리기)',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                const file = view.file;
+                if (file && this.privacyGuard.isBlocked(file)) {
+                    new Notice(`"${file.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있습니다. (gemini: never)`);
+                    return;
+                }
+                const selection = editor.getSelection();
+                const targets = this.payloadPreviewTargets(selection || editor.getValue(), selection, file);
+                new PayloadPreviewSuggestModal(this.app, targets, target => this.previewPayload(target, file)).open();
+            }
+        });
+
+        // 일괄 작업 명령어
+        this.addCommand({
+            id: 'gemini-run-batch-job',
+            name: 'Gemini 일괄 작업 실행 (폴더, 태그, 검색 결과)',
+            callback: () => this.openBatchJobModal({ source: 'folder', value: this.app.workspace.getActiveFile()?.parent?.path ?? '' })
+        });
+
+        this.addCommand({
+            id: 'gemini-resume-batch-job',
+            name: '중단된 Gemini 일괄 작업 이어서 실행',
+            checkCallback: (checking: boolean) => {
+                const job = this.batchJobs.latestUnfinished();
+                if (!job || this.batchRunning) return false;
+                if (!checking) this.runBatchJob(job);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'gemini-retry-batch-failures',
+            name: '실패한 Gemini 일괄 작업 다시 실행',
+            checkCallback: (checking: boolean) => {
+                const job = this.batchJobs.latestWithFailures();
+                if (!job || this.batchRunning) return false;
+                if (!checking) {
+                    this.batchJobs.resetFailed(job).then(() => this.runBatchJob(job));
+                }
+                return true;
+            }
+        });
+
+        // 저장된 지식 그래프로 관련 링크 추가 (항상 미리보기)
+        this.addCommand({
+            id: 'gemini-preview-graph-links',
+            name: '지식 그래프 관련 링크 추가 미리보기',
+            callback: async () => {
+                await this.addWikiLinksToDocuments(this.graphStore.allRelations(), true);
+            }
+        });
+
+        // 주제 군집과 MOC 노트 생성
+        this.addCommand({
+            id: 'gemini-generate-topic-clusters',
+            name: '주제 군집 및 MOC 노트 생성',
+            callback: async () => {
+                await this.generateTopicClusters();
+            }
+        });
+
+        // 지식 그래프 내보내기 (형식별 명령어)
+        (Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).forEach(format => {
+            this.addCommand({
+                id: `gemini-export-graph-${format}`,
+                name: `지식 그래프 내보내기: ${GRAPH_EXPORT_FORMATS[format].label}`,
+                callback: async () => {
+                    await this.exportKnowledgeGraph(format);
+                }
+            });
+        });
+
+        // 마지막 링크 일괄 변경 되돌리기
+        this.addCommand({
+            id: 'gemini-revert-link-batch',
+            name: '마지막 Gemini 링크 일괄 변경 되돌리기',
+            callback: async () => {
+                await this.revertLastLinkBatch();
+            }
+        });
+
+        // 스트리밍 요약 명령어
+        this.addCommand({
+            id: 'gemini-stream-summarize-text',
+            name: 'Summarize Selected Text with Gemini (Streaming)',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                const text = editor.getSelection();
+                if (!text) {
+                    new Notice('요약할 텍스트를 선택하세요.');
+                    return;
+                }
+                // 긴 선택 영역은 나눠 요약한 뒤 마지막 요약만 스트리밍
+                const template = this.settings.promptTemplates.summarizeText;
+                const content = await this.condenseLongContent(text, 'summarizeText', template, undefined, view.file);
+                if (content === null) return;
+                const prompt = await this.renderPrompt(template, { content, selection: text }, view.file);
+                if (prompt === null) return;
+                await this.streamIntoEditor(editor, prompt, 'summarizeText', 'replace');
+            }
+        });
+
+        // 스트리밍 확장 명령어
+        this.addCommand({
+            id: 'gemini-stream-expand-text',
+            name: 'Expand Selected Text with Gemini (Streaming)',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                const text = editor.getSelection();
+                if (!text) {
+                    new Notice('확장할 텍스트를 선택하세요.');
+                    return;
+                }
+                const prompt = await this.renderPrompt(this.settings.promptTemplates.expandText, { content: text, selection: text }, view.file);
+                if (prompt === null) return;
+                await this.streamIntoEditor(editor, prompt, 'expandText', 'insertAfter');
+            }
+        });
+
+        // 스트리밍 커스텀 프롬프트 명령어
+        this.addCommand({
+            id: 'gemini-stream-custom-prompt',
+            name: 'Run Custom Prompt with Gemini (Streaming)',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                if (this.settings.customPrompts.length === 0) {
+                    new Notice('설정에서 커스텀 프롬프트를 먼저 추가하세요.');
+                    return;
+                }
+                const selection = editor.getSelection();
+                const text = selection || editor.getValue();
+                new CustomPromptSelectorModal(this.app, this.settings.customPrompts, async (selectedPrompt) => {
+                    if (!selectedPrompt) return;
+                    // 출력 스키마가 있는 프롬프트는 응답을 검증해야 하므로 스트리밍하지 않음
+                    if (selectedPrompt.outputSchema?.trim()) {
+                        await this.executeCustomPrompt(selectedPrompt, editor, view);
+                        return;
+                    }
+                    const prompt = await this.renderPrompt(selectedPrompt.prompt, { content: text, selection }, view.file);
+                    if (prompt === null) return;
+                    await this.streamIntoEditor(editor, prompt, 'customPrompt', editor.somethingSelected() ? 'replace' : 'insertAfter',
+                        this.getCustomPromptOptions(selectedPrompt));
+                }).open();
+            }
+        });
+
+        // 확장 결과를 diff로 검토한 뒤 적용하는 명령어
+        this.addCommand({
+            id: 'gemini-expand-text-review',
+            name: 'Expand Selected Text with Gemini (Review Changes)',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                const text = editor.getSelection();
+                if (!text) {
+                    new Notice('확장할 텍스트를 선택하세요.');
+                    return;
+                }
+                const prompt = await this.renderPrompt(this.settings.promptTemplates.expandText, { content: text, selection: text }, view.file);
+                if (prompt === null) return;
+
+                new Notice('텍스트를 확장하는 중입니다...');
+                const response = await this.generateContent(prompt, 'expandText');
+                if (!response.text) return;
+                this.reviewEdit(editor, response.text, async () => (await this.generateContent(prompt, 'expandText')).text);
+            }
+        });
+
+        // 커스텀 프롬프트 선택 실행 명령어 (프롬프트별 출력 방식 사용)
+        this.addCommand({
+            id: 'gemini-run-custom-prompt',
+            name: 'Run Custom Prompt with Gemini',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                if (this.settings.customPrompts.length === 0) {
+                    new Notice('설정에서 커스텀 프롬프트를 먼저 추가하세요.');
+                    return;
+                }
+                new CustomPromptSelectorModal(this.app, this.settings.customPrompts, async (selectedPrompt) => {
+                    if (!selectedPrompt) return;
+                    await this.executeCustomPrompt(selectedPrompt, editor, view);
+                }).open();
+            }
+        });
+
+        // 스트리밍 취소 명령어
+        this.addCommand({
+            id: 'gemini-cancel-generation',
+            name: 'Cancel Gemini Generation',
+            checkCallback: (checking: boolean) => {
+                if (!this.activeStream) return false;
+                if (!checking) this.cancelStreaming();
+                return true;
+            }
+        });
+
+        // 채팅 패널 명령어
+        this.addCommand({
+            id: 'gemini-open-chat',
+            name: 'Open Gemini Chat',
+            callback: () => this.activateChatView()
+        });
+
+        // 저장된 대화 노트에서 채팅 이어가기
+        this.addCommand({
+            id: 'gemini-resume-chat',
+            name: 'Resume Gemini Chat from Current Note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.app.metadataCache.getFileCache(file)?.frontmatter?.[CHAT_FRONTMATTER_KEY]) return false;
+                if (!checking) {
+                    this.activateChatView().then(view => view?.loadConversation(file));
+                }
+                return true;
+            }
+        });
+
+        // 첨부 파일 설명 명령어 (선택한 줄의 임베드, 없으면 노트의 모든 임베드)
+        (Object.keys(ATTACHMENT_COMMANDS) as AttachmentTask[]).forEach(task => {
+            this.addCommand({
+                id: ATTACHMENT_COMMANDS[task].id,
+                name: ATTACHMENT_COMMANDS[task].name,
+                editorCallback: async (editor: Editor, view: MarkdownView) => {
+                    if (view.file) await this.describeNoteAttachments(editor, view.file, task);
+                }
+            });
+        });
+
+        // 인라인 자동 완성 명령어
+        this.addCommand({
+            id: 'gemini-toggle-inline-autocomplete-note',
+            name: '현재 노트에서 인라인 자동 완성 켜기/끄기',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (!checking) this.toggleAutocompleteForNote(file);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'gemini-toggle-inline-autocomplete',
+            name: '인라인 자동 완성 전체 켜기/끄기',
+            callback: async () => {
+                const settings = this.settings.autocompleteSettings;
+                settings.enabled = !settings.enabled;
+                await this.saveSettings();
+                new Notice(`인라인 자동 완성을 ${settings.enabled ? '켰습니다. 노트나 폴더별로 켠 곳에서 동작합니다.' : '모두 껐습니다.'}`);
+            }
+        });
+
+        // 키 프로필 전환 명령어
+        this.addCommand({
+            id: 'gemini-switch-key-profile',
+            name: 'Gemini 키 프로필 전환',
+            callback: () => new KeyProfileSuggestModal(this.app, this.settings.keyProfiles, this.settings.activeKeyProfileId,
+                profile => this.switchKeyProfile(profile.id)).open()
+        });
+
+        // 상호작용 로그 뷰 명령어
+        this.addCommand({
+            id: 'gemini-open-log-view',
+            name: 'Open Gemini Interaction Log',
+            callback: () => this.activateLogView()
+        });
+
+        // 기타 명령어들...
+    }
+
+    onunload() {
+        this.cancelStreaming();
+        this.genAI = null;
+        this.conceptCache.save();
+        this.embeddingStore.save();
+        this.graphStore.save();
+        this.usageTracker.save();
+        this.logStore.flush();
+    }
+
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // 중첩된 설정은 새로 추가된 항목의 기본값을 채움
+        this.settings.knowledgeGraphSettings = Object.assign({}, DEFAULT_SETTINGS.knowledgeGraphSettings, this.settings.knowledgeGraphSettings);
+        this.settings.promptTemplates = Object.assign({}, DEFAULT_SETTINGS.promptTemplates, this.settings.promptTemplates);
+        if (this.settings.promptTemplates.analyzeDocumentRelation === LEGACY_DOCUMENT_RELATION_TEMPLATE) {
+            this.settings.promptTemplates.analyzeDocumentRelation = DEFAULT_SETTINGS.promptTemplates.analyzeDocumentRelation;
+        }
+        this.settings.openAICompatible = Object.assign({}, DEFAULT_SETTINGS.openAICompatible, this.settings.openAICompatible);
+        this.settings.featureProviders = Object.assign({}, this.settings.featureProviders);
+        this.settings.requestSettings = Object.assign({}, DEFAULT_SETTINGS.requestSettings, this.settings.requestSettings);
+        this.settings.usageSettings = Object.assign({}, DEFAULT_SETTINGS.usageSettings, this.settings.usageSettings);
+        this.settings.logSettings = Object.assign({}, DEFAULT_SETTINGS.logSettings, this.settings.logSettings);
+        this.settings.chatSettings = Object.assign({}, DEFAULT_SETTINGS.chatSettings, this.settings.chatSettings);
+        this.settings.relatedSectionSettings = Object.assign({}, DEFAULT_SETTINGS.relatedSectionSettings, this.settings.relatedSectionSettings);
+        this.settings.mocSettings = Object.assign({}, DEFAULT_SETTINGS.mocSettings, this.settings.mocSettings);
+        this.settings.metadataSettings = Object.assign({}, DEFAULT_SETTINGS.metadataSettings, this.settings.metadataSettings);
+        this.settings.batchSettings = Object.assign({}, DEFAULT_SETTINGS.batchSettings, this.settings.batchSettings);
+        this.settings.privacySettings = Object.assign({}, DEFAULT_SETTINGS.privacySettings, this.settings.privacySettings);
+        this.settings.privacySettings.detectors = Object.assign({}, DEFAULT_SETTINGS.privacySettings.detectors, this.settings.privacySettings.detectors);
+        this.settings.longNoteSettings = Object.assign({}, DEFAULT_SETTINGS.longNoteSettings, this.settings.longNoteSettings);
+        this.settings.autocompleteSettings = Object.assign({}, DEFAULT_SETTINGS.autocompleteSettings, this.settings.autocompleteSettings);
+        this.settings.attachmentSettings = Object.assign({}, DEFAULT_SETTINGS.attachmentSettings, this.settings.attachmentSettings);
+        // 이전 버전의 커스텀 프롬프트에 ID와 출력 방식 채우기
+        this.settings.customPrompts = (this.settings.customPrompts ?? []).map(prompt =>
+            Object.assign({ id: createId(), outputMode: 'confirm' }, prompt));
+        await this.migrateApiKeys();
+    }
+
+    // 이전 버전의 API 키와 모델을 기본 프로필로 옮김
+    // 키는 data.json에서 지우고 이 기기의 로컬 저장소에만 남깁니다.
+    private async migrateApiKeys() {
+        const legacy = this.settings as GeminiCopilotSettings & { geminiApiKey?: string; geminiModel?: string; openAICompatible: { apiKey?: string } };
+        let changed = false;
+
+        if (!Array.isArray(this.settings.keyProfiles) || this.settings.keyProfiles.length === 0) {
+            const profile: KeyProfile = { id: createId(), name: '기본', geminiModel: legacy.geminiModel || DEFAULT_GEMINI_MODEL };
+            this.settings.keyProfiles = [profile];
+            this.settings.activeKeyProfileId = profile.id;
+            changed = true;
+        }
+        if (legacy.geminiApiKey !== undefined || legacy.geminiModel !== undefined) {
+            if (legacy.geminiApiKey) this.secrets.set(geminiKeyName(this.getActiveKeyProfile()), legacy.geminiApiKey);
+            delete legacy.geminiApiKey;
+            delete legacy.geminiModel;
+            changed = true;
+        }
+        if (legacy.openAICompatible.apiKey !== undefined) {
+            if (legacy.openAICompatible.apiKey) this.secrets.set(OPENAI_KEY_NAME, legacy.openAICompatible.apiKey);
+            delete legacy.openAICompatible.apiKey;
+            changed = true;
+        }
+        if (changed) await this.saveData(this.settings);
+    }
+
+    // 현재 사용 중인 키 프로필 (지정한 프로필이 없으면 첫 번째)
+    getActiveKeyProfile(): KeyProfile {
+        return this.settings.keyProfiles.find(profile => profile.id === this.settings.activeKeyProfileId) ?? this.settings.keyProfiles[0];
+    }
+
+    async switchKeyProfile(id: string) {
+        const profile = this.settings.keyProfiles.find(profile => profile.id === id);
+        if (!profile) return;
+        this.settings.activeKeyProfileId = profile.id;
+        await this.saveSettings();
+        new Notice(`키 프로필 '${profile.name}'(으)로 전환했습니다.${this.genAI ? '' : ' 이 프로필에는 Gemini API 키가 없습니다.'}`);
+    }
+
+    // 제공자 연결을 확인하고 사용할 수 있는 모델 목록 반환 (설정 화면의 연결 테스트)
+    async listProviderModels(type: LLMProviderType): Promise<string[]> {
+        // OpenAI 호환 서버는 모델을 정하기 전에도 목록을 확인할 수 있도록 Base URL만으로 연결
+        const { baseUrl } = this.settings.openAICompatible;
+        const provider = this.providers[type]
+            ?? (type === 'openai' && baseUrl ? new OpenAICompatibleProvider(baseUrl, this.secrets.get(OPENAI_KEY_NAME), '') : null);
+        if (!provider) {
+            throw new Error(type === 'gemini'
+                ? 'Gemini API Key is not configured.'
+                : 'OpenAI 호환 엔드포인트(Base URL, 모델)가 설정되지 않았습니다.');
+        }
+        return this.scheduler.schedule(() => provider.listModels(), { maxRetries: 0 });
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+        this.scheduler?.updateOptions(this.getSchedulerOptions());
+        this.logStore?.setRetention(this.settings.logSettings);
+        this.initializeGeminiAPI();
+        this.embeddingStore?.setProvider(this.createEmbeddingProvider());
+        this.syncCustomPromptCommands();
+    }
+
+    private getSchedulerOptions(): RequestSchedulerOptions {
+        const { requestsPerMinute, maxConcurrency, maxRetries, timeoutSeconds } = this.settings.requestSettings;
+        return { requestsPerMinute, maxConcurrency, maxRetries, timeoutMs: timeoutSeconds * 1000 };
+    }
+
+    // 설정에 따라 임베딩 제공자 생성
+    private createEmbeddingProvider(): EmbeddingProvider {
+        if (this.settings.knowledgeGraphSettings.embeddingProvider === 'local') {
+            return new LocalEmbeddingProvider();
+        }
+        return new GeminiEmbeddingProvider(() => this.genAI, this.settings.knowledgeGraphSettings.embeddingModel, this.scheduler,
+            text => this.privacyGuard.redact(text), {
+                allow: tokens => this.checkTokenBudget(tokens),
+                record: (model, chunkCount, tokens, error) => this.recordEmbeddingUsage(model, chunkCount, tokens, error)
+            });
+    }
+
+    // 임베딩 요청의 사용량과 로그 기록 (로그가 커지지 않도록 청크 내용은 남기지 않음)
+    private recordEmbeddingUsage(model: string, chunkCount: number, tokens: number, error?: unknown) {
+        const logEntry: GeminiLogEntry = {
+            timestamp: new Date().toISOString(),
+            provider: 'gemini',
+            feature: 'embedding',
+            model,
+            inputPrompt: `${chunkCount}개 청크 임베딩`,
+            outputResponse: null,
+            inputTokens: tokens,
+            outputTokens: 0,
+            error: undefined
+        };
+        if (error === undefined) {
+            this.usageTracker.record(model, 'embedding', tokens, 0);
+        } else {
+            logEntry.error = isAbortError(error) ? 'Cancelled by user' : error instanceof Error ? error.message : String(error);
+        }
+        this.logGeminiInteraction(logEntry);
+    }
+
+    private initializeGeminiAPI() {
+        const profile = this.getActiveKeyProfile();
+        const apiKey = this.secrets.get(geminiKeyName(profile));
+        if (apiKey) {
+            this.genAI = new GoogleGenerativeAI(apiKey);
+        } else {
+            this.genAI = null;
+            console.warn('Gemini API Key is not set. Plugin features will be disabled.');
+        }
+
+        // LLM 제공자 초기화
+        this.providers.gemini = this.genAI ? new GeminiProvider(this.genAI, profile.geminiModel) : null;
+        const { baseUrl, model } = this.settings.openAICompatible;
+        this.providers.openai = baseUrl && model ? new OpenAICompatibleProvider(baseUrl, this.secrets.get(OPENAI_KEY_NAME), model) : null;
+    }
+
+    // 기능에 지정된 제공자 타입 (지정이 없으면 기본 제공자)
+    getProviderType(feature: LLMFeature): LLMProviderType {
+        return this.settings.featureProviders[feature] ?? this.settings.defaultProvider;
+    }
+
+    // notify가 false이면 실패 알림을 표시하지 않고 error로만 반환 (일괄 작업용)
+    // attachments: 프롬프트와 함께 보낼 이미지나 PDF (민감 정보 가리기는 텍스트에만 적용)
+    private async generateContent(prompt: string, feature: LLMFeature, signal?: AbortSignal, options?: LLMGenerationOptions, notify = true, attachments?: LLMInlineData[]): Promise<{ text: string | null, error?: string }> {
+        const providerType = this.getProviderType(feature);
+        const provider = this.providers[providerType];
+        if (!provider) {
+            const message = providerType === 'gemini'
+                ? 'Gemini API Key is not configured.'
+                : 'OpenAI 호환 엔드포인트(Base URL, 모델)가 설정되지 않았습니다.';
+            if (notify) new Notice(message);
+            return { text: null, error: message };
+        }
+
+        if (!this.checkTokenBudget(estimateTokens(prompt) + (attachments?.length ?? 0) * ATTACHMENT_TOKEN_ESTIMATE)) {
+            return { text: null, error: '토큰 예산을 초과했습니다.' };
+        }
+
+        // 민감 정보는 자리표시자로 바꿔 보내고 응답에서 원래 값으로 되돌림
+        // 로그에는 실제로 주고받은 내용(자리표시자 포함)을 기록합니다.
+        const redaction = this.privacyGuard.createRedaction();
+        const sentPrompt = redaction.apply(prompt);
+        const sentOptions = options?.systemInstruction ? { ...options, systemInstruction: redaction.apply(options.systemInstruction) } : options;
+
+        let responseText: string | null = null;
+        const logEntry: GeminiLogEntry = {
+            timestamp: new Date().toISOString(),
+            provider: provider.type,
+            feature,
+            model: options?.model || provider.model,
+            // 첨부 파일은 내용 대신 이름과 형식만 기록
+            inputPrompt: attachments?.length
+                ? `${sentPrompt}\n\n[첨부: ${attachments.map(attachment => `${attachment.name} (${attachment.mimeType})`).join(', ')}]`
+                : sentPrompt,
+            outputResponse: null,
+            inputTokens: undefined,
+            outputTokens: undefined,
+            error: undefined,
+            redactions: redaction.count > 0 ? redaction.summary() : undefined
+        };
+
+        try {
+            const result = await this.scheduler.schedule(
+                requestSignal => provider.generate({ prompt: sentPrompt, signal: requestSignal, options: sentOptions, attachments }),
+                { signal }
+            );
+            // JSON 응답은 되돌린 값이 문자열 안에 들어가도록 이스케이프
+            responseText = redaction.restore(result.text, options?.responseSchema ? value => JSON.stringify(value).slice(1, -1) : undefined);
+            logEntry.outputResponse = result.text;
+            await this.recordTokenUsage(provider, logEntry, result.inputTokens, result.outputTokens, signal);
+            this.logGeminiInteraction(logEntry);
+            return { text: responseText };
+
+        } catch (error) {
+            if (isAbortError(error)) {
+                logEntry.error = 'Cancelled by user';
+                // 인라인 자동 완성은 입력할 때마다 이전 요청을 취소하므로 로그에 남기지 않음
+                if (feature !== 'inlineCompletion') this.logGeminiInteraction(logEntry);
+                return { text: null, error: logEntry.error };
+            }
+            console.error('LLM API Error:', error);
+            logEntry.error = error instanceof Error ? error.message : String(error);
+            this.logGeminiInteraction(logEntry);
+            if (notify) new Notice(`${provider.type === 'gemini' ? 'Gemini' : 'OpenAI-compatible'} API call failed. See console for details.`);
+            return { text: null, error: logEntry.error };
+        }
+    }
+
+    // 스키마에 맞는 JSON 응답 생성
+    // 응답이 JSON이 아니거나 스키마와 맞지 않으면 검증 오류를 알려 주고 한 번만 다시 요청합니다.
+    private async generateStructured<T>(prompt: string, feature: LLMFeature, schema: JsonSchema, signal?: AbortSignal, options?: LLMGenerationOptions, notify = true): Promise<T | null> {
+        const structuredOptions: LLMGenerationOptions = { ...options, responseSchema: schema };
+        let request = prompt;
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const response = await this.generateContent(request, feature, signal, structuredOptions, notify);
+            if (!response.text) return null;
+            try {
+                return parseStructuredOutput<T>(response.text, schema);
+            } catch (error) {
+                if (!(error instanceof StructuredOutputError)) throw error;
+                console.error(`구조화된 응답 검증 오류 (${feature}):`, error.message);
+                request = `${prompt}\n\n이전 응답이 요구한 JSON 형식과 맞지 않았습니다.\n\n이전 응답:\n${response.text}\n\n검증 오류:\n${error.message}\n\n오류를 고쳐 스키마에 맞는 JSON만 다시 응답해 주세요.`;
+            }
+        }
+        return null;
+    }
+
+    // 응답을 토큰 단위로 받아 에디터에 실시간 삽입
+    // replace: 선택 영역을 대체, insertAfter: 선택 영역(또는 커서) 뒤에 삽입
+    async streamIntoEditor(editor: Editor, prompt: string, feature: LLMFeature, mode: 'replace' | 'insertAfter', options?: LLMGenerationOptions): Promise<string | null> {
+        if (this.activeStream) {
+            new Notice('이미 생성 중인 응답이 있습니다. 먼저 취소하거나 완료될 때까지 기다리세요.');
+            return null;
+        }
+
+        const providerType = this.getProviderType(feature);
+        const provider = this.providers[providerType];
+        if (!provider) {
+            new Notice(providerType === 'gemini'
+                ? 'Gemini API Key is not configured.'
+                : 'OpenAI 호환 엔드포인트(Base URL, 모델)가 설정되지 않았습니다.');
+            return null;
+        }
+
+        if (!this.checkTokenBudget(estimateTokens(prompt))) {
+            return null;
+        }
+
+        const redaction = this.privacyGuard.createRedaction();
+        const sentPrompt = redaction.apply(prompt);
+        const sentOptions = options?.systemInstruction ? { ...options, systemInstruction: redaction.apply(options.systemInstruction) } : options;
+
+        const from = editor.getCursor('from');
+        const to = editor.getCursor('to');
+        const session = mode === 'replace'
+            ? new EditorStreamSession(editor, from, to)
+            : new EditorStreamSession(editor, to, to, editor.somethingSelected() ? '\n\n' : '');
+        this.activeStream = session;
+        this.streamStatusEl.setText('✨ Gemini 생성 중… (클릭하여 취소)');
+        this.streamStatusEl.show();
+
+        const logEntry: GeminiLogEntry = {
+            timestamp: new Date().toISOString(),
+            provider: provider.type,
+            feature,
+            model: options?.model || provider.model,
+            inputPrompt: sentPrompt,
+            outputResponse: null,
+            inputTokens: undefined,
+            outputTokens: undefined,
+            error: undefined,
+            redactions: redaction.count > 0 ? redaction.summary() : undefined
+        };
+
+        try {
+            // 부분 삽입 후 재시도하면 내용이 중복되므로 스트리밍은 재시도/타임아웃 없이 실행
+            const result = await this.scheduler.schedule(
+                requestSignal => provider.generateStream({ prompt: sentPrompt, options: sentOptions }, {
+                    onToken: (token) => session.append(token),
+                    signal: requestSignal
+                }),
+                { signal: session.signal, maxRetries: 0, timeout: false }
+            );
+            if (session.isFinished) {
+                // 스트림 도중 취소됨
+                logEntry.outputResponse = session.text;
+                logEntry.error = 'Cancelled by user';
+                return null;
+            }
+            // 스트리밍 중에는 자리표시자가 보이고 완료되면 원래 값으로 바뀜
+            const text = redaction.restore(result.text);
+            session.complete(text);
+            logEntry.outputResponse = result.text;
+            await this.recordTokenUsage(provider, logEntry, result.inputTokens, result.outputTokens);
+            return text;
+        } catch (error) {
+            logEntry.outputResponse = session.text || null;
+            if (session.signal.aborted) {
+                logEntry.error = 'Cancelled by user';
+            } else {
+                console.error('LLM API Error:', error);
+                logEntry.error = error instanceof Error ? error.message : String(error);
+                session.cancel();
+                new Notice(`${provider.type === 'gemini' ? 'Gemini' : 'OpenAI-compatible'} API call failed. See console for details.`);
+            }
+            return null;
+        } finally {
+            this.activeStream = null;
+            this.streamStatusEl.hide();
+            this.logGeminiInteraction(logEntry);
+        }
+    }
+
+    // 호출 전 토큰 예산 확인 (차단 모드에서 초과하면 false)
+    checkTokenBudget(estimatedTokens: number): boolean {
+        const { dailyTokenBudget, monthlyTokenBudget, budgetAction } = this.settings.usageSettings;
+        const exceeded = this.usageTracker.checkBudget(estimatedTokens, dailyTokenBudget, monthlyTokenBudget);
+        if (!exceeded) return true;
+
+        const periodLabel = exceeded.period === 'daily' ? '일일' : '월간';
+        const message = `${periodLabel} 토큰 예산을 초과합니다 (${exceeded.used.toLocaleString()} / ${exceeded.limit.toLocaleString()} 토큰).`;
+        if (budgetAction === 'block') {
+            new Notice(`${message} 요청이 차단되었습니다.`);
+            return false;
+        }
+
+        const warningKey = `${exceeded.period}:${new Date().toISOString().substring(0, exceeded.period === 'daily' ? 10 : 7)}`;
+        if (this.budgetWarningKey !== warningKey) {
+            this.budgetWarningKey = warningKey;
+            new Notice(message);
+        }
+        return true;
+    }
+
+    // 대화 기록과 함께 메시지를 보내고 응답을 토큰 단위로 전달
+    // systemInstruction에는 첨부된 노트 컨텍스트가 들어갑니다.
+    async streamChat(
+        history: LLMChatMessage[],
+        prompt: string,
+        systemInstruction: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        const providerType = this.getProviderType('chat');
+        const provider = this.providers[providerType];
+        if (!provider) {
+            new Notice(providerType === 'gemini'
+                ? 'Gemini API Key is not configured.'
+                : 'OpenAI 호환 엔드포인트(Base URL, 모델)가 설정되지 않았습니다.');
+            return null;
+        }
+
+        const estimated = estimateTokens(systemInstruction + prompt) + history.reduce((sum, message) => sum + estimateTokens(message.text), 0);
+        if (!this.checkTokenBudget(estimated)) {
+            return null;
+        }
+
+        // 대화 기록까지 같은 자리표시자로 가림
+        const redaction = this.privacyGuard.createRedaction();
+        const sentInstruction = redaction.apply(systemInstruction);
+        const sentHistory = history.map(message => ({ ...message, text: redaction.apply(message.text) }));
+        const sentPrompt = redaction.apply(prompt);
+
+        let received = '';
+        const logEntry: GeminiLogEntry = {
+            timestamp: new Date().toISOString(),
+            provider: provider.type,
+            feature: 'chat',
+            model: provider.model,
+            inputPrompt: sentInstruction ? `${sentInstruction}\n\n${sentPrompt}` : sentPrompt,
+            outputResponse: null,
+            inputTokens: undefined,
+            outputTokens: undefined,
+            error: undefined,
+            redactions: redaction.count > 0 ? redaction.summary() : undefined
+        };
+
+        try {
+            const result = await this.scheduler.schedule(
+                requestSignal => provider.chat({ prompt: sentPrompt, history: sentHistory, options: { systemInstruction: sentInstruction } }, {
+                    onToken: (token) => {
+                        received += token;
+                        onToken(token);
+                    },
+                    signal: requestSignal
+                }),
+                { signal, maxRetries: 0, timeout: false }
+            );
+            logEntry.outputResponse = result.text;
+            await this.recordTokenUsage(provider, logEntry, result.inputTokens, result.outputTokens);
+            return redaction.restore(result.text);
+        } catch (error) {
+            logEntry.outputResponse = received || null;
+            if (isAbortError(error) || signal?.aborted) {
+                logEntry.error = 'Cancelled by user';
+            } else {
+                console.error('LLM API Error:', error);
+                logEntry.error = error instanceof Error ? error.message : String(error);
+                new Notice(`${provider.type === 'gemini' ? 'Gemini' : 'OpenAI-compatible'} API call failed. See console for details.`);
+            }
+            return null;
+        } finally {
+            this.logGeminiInteraction(logEntry);
+        }
+    }
+
+    // 질문과 관련된 노트를 임베딩 유사도로 검색
+    async retrieveRelevantNotes(query: string, limit: number, signal?: AbortSignal): Promise<TFile[]> {
+        try {
+            const results = await this.embeddingStore.search(query, await this.graphScope.files(), limit, signal);
+            return results
+                .filter(result => result.score >= this.settings.knowledgeGraphSettings.minSimilarityScore)
+                .map(result => result.file);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.error('관련 노트 검색 오류:', error);
+            new Notice('관련 노트 검색에 실패했습니다. 콘솔을 확인하세요.');
+            return [];
+        }
+    }
+
+    // 응답의 사용량 정보로 로그 항목을 채우고 누적 (없으면 countTokens로 계산)
+    private async recordTokenUsage(
+        provider: LLMProvider,
+        logEntry: GeminiLogEntry,
+        inputTokens: number | undefined,
+        outputTokens: number | undefined,
+        signal?: AbortSignal
+    ): Promise<void> {
+        try {
+            if (inputTokens === undefined) {
+                inputTokens = await this.scheduler.schedule(s => provider.countTokens(logEntry.inputPrompt, s), { signal });
+            }
+            if (outputTokens === undefined && logEntry.outputResponse) {
+                const output = logEntry.outputResponse;
+                outputTokens = await this.scheduler.schedule(s => provider.countTokens(output, s), { signal });
+            }
+        } catch (error) {
+            console.warn('토큰 수 계산 실패, 추정치를 사용합니다:', error);
+            inputTokens = inputTokens ?? estimateTokens(logEntry.inputPrompt);
+            outputTokens = outputTokens ?? estimateTokens(logEntry.outputResponse ?? '');
+        }
+
+        logEntry.inputTokens = inputTokens;
+        logEntry.outputTokens = outputTokens ?? 0;
+        this.usageTracker.record(logEntry.model, logEntry.feature ?? 'unknown', logEntry.inputTokens, logEntry.outputTokens);
+    }
+
+    // 진행 중인 스트리밍을 중단하고 부분 삽입을 되돌림
+    cancelStreaming() {
+        if (!this.activeStream) return;
+        this.activeStream.cancel();
+        new Notice('응답 생성이 취소되었습니다.');
+    }
+
+    private logGeminiInteraction(logEntry: GeminiLogEntry) {
+        this.logStore.add(logEntry);
+    }
+
+    // 이전 버전에서 설정(data.json)에 저장하던 로그를 로그 저장소로 옮김
+    private async migrateLegacyLogHistory() {
+        const legacySettings = this.settings as GeminiCopilotSettings & { logHistory?: GeminiLogEntry[] };
+        if (!legacySettings.logHistory) return;
+
+        legacySettings.logHistory.forEach(entry => this.logStore.add(entry));
+        delete legacySettings.logHistory;
+        await this.saveSettings();
+        await this.logStore.flush();
+    }
+
+    // 상호작용 로그 뷰 열기 (이미 열려 있으면 해당 뷰로 이동)
+    async activateLogView() {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_GEMINI_LOG);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+        const leaf = this.app.workspace.getLeaf('tab');
+        await leaf.setViewState({ type: VIEW_TYPE_GEMINI_LOG, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    // 채팅 패널 열기 (오른쪽 사이드바)
+    async activateChatView(): Promise<GeminiChatView | null> {
+        let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_GEMINI_CHAT)[0];
+        if (!leaf) {
+            const rightLeaf = this.app.workspace.getRightLeaf(false);
+            if (!rightLeaf) return null;
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: VIEW_TYPE_GEMINI_CHAT, active: true });
+        }
+        this.app.workspace.revealLeaf(leaf);
+        return leaf.view instanceof GeminiChatView ? leaf.view : null;
+    }
+
+    sanitizeFilename(filename: string): string {
+        const invalidCharsRegex = /[*"\\\/<>:|?]/g;
+        return filename.replace(invalidCharsRegex, '_');
+    }
+
+    // 선택 영역(없으면 노트 전체)으로 만들 수 있는 요청 목록
+    private payloadPreviewTargets(text: string, selection: string, file: TFile | null): PayloadPreviewTarget[] {
+        const templates = this.settings.promptTemplates;
+        return [
+            { name: '요약', feature: 'summarizeText', template: templates.summarizeText, variables: { content: text, selection: text }, condense: true },
+            { name: '확장', feature: 'expandText', template: templates.expandText, variables: { content: text, selection: text }, condense: false },
+            { name: '해시태그 생성', feature: 'generateHashtags', template: templates.generateHashtags, variables: { content: text }, condense: true },
+            {
+                name: '제목 생성',
+                feature: 'generateTitle',
+                template: templates.generateTitle,
+                variables: { content: text, currentTitle: file ? ` using current title: ${file.basename}` : '' },
+                condense: true
+            },
+            ...this.settings.customPrompts.map(prompt => ({
+                name: `커스텀 프롬프트: ${prompt.name}`,
+                feature: 'customPrompt' as LLMFeature,
+                template: prompt.prompt,
+                variables: { content: text, selection },
+                condense: false,
+                options: this.getCustomPromptOptions(prompt)
+            }))
+        ];
+    }
+
+    // 실제 요청과 같은 방식으로 프롬프트를 만들고 민감 정보를 가려 보여줌
+    // 긴 내용은 먼저 보내는 조각별 요약 요청을 보여줍니다 (마지막 요청은 그 요약으로 만들어짐).
+    private async previewPayload(target: PayloadPreviewTarget, file: TFile | null): Promise<void> {
+        const content = target.variables.content ?? '';
+        const chunks = target.condense ? await this.planChunks(content, target.feature, target.template) : null;
+        const prompts: string[] = [];
+        if (chunks) {
+            for (const chunk of chunks) {
+                const prompt = await this.renderPrompt(this.settings.promptTemplates.summarizeText, { content: chunk.text, selection: chunk.text }, file);
+                if (prompt === null) return;
+                prompts.push(prompt);
+            }
+        } else {
+            const prompt = await this.renderPrompt(target.template, target.variables, file);
+            if (prompt === null) return;
+            prompts.push(prompt);
+        }
+
+        // 실제 요청과 같은 순서(프롬프트, 시스템 지침)로 가림
+        const redaction = this.privacyGuard.createRedaction();
+        const sentPrompts = prompts.map(prompt => redaction.apply(prompt));
+        const instruction = target.options?.systemInstruction ? redaction.apply(target.options.systemInstruction) : '';
+        const text = sentPrompts
+            .map(prompt => instruction ? `${instruction}\n\n${prompt}` : prompt)
+            .join('\n\n---\n\n');
+        const title = [file?.basename, target.name].filter(Boolean).join(' · ') + (chunks ? ` (조각 ${chunks.length}개 요약 요청)` : '');
+        new RedactionPreviewModal(this.app, title, text, redaction.entries()).open();
+    }
+
+    // 프롬프트 템플릿 렌더링 (오류 시 알림을 표시하고 null 반환)
+    async renderPrompt(template: string, variables: Record<string, string | undefined>, file: TFile | null = this.app.workspace.getActiveFile()): Promise<string | null> {
+        try {
+            return await this.templateEngine.render(template, { file, variables });
+        } catch (error) {
+            console.error('프롬프트 템플릿 오류:', error);
+            new Notice(`프롬프트 템플릿 오류: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    async generateNoteTitle(content: string, currentTitle: string | undefined): Promise<string | null> {
+        const template = this.settings.promptTemplates.generateTitle;
+        const condensed = await this.condenseLongContent(content, 'generateTitle', template);
+        if (condensed === null) return null;
+        const prompt = await this.renderPrompt(template, {
+            content: condensed,
+            currentTitle: currentTitle ? ` using current title: ${currentTitle}` : ''
+        });
+        if (prompt === null) return null;
+
+        const response = await this.generateContent(prompt, 'generateTitle');
+        return response.text;
+    }
+
+    async summarizeText(text: string): Promise<string | null> {
+        // 긴 텍스트는 부분 요약을 모은 뒤 마지막으로 한 번 더 요약
+        const template = this.settings.promptTemplates.summarizeText;
+        const condensed = await this.condenseLongContent(text, 'summarizeText', template);
+        if (condensed === null) return null;
+        const prompt = await this.renderPrompt(template, { content: condensed, selection: text });
+        if (prompt === null) return null;
+
+        const response = await this.generateContent(prompt, 'summarizeText');
+        return response.text;
+    }
+
+    async generateAdditionalText(text: string): Promise<string | null> {
+        const prompt = await this.renderPrompt(this.settings.promptTemplates.expandText, { content: text, selection: text });
+        if (prompt === null) return null;
+
+        const response = await this.generateContent(prompt, 'expandText');
+        return response.text;
+    }
+
+    async generateHashtags(text: string): Promise<string | null> {
+        const template = this.settings.promptTemplates.generateHashtags;
+        const condensed = await this.condenseLongContent(text, 'generateHashtags', template);
+        if (condensed === null) return null;
+        const prompt = await this.renderPrompt(template, { content: condensed });
+        if (prompt === null) return null;
+
+        const response = await this.generateContent(prompt, 'generateHashtags');
+        return response.text;
+    }
+
+    // 한 번에 보내기에 너무 긴 내용을 조각으로 나눌지 결정 (나눌 필요가 없으면 null)
+    // 조각 크기는 기능에 쓰는 모델의 입력 한도에서 템플릿과 응답 몫을 빼고, 설정한 최대 조각 크기를 넘지 않게 정합니다.
+    private async planChunks(content: string, feature: LLMFeature, template: string, signal?: AbortSignal): Promise<NoteChunk[] | null> {
+        const provider = this.providers[this.getProviderType(feature)];
+        const { maxChunkTokens, defaultContextTokens } = this.settings.longNoteSettings;
+
+        let inputLimit: number | null = null;
+        if (provider) {
+            try {
+                inputLimit = await this.scheduler.schedule(() => provider.getInputTokenLimit(), { signal });
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                console.warn('모델 입력 한도 조회 실패, 기본 컨텍스트 크기를 사용합니다:', error);
+            }
+        }
+        const available = (inputLimit ?? defaultContextTokens) - estimateTokens(template) - RESPONSE_RESERVE_TOKENS;
+        const budget = Math.max(MIN_CHUNK_TOKENS, Math.min(maxChunkTokens, available));
+
+        // 한도보다 확실히 짧으면 토큰 계산 요청 없이 한 번에 처리
+        const estimated = estimateTokens(content);
+        if (estimated <= budget / 2) return null;
+
+        // 한도 근처에서는 모델의 토큰 계산으로 추정치를 보정 (보내는 내용과 같도록 민감 정보를 가린 뒤 계산)
+        let ratio = 1;
+        if (provider) {
+            try {
+                const counted = await this.scheduler.schedule(s => provider.countTokens(this.privacyGuard.redact(content), s), { signal });
+                ratio = counted / Math.max(1, estimated);
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                console.warn('토큰 수 계산 실패, 추정치를 사용합니다:', error);
+            }
+        }
+        if (estimated * ratio <= budget) return null;
+        return chunkNote(content, budget, text => Math.ceil(estimateTokens(text) * ratio));
+    }
+
+    // 조각마다 worker를 실행해 결과를 순서대로 반환 (하나라도 실패하면 null)
+    // signal을 넘기지 않은 대화형 호출에서는 진행률과 취소 버튼을 표시합니다.
+    private async mapChunks(
+        chunks: NoteChunk[],
+        title: string,
+        signal: AbortSignal | undefined,
+        worker: (chunk: NoteChunk, signal: AbortSignal | undefined) => Promise<string | null>
+    ): Promise<string[] | null> {
+        const progress = signal ? null : new ProgressNotice(title);
+        const requestSignal = signal ?? progress?.signal;
+        const results: (string | null)[] = chunks.map(() => null);
+        let done = 0;
+        progress?.update(0, chunks.length, `${chunks.length}개 조각으로 나눠 처리하는 중...`);
+
+        try {
+            await runWithConcurrency(chunks, this.settings.requestSettings.maxConcurrency, async (chunk, index) => {
+                results[index] = await worker(chunk, requestSignal);
+                done++;
+                progress?.update(done, chunks.length, `${done}/${chunks.length} 조각 처리됨`);
+            }, requestSignal);
+        } finally {
+            progress?.hide();
+        }
+
+        if (requestSignal?.aborted || results.some(result => result === null)) return null;
+        return results as string[];
+    }
+
+    // 긴 내용을 제목 단위 조각으로 나눠 요약한 부분 요약 모음을 반환 (한 번에 보낼 수 있으면 그대로 반환)
+    // 호출하는 쪽은 반환값으로 원래 템플릿을 한 번 더 실행해 결과를 합칩니다.
+    // 부분 요약을 합쳐도 길면 다시 나눠 요약합니다. 실패하거나 취소되면 null
+    async condenseLongContent(
+        content: string,
+        feature: LLMFeature,
+        template: string,
+        signal?: AbortSignal,
+        file: TFile | null = this.app.workspace.getActiveFile(),
+        notify = true
+    ): Promise<string | null> {
+        let text = content;
+        for (let round = 0; round < 3; round++) {
+            const chunks = await this.planChunks(text, feature, template, signal);
+            if (!chunks) return text;
+
+            const summaries = await this.mapChunks(chunks, '긴 노트 나눠 요약', signal, async (chunk, chunkSignal) => {
+                const prompt = await this.renderPrompt(this.settings.promptTemplates.summarizeText, { content: chunk.text, selection: chunk.text }, file);
+                if (prompt === null) return null;
+                return (await this.generateContent(prompt, feature, chunkSignal, undefined, notify)).text;
+            });
+            if (!summaries) return null;
+            text = joinChunkResults(chunks, summaries);
+        }
+        return text;
+    }
+
+    // 첨부 파일을 인라인 데이터로 읽음 (지원하지 않는 형식이거나 너무 크면 오류)
+    private async readAttachment(file: TFile): Promise<LLMInlineData> {
+        const mimeType = attachmentMimeType(file);
+        if (!mimeType) {
+            throw new Error(`지원하지 않는 첨부 파일 형식입니다: ${file.extension}`);
+        }
+        if (file.stat.size > MAX_ATTACHMENT_BYTES) {
+            throw new Error(`첨부 파일이 너무 큽니다 (${(file.stat.size / 1024 / 1024).toFixed(1)}MB, 최대 ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB).`);
+        }
+        return { name: file.name, mimeType, data: arrayBufferToBase64(await this.app.vault.readBinary(file)) };
+    }
+
+    // 첨부 파일 하나를 모델에 보내 작업 결과를 받음 (실패하면 오류)
+    // note: 첨부 파일이 임베드된 노트 (템플릿의 노트 변수에 사용)
+    private async describeAttachment(file: TFile, task: AttachmentTask, note: TFile | null, signal?: AbortSignal): Promise<string> {
+        if (this.privacyGuard.isBlocked(file)) {
+            throw new Error('Gemini로 보내지 않도록 설정된 폴더의 첨부 파일입니다.');
+        }
+        const prompt = await this.templateEngine.render(this.settings.promptTemplates[ATTACHMENT_TEMPLATES[task]], {
+            file: note,
+            variables: { attachmentName: file.name }
+        });
+        const response = await this.generateContent(prompt, 'describeAttachment', signal, undefined, false, [await this.readAttachment(file)]);
+        if (!response.text?.trim()) {
+            throw new Error(response.error ?? '응답을 받지 못했습니다.');
+        }
+        return response.text.trim();
+    }
+
+    // 현재 노트에 임베드된 첨부 파일 설명 (선택한 줄에 임베드가 있으면 그 첨부 파일만)
+    async describeNoteAttachments(editor: Editor, note: TFile, task: AttachmentTask): Promise<void> {
+        const label = ATTACHMENT_TASKS[task];
+        if (this.privacyGuard.isBlocked(note)) {
+            new Notice(`"${note.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있습니다. (gemini: never)`);
+            return;
+        }
+
+        const matches = (attachment: EmbeddedAttachment) => tasksFor(attachment.file).includes(task);
+        const selected = embeddedAttachments(this.app, note, { from: editor.getCursor('from').line, to: editor.getCursor('to').line }).filter(matches);
+        const targets = selected.length > 0 ? selected : embeddedAttachments(this.app, note).filter(matches);
+        if (targets.length === 0) {
+            new Notice(`${label}을(를) 만들 수 있는 첨부 파일이 노트에 없습니다. (${task === 'summarizePdf' ? 'PDF' : task === 'ocr' ? '이미지, PDF' : '이미지'})`);
+            return;
+        }
+
+        // 여러 개면 진행률과 취소 버튼 표시
+        const progress = targets.length > 1 ? new ProgressNotice(`첨부 파일 ${label} 생성 중`) : null;
+        if (!progress) new Notice(`${targets[0].file.name}: ${label} 생성 중...`);
+        const results: { target: EmbeddedAttachment; text: string }[] = [];
+        const failures: string[] = [];
+        let done = 0;
+        progress?.update(0, targets.length, `${targets.length}개 첨부 파일 처리 중...`);
+
+        try {
+            await runWithConcurrency(targets, this.settings.requestSettings.maxConcurrency, async (target) => {
+                try {
+                    results.push({ target, text: await this.describeAttachment(target.file, task, note, progress?.signal) });
+                } catch (error) {
+                    console.error(`첨부 파일 ${target.file.path} 처리 오류:`, error);
+                    failures.push(`${target.file.name}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+                done++;
+                progress?.update(done, targets.length, `${done}/${targets.length} 첨부 파일 처리됨`);
+            }, progress?.signal);
+        } catch (error) {
+            if (!isAbortError(error)) throw error;
+        } finally {
+            progress?.hide();
+        }
+
+        if (results.length > 0) {
+            await this.writeAttachmentResults(note, task, results);
+        }
+        if (progress?.cancelled) {
+            new Notice(`첨부 파일 ${label} 생성이 취소되었습니다. (${results.length}/${targets.length}개 반영됨)`);
+        } else if (failures.length > 0) {
+            new Notice(`${label} 생성 실패 ${failures.length}개:\n${failures.join('\n')}`, 10000);
+        } else {
+            new Notice(`첨부 파일 ${results.length}개의 ${label}을(를) 반영했습니다.`);
+        }
+    }
+
+    // 파일 탐색기에서 고른 첨부 파일 설명 (결과는 항상 설명 노트에 기록)
+    async describeAttachmentFile(file: TFile, task: AttachmentTask): Promise<void> {
+        const label = ATTACHMENT_TASKS[task];
+        new Notice(`${file.name}: ${label} 생성 중...`);
+        try {
+            const text = await this.describeAttachment(file, task, null);
+            const companion = await this.writeCompanionNote(file, task, text, null);
+            new Notice(`${label}을(를) "${companion.path}"에 기록했습니다.`);
+        } catch (error) {
+            console.error(`첨부 파일 ${file.path} 처리 오류:`, error);
+            new Notice(`${label} 생성 실패: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // 설정한 방식으로 결과 반영 (임베드 옆 또는 첨부 파일 설명 노트)
+    private async writeAttachmentResults(note: TFile, task: AttachmentTask, results: { target: EmbeddedAttachment; text: string }[]): Promise<void> {
+        const label = ATTACHMENT_TASKS[task];
+        try {
+            if (this.settings.attachmentSettings.output === 'companionNote') {
+                for (const { target, text } of results) {
+                    await this.writeCompanionNote(target.file, task, text, note);
+                }
+                return;
+            }
+
+            let missing = 0;
+            await this.app.vault.process(note, (content) => {
+                // 아래쪽 임베드부터 반영해 위쪽 임베드의 줄 번호가 바뀌지 않게 함
+                return [...results]
+                    .sort((a, b) => b.target.line - a.target.line)
+                    .reduce((updated, { target, text }) => {
+                        const next = task === 'altText'
+                            ? applyAltText(updated, target, text)
+                            : insertBesideEmbed(updated, target, label, text);
+                        if (next === null) missing++;
+                        return next ?? updated;
+                    }, content);
+            });
+            if (missing > 0) {
+                new Notice(`임베드를 찾지 못해 ${missing}개의 결과를 반영하지 못했습니다. 노트를 저장한 뒤 다시 실행하세요.`);
+            }
+        } catch (error) {
+            console.error('첨부 파일 설명 반영 오류:', error);
+            new Notice(`${label} 반영 오류: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // 첨부 파일 설명 노트에 작업 결과 기록 (노트가 없으면 만들고, 있으면 같은 작업 구역을 갱신)
+    private async writeCompanionNote(file: TFile, task: AttachmentTask, text: string, source: TFile | null): Promise<TFile> {
+        const label = ATTACHMENT_TASKS[task];
+        const existing = this.app.vault.getMarkdownFiles()
+            .find(note => this.app.metadataCache.getFileCache(note)?.frontmatter?.[ATTACHMENT_FRONTMATTER_KEY] === file.path);
+        if (existing) {
+            await this.app.vault.process(existing, content => updateCompanionSection(content, label, text));
+            return existing;
+        }
+
+        const folder = this.settings.attachmentSettings.companionFolder.replace(/\/+$/, '');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        let path = `${folder ? folder + '/' : ''}${file.name}.md`;
+        for (let index = 2; this.app.vault.getAbstractFileByPath(path); index++) {
+            path = `${folder ? folder + '/' : ''}${file.name} ${index}.md`;
+        }
+        const linkText = this.app.metadataCache.fileToLinktext(file, path, false);
+        const sourceLink = source ? this.app.metadataCache.fileToLinktext(source, path, true) : null;
+        return await this.app.vault.create(path, updateCompanionSection(renderCompanionNote(file, linkText, sourceLink), label, text));
+    }
+
+    // 노트의 프론트매터 설정을 먼저 따르고, 없으면 자동 완성 폴더에 속하는지 확인
+    private autocompleteScopeIncludes(file: TFile): boolean {
+        const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[AUTOCOMPLETE_FRONTMATTER_KEY];
+        if (typeof value === 'boolean') return value;
+        return this.settings.autocompleteSettings.folders.some(glob => globToRegExp(glob).test(file.path));
+    }
+
+    isAutocompleteEnabled(file: TFile): boolean {
+        if (!this.settings.autocompleteSettings.enabled || !this.providers[this.getProviderType('inlineCompletion')]) return false;
+        return !this.privacyGuard.isBlocked(file) && this.autocompleteScopeIncludes(file);
+    }
+
+    async toggleAutocompleteForNote(file: TFile): Promise<void> {
+        const enabled = !this.autocompleteScopeIncludes(file);
+        if (enabled && this.privacyGuard.isBlocked(file)) {
+            new Notice(`"${file.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있습니다. (gemini: never)`);
+            return;
+        }
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                frontmatter[AUTOCOMPLETE_FRONTMATTER_KEY] = enabled;
+            });
+        } catch (error) {
+            console.error('자동 완성 설정 저장 오류:', error);
+            new Notice('노트의 프론트매터를 수정하지 못했습니다.');
+            return;
+        }
+        new Notice(`"${file.basename}" 노트에서 인라인 자동 완성을 ${enabled ? '켰습니다' : '껐습니다'}.`
+            + (enabled && !this.settings.autocompleteSettings.enabled ? ' 설정에서 자동 완성이 꺼져 있어 켜야 동작합니다.' : ''));
+    }
+
+    async toggleAutocompleteForFolder(glob: string): Promise<void> {
+        const settings = this.settings.autocompleteSettings;
+        const enabled = !settings.folders.includes(glob);
+        settings.folders = enabled ? [...settings.folders, glob] : settings.folders.filter(folder => folder !== glob);
+        await this.saveSettings();
+        new Notice(`"${glob === '**' ? '/' : glob}" 폴더에서 인라인 자동 완성을 ${enabled ? '켰습니다' : '껐습니다'}. 노트에 ${AUTOCOMPLETE_FRONTMATTER_KEY} 속성이 있으면 그 설정을 따릅니다.`);
+    }
+
+    // 인라인 자동 완성 제안 (실패해도 알림 없이 null, 취소되지 않은 요청만 상호작용 로그에 기록)
+    private async completeInline(request: GhostTextRequest, signal: AbortSignal): Promise<string | null> {
+        let prompt: string;
+        try {
+            prompt = await this.templateEngine.render(this.settings.promptTemplates.inlineCompletion, {
+                file: request.file,
+                variables: { textBefore: request.before, textAfter: request.after, headingPath: request.headingPath }
+            });
+        } catch (error) {
+            console.error('인라인 자동 완성 템플릿 오류:', error);
+            return null;
+        }
+
+        // 예산 초과로 차단될 요청은 입력할 때마다 알림을 띄우지 않고 건너뜀
+        const { dailyTokenBudget, monthlyTokenBudget, budgetAction } = this.settings.usageSettings;
+        if (budgetAction === 'block' && this.usageTracker.checkBudget(estimateTokens(prompt), dailyTokenBudget, monthlyTokenBudget)) {
+            return null;
+        }
+
+        const settings = this.settings.autocompleteSettings;
+        const response = await this.generateContent(prompt, 'inlineCompletion', signal, {
+            model: settings.model || undefined,
+            maxOutputTokens: settings.maxOutputTokens,
+            temperature: 0.2
+        }, false);
+        return response.text ? cleanCompletion(response.text, request.before) : null;
+    }
+
+    // 태그, 별칭, 요약, 사용자 속성을 생성해 프론트매터에 기록
+    // 바뀌는 항목을 미리 보여주고 선택한 항목만 적용합니다.
+    async generateMetadata(file: TFile): Promise<void> {
+        new Notice('메타데이터를 생성하는 중입니다...');
+        let changes: MetadataFieldChange[];
+        try {
+            changes = await this.planNoteMetadata(file, collectVaultTags(this.app));
+        } catch (error) {
+            new Notice(`메타데이터 생성 실패: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (changes.length === 0) {
+            new Notice('추가하거나 바꿀 메타데이터가 없습니다.');
+            return;
+        }
+
+        new MetadataPreviewModal(this.app, file.basename, changes, async selected => {
+            try {
+                await this.applyMetadataChanges(file, selected);
+                new Notice(`${selected.length}개 메타데이터 항목을 적용했습니다.`);
+            } catch (error) {
+                console.error('메타데이터 적용 오류:', error);
+                new Notice(`메타데이터 적용 오류: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }).open();
+    }
+
+    // 메타데이터를 생성해 현재 프론트매터와 달라지는 항목 계산 (실패하면 이유를 담은 오류 발생)
+    private async planNoteMetadata(file: TFile, vocabulary: TagVocabulary, signal?: AbortSignal, notify = true): Promise<MetadataFieldChange[]> {
+        const body = this.noteBody(file, await this.app.vault.read(file));
+        if (!body) {
+            throw new Error('노트 내용이 비어있습니다.');
+        }
+
+        const settings = this.settings.metadataSettings;
+        const template = this.settings.promptTemplates.generateMetadata;
+        const content = await this.condenseLongContent(body, 'generateMetadata', template, signal, file, notify);
+        if (content === null) {
+            throw new Error('긴 노트를 나눠 요약하지 못했습니다. 상호작용 로그를 확인하세요.');
+        }
+        const prompt = await this.templateEngine.render(template, {
+            file,
+            variables: {
+                content,
+                vaultTags: topVaultTags(vocabulary).join(', '),
+                metadataProperties: Object.keys(settings.properties).map(name => `  - ${name}: ${settings.properties[name]}`).join('\n')
+            }
+        });
+
+        const generated = await this.generateStructured<GeneratedMetadata>(prompt, 'generateMetadata', buildMetadataSchema(settings), signal, undefined, notify);
+        if (!generated) {
+            throw new Error('응답을 받지 못했거나 형식이 맞지 않습니다. 상호작용 로그를 확인하세요.');
+        }
+
+        // 생성하는 동안 프론트매터가 바뀌었을 수 있으므로 최신 캐시와 비교
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return planMetadataChanges(frontmatter, generated, vocabulary, file.basename, settings);
+    }
+
+    private async applyMetadataChanges(file: TFile, changes: MetadataFieldChange[]): Promise<void> {
+        await this.app.fileManager.processFrontMatter(file, data => {
+            changes.forEach(change => data[change.key] = change.after);
+        });
+    }
+
+    // 프론트매터를 뺀 노트 본문
+    private noteBody(file: TFile, content: string): string {
+        const frontmatterEnd = this.app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset ?? 0;
+        return content.substring(frontmatterEnd).trim();
+    }
+
+    async runCustomPrompt(customPrompt: CustomPrompt, text: string): Promise<string | null> {
+        const prompt = await this.renderPrompt(customPrompt.prompt, { content: text, selection: text });
+        if (prompt === null) return null;
+
+        return this.generateCustomPromptResult(customPrompt, prompt);
+    }
+
+    // 출력 스키마가 있으면 검증된 JSON을 코드 블록으로 반환
+    private async generateCustomPromptResult(customPrompt: CustomPrompt, prompt: string, signal?: AbortSignal, notify = true): Promise<string | null> {
+        const options = this.getCustomPromptOptions(customPrompt);
+        let schema: JsonSchema | null;
+        try {
+            schema = parseSchemaDefinition(customPrompt.outputSchema ?? '');
+        } catch (error) {
+            if (notify) new Notice(`'${customPrompt.name}'의 출력 스키마가 올바르지 않습니다: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+
+        if (!schema) {
+            const response = await this.generateContent(prompt, 'customPrompt', signal, options, notify);
+            return response.text;
+        }
+        const value = await this.generateStructured<unknown>(prompt, 'customPrompt', schema, signal, options, notify);
+        if (value === null) {
+            if (notify) new Notice(`'${customPrompt.name}'의 응답이 출력 스키마와 맞지 않습니다. 콘솔을 확인하세요.`);
+            return null;
+        }
+        return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+    }
+
+    getCustomPromptOptions(customPrompt: CustomPrompt): LLMGenerationOptions {
+        return {
+            model: customPrompt.model || undefined,
+            temperature: customPrompt.temperature,
+            maxOutputTokens: customPrompt.maxOutputTokens,
+            systemInstruction: customPrompt.systemInstruction || undefined
+        };
+    }
+
+    // 커스텀 프롬프트마다 명령어를 등록 (설정이 바뀔 때마다 다시 등록)
+    private syncCustomPromptCommands() {
+        this.customPromptCommandIds.forEach(id => this.removeCommand(id));
+        this.customPromptCommandIds = [];
+
+        this.settings.customPrompts.forEach(customPrompt => {
+            const id = `custom-prompt-${customPrompt.id}`;
+            this.addCommand({
+                id,
+                name: `Custom Prompt: ${customPrompt.name || '(이름 없음)'}`,
+                editorCallback: (editor: Editor, view: MarkdownView) => this.executeCustomPrompt(customPrompt, editor, view)
+            });
+            this.customPromptCommandIds.push(id);
+        });
+    }
+
+    // 선택 영역(없으면 노트 전체)으로 커스텀 프롬프트를 실행하고 출력 방식에 따라 결과 반영
+    async executeCustomPrompt(customPrompt: CustomPrompt, editor: Editor, view: MarkdownView): Promise<void> {
+        const selection = editor.getSelection();
+        const text = selection || editor.getValue();
+        if (!text.trim()) {
+            new Notice('프롬프트에 사용할 내용이 없습니다.');
+            return;
+        }
+
+        const prompt = await this.renderPrompt(customPrompt.prompt, { content: text, selection }, view.file);
+        if (prompt === null) return;
+        const options = this.getCustomPromptOptions(customPrompt);
+
+        // 에디터에 바로 반영하는 방식은 스트리밍으로 처리 (출력 스키마가 있으면 검증이 끝난 뒤 반영)
+        const structured = !!customPrompt.outputSchema?.trim();
+        if (!structured && (customPrompt.outputMode === 'replace' || customPrompt.outputMode === 'insertBelow')) {
+            await this.streamIntoEditor(editor, prompt, 'customPrompt', customPrompt.outputMode === 'replace' ? 'replace' : 'insertAfter', options);
+            return;
+        }
+
+        new Notice(`'${customPrompt.name}' 실행 중...`);
+        const result = await this.generateCustomPromptResult(customPrompt, prompt);
+        if (!result) return;
+
+        switch (customPrompt.outputMode) {
+            case 'replace':
+                editor.replaceSelection(result);
+                break;
+            case 'insertBelow': {
+                const to = editor.getCursor('to');
+                editor.transaction({ changes: [{ from: to, to, text: editor.somethingSelected() ? `\n\n${result}` : result }] });
+                break;
+            }
+            case 'append': {
+                const lastLine = editor.lastLine();
+                const end = { line: lastLine, ch: editor.getLine(lastLine).length };
+                editor.transaction({ changes: [{ from: end, to: end, text: `\n\n${result}` }] });
+                break;
+            }
+            case 'newNote': {
+                const title = this.sanitizeFilename(`${customPrompt.name || 'Gemini'} ${moment().format('YYYY-MM-DD HHmmss')}`);
+                await this.createNewFileWithTitle(result, title);
+                break;
+            }
+            default:
+                this.reviewEdit(editor, result, () => this.generateCustomPromptResult(customPrompt, prompt));
+        }
+    }
+
+    // 선택 영역(없으면 커서 위치)에 대한 제안을 diff로 검토한 뒤 한 번의 트랜잭션으로 반영
+    reviewEdit(editor: Editor, proposed: string, regenerate?: () => Promise<string | null>) {
+        const from = editor.posToOffset(editor.getCursor('from'));
+        const to = editor.posToOffset(editor.getCursor('to'));
+        const original = editor.getRange(editor.offsetToPos(from), editor.offsetToPos(to));
+
+        new GeminiConfirmationModal(this.app, proposed, async (confirmed) => {
+            if (confirmed === null) return;
+            // 검토하는 동안 원본이 바뀌었다면 잘못된 위치에 쓰지 않음
+            if (editor.getRange(editor.offsetToPos(from), editor.offsetToPos(to)) !== original) {
+                new Notice('검토하는 동안 원본 텍스트가 바뀌어 적용하지 않았습니다.');
+                return;
+            }
+            editor.transaction({
+                changes: [{ from: editor.offsetToPos(from), to: editor.offsetToPos(to), text: confirmed }]
+            });
+        }, { original, onRegenerate: regenerate }).open();
+    }
+
+    // 지식 그래프 생성 메서드
+    // 그래프 저장소에 없거나 분석 후 내용이 바뀐 노트만 분석합니다.
+    // folder를 지정하면 그 폴더의 노트만 분석하고, 관련 문서는 범위 안의 모든 노트에서 찾습니다.
+    async generateKnowledgeGraph(folder?: TFolder): Promise<void> {
+        const markdownFiles = await this.graphScope.files();
+        const sourceFiles = folder ? await this.graphScope.files(folder) : markdownFiles;
+        
+        if (sourceFiles.length === 0) {
+            new Notice('분석할 마크다운 파일이 없습니다. 지식 그래프 범위 설정을 확인하세요.');
+            return;
+        }
+
+        const staleFiles: TFile[] = [];
+        for (const file of sourceFiles) {
+            const content = await this.app.vault.cachedRead(file);
+            if (!this.graphStore.isFresh(file.path, content)) {
+                staleFiles.push(file);
+            }
+        }
+
+        const sourcePaths = new Set(sourceFiles.map(file => file.path));
+        const scopedRelations = () => this.graphStore.allRelations()
+            .filter(relation => sourcePaths.has(relation.sourceFile.path) && this.graphScope.includes(relation.targetFile));
+
+        if (staleFiles.length === 0) {
+            new Notice('지식 그래프가 이미 최신 상태입니다.');
+            const relations = scopedRelations();
+            new KnowledgeGraphSummaryModal(this.app, relations, await this.computeTopicClusters(relations)).open();
+            return;
+        }
+
+        // 전체 실행에 필요한 토큰을 추정해 예산 확인
+        if (!(await this.confirmKnowledgeGraphBudget(staleFiles))) return;
+
+        const totalFiles = staleFiles.length;
+        let processedFiles = 0;
+        const newRelations: DocumentRelation[] = [];
+        const progress = new ProgressNotice('지식 그래프 분석 중');
+
+        try {
+            // 변경된 노트의 임베딩을 먼저 일괄 생성
+            progress.update(0, totalFiles, '문서 임베딩 준비 중...');
+            await this.embeddingStore.ensure(markdownFiles, progress.signal);
+
+            // 각 파일을 동시 실행 한도 안에서 처리
+            await runWithConcurrency(staleFiles, this.settings.requestSettings.maxConcurrency, async (sourceFile) => {
+                try {
+                    const sourceContent = await this.app.vault.read(sourceFile);
+                    if (sourceContent.trim()) { // 빈 파일 건너뛰기
+                        // 관련 문서 찾기
+                        const relatedDocs = await this.analyzeAndStoreRelations(sourceFile, sourceContent, progress.signal, markdownFiles);
+                        newRelations.push(...relatedDocs);
+                    }
+                } catch (error) {
+                    if (!isAbortError(error)) {
+                        console.error(`파일 ${sourceFile.path} 처리 중 오류 발생:`, error);
+                    }
+                }
+
+                // 진행 상황 업데이트
+                processedFiles++;
+                progress.update(processedFiles, totalFiles, `${processedFiles}/${totalFiles} 파일 처리됨`);
+            }, progress.signal);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error('지식 그래프 생성 중 오류 발생:', error);
+                new Notice('지식 그래프 생성 중 오류가 발생했습니다. 콘솔을 확인하세요.');
+            }
+        } finally {
+            progress.hide();
+
+            // 분석 중 갱신된 핵심 개념 캐시, 임베딩, 그래프 저장
+            await this.conceptCache.save();
+            await this.embeddingStore.save();
+            await this.graphStore.save();
+        }
+
+        if (progress.cancelled) {
+            new Notice(`지식 그래프 생성이 취소되었습니다. (${processedFiles}/${totalFiles} 파일 처리됨, 처리된 결과는 저장됨)`);
+            return;
+        }
+
+        const relations = scopedRelations();
+        new Notice(`지식 그래프 갱신 완료: ${totalFiles}개 노트 분석, 총 ${relations.length}개의 관계`);
+        
+        // 분석 결과 요약 표시
+        new KnowledgeGraphSummaryModal(this.app, relations, await this.computeTopicClusters(relations)).open();
+
+        // 자동으로 링크 추가하기 (설정에서 활성화된 경우, 이번에 분석한 관계만)
+        // 미리보기 모달은 요약 모달 위에 열림
+        if (this.settings.knowledgeGraphSettings.autoAddLinks) {
+            await this.addWikiLinksToDocuments(newRelations);
+        }
+    }
+
+    // 관계 유사도와 캐시된 핵심 개념으로 주제 군집 계산 (Gemini 호출 없음)
+    // 이전 실행과 구성원이 겹치는 군집은 같은 ID와 이름을 이어받습니다.
+    private async computeTopicClusters(relations: DocumentRelation[]): Promise<TopicCluster[]> {
+        const concepts = new Map<string, string[]>();
+        for (const file of await this.graphScope.files()) {
+            const cached = this.conceptCache.get(file.path, await this.app.vault.cachedRead(file));
+            if (cached) concepts.set(file.path, splitConcepts(cached));
+        }
+
+        const usedIds = new Set<string>();
+        return clusterTopics(relations, concepts)
+            .filter(members => members.length >= this.settings.mocSettings.minClusterSize)
+            .map(members => {
+                const previous = this.topicClusters.match(members, usedIds);
+                const id = previous?.cluster.id ?? createId();
+                usedIds.add(id);
+                return {
+                    id,
+                    name: previous?.cluster.name ?? '',
+                    summary: previous?.cluster.summary ?? '',
+                    members,
+                    concepts: topConcepts(members, concepts)
+                };
+            });
+    }
+
+    // 주제 군집마다 Gemini로 이름과 요약을 만들고 MOC 노트를 만들거나 갱신
+    async generateTopicClusters(): Promise<void> {
+        const relations = this.graphStore.allRelations()
+            .filter(relation => this.graphScope.includes(relation.sourceFile) && this.graphScope.includes(relation.targetFile));
+        if (relations.length === 0) {
+            new Notice('군집을 만들 관계가 없습니다. 먼저 지식 그래프를 생성하세요.');
+            return;
+        }
+
+        const clusters = await this.computeTopicClusters(relations);
+        if (clusters.length === 0) {
+            new Notice(`구성원이 ${this.settings.mocSettings.minClusterSize}개 이상인 주제 군집이 없습니다.`);
+            return;
+        }
+
+        const previousMembers = new Map(this.topicClusters.all.map(cluster => [cluster.id, cluster.members]));
+        const progress = new ProgressNotice('주제 군집 분석 중');
+        let processed = 0;
+        try {
+            for (const cluster of clusters) {
+                if (progress.cancelled) break;
+                progress.update(processed, clusters.length, `${processed}/${clusters.length} 군집 처리됨`);
+
+                // 구성원이 그대로면 이전 이름과 요약을 유지
+                const previous = previousMembers.get(cluster.id);
+                const unchanged = previous && cluster.name && previous.length === cluster.members.length
+                    && cluster.members.every(path => previous.includes(path));
+                if (!unchanged) {
+                    const description = await this.describeTopicCluster(cluster, progress.signal);
+                    if (description) {
+                        cluster.name = description.name;
+                        cluster.summary = description.summary;
+                    }
+                }
+                if (!cluster.name) cluster.name = `주제 ${processed + 1}`;
+
+                await this.writeMocNote(cluster);
+                processed++;
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error('주제 군집 생성 중 오류 발생:', error);
+                new Notice(`주제 군집 생성 중 오류가 발생했습니다. 콘솔을 확인하세요. (${processed}/${clusters.length} 군집 처리됨)`);
+                return;
+            }
+        } finally {
+            progress.hide();
+        }
+
+        if (progress.cancelled) {
+            new Notice(`주제 군집 생성이 취소되었습니다. (${processed}/${clusters.length} 군집 처리됨)`);
+            return;
+        }
+
+        await this.topicClusters.replace(clusters);
+        new Notice(`${clusters.length}개 주제 군집의 MOC 노트를 갱신했습니다.`);
+        new KnowledgeGraphSummaryModal(this.app, relations, clusters).open();
+    }
+
+    // 군집의 이름과 요약 생성
+    private async describeTopicCluster(cluster: TopicCluster, signal?: AbortSignal): Promise<{ name: string, summary: string } | null> {
+        const titles = cluster.members.map(path => path.split('/').pop()?.replace(/\.md$/, '') ?? path);
+        const prompt = await this.renderPrompt(this.settings.promptTemplates.describeTopicCluster, {
+            clusterNotes: titles.map(title => `- ${title}`).join('\n'),
+            clusterConcepts: cluster.concepts.join(', ')
+        }, null);
+        if (prompt === null) return null;
+
+        const data = await this.generateStructured<{ name: string, summary: string }>(prompt, 'describeTopicCluster', TOPIC_CLUSTER_SCHEMA, signal);
+        if (!data) return null;
+        return { name: data.name.trim(), summary: data.summary.trim() };
+    }
+
+    // 군집 ID가 프론트매터에 있는 MOC 노트를 찾아 갱신하고, 없으면 새로 만듦
+    private async writeMocNote(cluster: TopicCluster): Promise<void> {
+        const linkText = (path: string) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, '', true) : path;
+        };
+
+        const existing = this.app.vault.getMarkdownFiles()
+            .find(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.[MOC_FRONTMATTER_KEY] === cluster.id);
+        if (existing) {
+            await this.app.vault.process(existing, content => updateMocContent(content, cluster, linkText));
+            return;
+        }
+
+        const folder = this.settings.mocSettings.folder.replace(/\/+$/, '');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        const baseName = this.sanitizeFilename(cluster.name).trim() || cluster.id;
+        let path = `${folder ? folder + '/' : ''}${baseName}.md`;
+        // 같은 이름의 다른 노트가 있으면 번호를 붙임
+        for (let index = 2; this.app.vault.getAbstractFileByPath(path); index++) {
+            path = `${folder ? folder + '/' : ''}${baseName} ${index}.md`;
+        }
+        await this.app.vault.create(path, updateMocContent(null, cluster, linkText));
+    }
+
+    // 저장된 지식 그래프를 파일로 내보내기 (Mermaid와 Canvas는 바로 열기)
+    async exportKnowledgeGraph(format: GraphExportFormat): Promise<void> {
+        const relations = this.graphStore.allRelations()
+            .filter(relation => this.graphScope.includes(relation.sourceFile) && this.graphScope.includes(relation.targetFile));
+        if (relations.length === 0) {
+            new Notice('내보낼 관계가 없습니다. 먼저 지식 그래프를 생성하세요.');
+            return;
+        }
+
+        const folder = this.settings.knowledgeGraphSettings.exportFolder.replace(/\/+$/, '');
+        const fileName = `지식 그래프 ${moment().format('YYYY-MM-DD HHmm')}.${GRAPH_EXPORT_FORMATS[format].extension}`;
+        const path = `${folder ? folder + '/' : ''}${fileName}`;
+
+        try {
+            const content = exportGraph(relations, format);
+            if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            let file: TFile;
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, content);
+                file = existing;
+            } else {
+                file = await this.app.vault.create(path, content);
+            }
+            new Notice(`지식 그래프를 내보냈습니다: ${file.path}`);
+
+            if (format === 'mermaid' || format === 'canvas') {
+                await this.app.workspace.getLeaf(true).openFile(file);
+            }
+        } catch (error) {
+            console.error('지식 그래프 내보내기 오류:', error);
+            new Notice(`지식 그래프 내보내기 오류: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // 노트의 관련 문서를 분석해 그래프 저장소에 기록
+    async analyzeAndStoreRelations(file: TFile, content: string, signal?: AbortSignal, scopeFiles?: TFile[]): Promise<DocumentRelation[]> {
+        const relations = await this.findRelatedDocuments(file, content, signal, scopeFiles);
+        // 중간에 취소되면 일부 결과만 있으므로 저장하지 않음
+        if (signal?.aborted) return relations;
+        this.graphStore.set(file.path, content, relations.map(relation => ({
+            target: relation.targetFile.path,
+            score: relation.similarityScore,
+            context: relation.extractedContext
+        })));
+        return relations;
+    }
+
+    // 수정된 노트를 백그라운드에서 하나씩 다시 분석
+    private async processGraphQueue(): Promise<void> {
+        if (this.graphUpdating || this.graphQueue.size === 0) return;
+        this.graphUpdating = true;
+
+        try {
+            while (this.graphQueue.size > 0) {
+                if (!this.settings.knowledgeGraphSettings.enabled) {
+                    this.graphQueue.clear();
+                    break;
+                }
+                const [path] = this.graphQueue;
+                this.graphQueue.delete(path);
+
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) continue;
+                const content = await this.app.vault.cachedRead(file);
+                if (!this.graphScope.includesContent(file, content)) continue;
+                if (this.graphStore.isFresh(file.path, content)) continue;
+
+                try {
+                    await this.analyzeAndStoreRelations(file, content);
+                } catch (error) {
+                    console.error(`파일 ${file.path} 그래프 갱신 중 오류 발생:`, error);
+                }
+            }
+        } finally {
+            this.graphUpdating = false;
+        }
+    }
+
+    // 지식 그래프 실행 전 예상 토큰이 예산을 넘는지 확인하고, 경고 모드면 사용자 확인을 받음
+    private async confirmKnowledgeGraphBudget(files: TFile[]): Promise<boolean> {
+        const { dailyTokenBudget, monthlyTokenBudget, budgetAction } = this.settings.usageSettings;
+        if (dailyTokenBudget <= 0 && monthlyTokenBudget <= 0) return true;
+
+        const estimated = await this.estimateKnowledgeGraphTokens(files);
+        const exceeded = this.usageTracker.checkBudget(estimated, dailyTokenBudget, monthlyTokenBudget);
+        if (!exceeded) return true;
+
+        const periodLabel = exceeded.period === 'daily' ? '일일' : '월간';
+        const message = `지식 그래프 생성에 약 ${estimated.toLocaleString()} 토큰이 필요할 것으로 예상됩니다.\n` +
+            `${periodLabel} 예산 ${exceeded.limit.toLocaleString()} 토큰 중 ${exceeded.used.toLocaleString()} 토큰을 이미 사용했습니다.`;
+
+        if (budgetAction === 'block') {
+            new Notice(`${message}\n토큰 예산 초과로 실행이 차단되었습니다.`);
+            return false;
+        }
+
+        return new Promise(resolve => {
+            const modal = new GeminiConfirmationModal(this.app, `${message}\n\n그래도 계속하시겠습니까?`, async (result) => {
+                resolve(result !== null);
+            });
+            // 확인 없이 닫으면 취소로 처리
+            const onClose = modal.onClose.bind(modal);
+            modal.onClose = () => {
+                onClose();
+                resolve(false);
+            };
+            modal.open();
+        });
+    }
+
+    // 캐시되지 않은 개념 추출과 후보 관계 분석에 필요한 토큰 추정
+    private async estimateKnowledgeGraphTokens(files: TFile[]): Promise<number> {
+        const templates = this.settings.promptTemplates;
+        const conceptOverhead = estimateTokens(templates.extractCoreConcepts) + 100;
+        const relationCost = estimateTokens(templates.analyzeDocumentRelation) + 300;
+        const embedsRemotely = this.settings.knowledgeGraphSettings.embeddingProvider === 'gemini';
+        let total = 0;
+
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            if (!content.trim()) continue;
+            if (this.conceptCache.get(file.path, content) === null) {
+                total += conceptOverhead + estimateTokens(content);
+            }
+            if (embedsRemotely && this.embeddingStore.isStale(file, content)) {
+                total += estimateTokens(content);
+            }
+            total += relationCost * this.settings.knowledgeGraphSettings.maxLinksPerDocument;
+        }
+        return total;
+    }
+
+    // 관련 문서 찾기
+    // 대상 노트는 지식 그래프 범위 설정을 따름 (scopeFiles: 이미 구한 범위 안의 노트 목록)
+    async findRelatedDocuments(sourceFile: TFile, sourceContent: string, signal?: AbortSignal, scopeFiles?: TFile[]): Promise<DocumentRelation[]> {
+        if (this.privacyGuard.isBlocked(sourceFile)) {
+            new Notice(`"${sourceFile.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있습니다. (gemini: never)`);
+            return [];
+        }
+        const markdownFiles = scopeFiles ?? await this.graphScope.files();
+        const relations: DocumentRelation[] = [];
+        const { minSimilarityScore } = this.settings.knowledgeGraphSettings;
+        
+        // 소스 파일 자신은 제외
+        const otherFiles = markdownFiles.filter(file => file.path !== sourceFile.path);
+
+        // 변경된 노트만 임베딩 갱신
+        try {
+            await this.embeddingStore.ensure([sourceFile, ...otherFiles], signal);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.error('임베딩 생성 중 오류 발생:', error);
+            new Notice('문서 임베딩 생성에 실패했습니다. 콘솔을 확인하세요.');
+            return relations;
+        }
+
+        const sourceVectors = this.embeddingStore.get(sourceFile);
+        if (!sourceVectors) return relations;
+
+        // 코사인 유사도로 후보 문서 순위 매기기
+        const candidates: { file: TFile, score: number }[] = [];
+        for (const targetFile of otherFiles) {
+            const targetVectors = this.embeddingStore.get(targetFile);
+            if (!targetVectors) continue; // 빈 파일 건너뛰기
+
+            const score = this.embeddingStore.similarity(sourceVectors, targetVectors);
+            if (score >= minSimilarityScore) {
+                candidates.push({ file: targetFile, score });
+            }
+        }
+        candidates.sort((a, b) => b.score - a.score);
+        // 최대 링크 수를 넘는 후보는 어차피 버려지므로 그만큼만 관계를 분석
+        const shortlist = candidates.slice(0, this.settings.knowledgeGraphSettings.maxLinksPerDocument);
+        if (shortlist.length === 0) return relations;
+
+        // 소스 문서의 핵심 개념 추출 (캐시 우선)
+        const sourceConcepts = await this.getCoreConcepts(sourceFile, sourceContent, signal);
+
+        // 상위 후보만 Gemini로 관계 설명 생성
+        for (const candidate of shortlist) {
+            if (signal?.aborted) break;
+            let extractedContext = '';
+            try {
+                const targetContent = await this.app.vault.cachedRead(candidate.file);
+                const targetConcepts = await this.getCoreConcepts(candidate.file, targetContent, signal);
+
+                if (sourceConcepts && targetConcepts) {
+                    // 두 문서 간의 관계 분석
+                    const analysisResult = await this.analyzeDocumentRelation(
+                        sourceFile.basename, 
+                        sourceConcepts,
+                        candidate.file.basename, 
+                        targetConcepts,
+                        signal
+                    );
+                    extractedContext = analysisResult?.context ?? '';
+                }
+            } catch (error) {
+                console.error(`파일 ${candidate.file.path} 비교 중 오류 발생:`, error);
+            }
+
+            relations.push({
+                sourceFile: sourceFile,
+                targetFile: candidate.file,
+                similarityScore: candidate.score,
+                extractedContext
+            });
+        }
+
+        return relations;
+    }
+
+    // 캐시를 거쳐 문서의 핵심 개념 가져오기 (내용이 바뀐 경우에만 다시 추출)
+    async getCoreConcepts(file: TFile, content: string, signal?: AbortSignal): Promise<string | null> {
+        const cached = this.conceptCache.get(file.path, content);
+        if (cached !== null) return cached;
+
+        const concepts = await this.extractCoreConcepts(content, signal, file);
+        if (concepts) {
+            this.conceptCache.set(file.path, content, concepts);
+        }
+        return concepts;
+    }
+
+    // 문서에서 핵심 개념 추출
+    // 긴 문서는 조각마다 개념을 뽑은 뒤, 조각별 개념 목록으로 문서 전체의 개념을 한 번 더 추출
+    async extractCoreConcepts(content: string, signal?: AbortSignal, file: TFile | null = null): Promise<string | null> {
+        const template = this.settings.promptTemplates.extractCoreConcepts;
+        let text = content;
+        const chunks = await this.planChunks(content, 'extractCoreConcepts', template, signal);
+        if (chunks) {
+            const partial = await this.mapChunks(chunks, '긴 노트 핵심 개념 추출', signal, async (chunk, chunkSignal) => {
+                const chunkPrompt = await this.renderPrompt(template, { content: chunk.text }, file);
+                if (chunkPrompt === null) return null;
+                const data = await this.generateStructured<{ concepts: string[] }>(chunkPrompt, 'extractCoreConcepts', CORE_CONCEPTS_SCHEMA, chunkSignal);
+                return data ? data.concepts.map(concept => concept.trim()).join(', ') : null;
+            });
+            if (!partial) return null;
+            text = joinChunkResults(chunks, partial);
+        }
+
+        const prompt = await this.renderPrompt(template, { content: text }, file);
+        if (prompt === null) return null;
+
+        // 검증을 통과하지 못한 응답은 개념 목록으로 쓰지 않음
+        const data = await this.generateStructured<{ concepts: string[] }>(prompt, 'extractCoreConcepts', CORE_CONCEPTS_SCHEMA, signal);
+        if (!data) return null;
+        return data.concepts.map(concept => concept.trim()).join(', ');
+    }
+
+    // 두 문서 간의 관계 설명 생성 (유사도는 임베딩으로 계산하므로 요청하지 않음)
+    async analyzeDocumentRelation(
+        sourceTitle: string, 
+        sourceConcepts: string,
+        targetTitle: string, 
+        targetConcepts: string,
+        signal?: AbortSignal
+    ): Promise<{ context: string } | null> {
+        const prompt = await this.renderPrompt(this.settings.promptTemplates.analyzeDocumentRelation, {
+            sourceTitle,
+            sourceConcepts,
+            targetTitle,
+            targetConcepts
+        }, null);
+        if (prompt === null) return null;
+
+        return this.generateStructured<{ context: string }>(prompt, 'analyzeDocumentRelation', DOCUMENT_RELATION_SCHEMA, signal);
+    }
+
+    // 위키링크 추가 (노트마다 관리되는 관련 문서 영역을 다시 씀)
+    // 미리보기가 켜져 있으면 변경될 노트를 보여주고 선택한 노트만 적용합니다.
+    async addWikiLinksToDocuments(relations: DocumentRelation[], preview = this.settings.knowledgeGraphSettings.previewLinks): Promise<void> {
+        const bySource = new Map<string, DocumentRelation[]>();
+        for (const relation of relations) {
+            const group = bySource.get(relation.sourceFile.path) ?? [];
+            group.push(relation);
+            bySource.set(relation.sourceFile.path, group);
+        }
+
+        const changes: RelatedLinkChange[] = [];
+        for (const group of bySource.values()) {
+            const sourceFile = group[0].sourceFile;
+            try {
+                const links = group
+                    .sort((a, b) => b.similarityScore - a.similarityScore)
+                    .slice(0, this.settings.knowledgeGraphSettings.maxLinksPerDocument)
+                    .map(relation => ({
+                        linktext: this.app.metadataCache.fileToLinktext(relation.targetFile, sourceFile.path, true),
+                        context: relation.extractedContext
+                    }));
+
+                const change = await this.relatedSectionWriter.plan(sourceFile, links);
+                if (change) changes.push(change);
+            } catch (error) {
+                console.error(`파일 ${sourceFile.path}의 링크 변경 계획 중 오류 발생:`, error);
+            }
+        }
+
+        if (changes.length === 0) {
+            new Notice('추가할 관련 링크가 없습니다.');
+            return;
+        }
+        if (preview) {
+            new LinkChangePlanModal(this.app, changes, selected => this.applyLinkChanges(selected)).open();
+            return;
+        }
+        await this.applyLinkChanges(changes);
+    }
+
+    // 계획한 변경을 적용하고 하나의 변경 기록으로 남김 (계획 이후 바뀐 노트는 건너뜀)
+    private async applyLinkChanges(changes: RelatedLinkChange[]): Promise<void> {
+        const applied: RelatedLinkChange[] = [];
+        let skipped = 0;
+
+        for (const change of changes) {
+            const file = this.app.vault.getAbstractFileByPath(change.path);
+            if (!(file instanceof TFile)) {
+                skipped++;
+                continue;
+            }
+            try {
+                const written = await this.relatedSectionWriter.apply(file, change);
+                if (written === null) {
+                    skipped++;
+                    continue;
+                }
+                this.graphStore.refreshHash(change.path, written);
+                applied.push({ ...change, after: written });
+            } catch (error) {
+                console.error(`파일 ${change.path}에 링크 추가 중 오류 발생:`, error);
+            }
+        }
+
+        if (applied.length > 0) {
+            await this.linkChangesets.record(applied);
+        }
+        const skippedText = skipped > 0 ? ` (그 사이 수정된 ${skipped}개 노트는 건너뜀)` : '';
+        new Notice(`${applied.length}개 문서에 관련 링크가 추가되었습니다.${skippedText}`);
+    }
+
+    // 마지막 링크 일괄 변경 이전 내용으로 노트를 복원
+    async revertLastLinkBatch(): Promise<void> {
+        const changeset = this.linkChangesets.latest();
+        if (!changeset) {
+            new Notice('되돌릴 링크 일괄 변경이 없습니다.');
+            return;
+        }
+
+        const targets: { file: TFile; before: string; edited: boolean }[] = [];
+        let missing = 0;
+        for (const entry of changeset.files) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                missing++;
+                continue;
+            }
+            const current = await this.app.vault.read(file);
+            targets.push({ file, before: entry.before, edited: hashContent(current) !== entry.afterHash });
+        }
+
+        const revert = async (includeEdited: boolean) => {
+            let reverted = 0;
+            for (const target of targets) {
+                if (target.edited && !includeEdited) continue;
+                try {
+                    await this.app.vault.modify(target.file, target.before);
+                    this.graphStore.refreshHash(target.file.path, target.before);
+                    reverted++;
+                } catch (error) {
+                    console.error(`파일 ${target.file.path} 되돌리기 중 오류 발생:`, error);
+                }
+            }
+            await this.linkChangesets.remove(changeset.id);
+            const skipped = targets.length - reverted + missing;
+            new Notice(`${reverted}개 노트의 링크 변경을 되돌렸습니다.${skipped > 0 ? ` (${skipped}개 노트는 되돌리지 않음)` : ''}`);
+        };
+
+        const editedPaths = targets.filter(target => target.edited).map(target => target.file.path);
+        if (editedPaths.length === 0) {
+            await revert(false);
+            return;
+        }
+        new RevertLinkBatchModal(this.app, editedPaths, targets.length, revert).open();
+    }
+
+    openBatchJobModal(initial: Partial<BatchJobRequest>): void {
+        if (this.batchRunning) {
+            new Notice('이미 실행 중인 일괄 작업이 있습니다.');
+            return;
+        }
+        new BatchJobModal(this.app, this.settings.customPrompts, initial, request => this.startBatchJob(request)).open();
+    }
+
+    private batchJobLabel(job: BatchJob): string {
+        if (job.operation !== 'customPrompt') return BATCH_OPERATIONS[job.operation];
+        const customPrompt = this.settings.customPrompts.find(prompt => prompt.id === job.customPromptId);
+        return `커스텀 프롬프트: ${customPrompt?.name ?? '(삭제됨)'}`;
+    }
+
+    // 대상 노트를 모아 새 일괄 작업을 만들고 실행
+    async startBatchJob(request: BatchJobRequest): Promise<void> {
+        let files: TFile[] = [];
+        let source = '';
+        switch (request.source) {
+            case 'folder': {
+                const folderPath = request.value.trim().replace(/^\/+|\/+$/g, '');
+                const folder = folderPath ? this.app.vault.getAbstractFileByPath(folderPath) : this.app.vault.getRoot();
+                if (!(folder instanceof TFolder)) {
+                    new Notice(`폴더를 찾을 수 없습니다: ${request.value}`);
+                    return;
+                }
+                files = filesInFolder(this.app, folder);
+                source = `폴더 ${folder.isRoot() ? '/' : folder.path}`;
+                break;
+            }
+            case 'tag':
+                files = filesWithTag(this.app, request.value);
+                source = `태그 #${request.value.trim().replace(/^#/, '')}`;
+                break;
+            case 'search': {
+                const results = searchResultFiles(this.app);
+                files = results.files;
+                source = results.query ? `검색 결과 "${results.query}"` : '검색 결과';
+                break;
+            }
+        }
+
+        // 이전 일괄 작업 보고서는 대상에서 제외
+        files = files
+            .filter(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.[BATCH_REPORT_FRONTMATTER_KEY] === undefined)
+            .sort((a, b) => a.path.localeCompare(b.path));
+        if (files.length === 0) {
+            new Notice('일괄 작업을 실행할 노트가 없습니다.');
+            return;
+        }
+
+        const job = await this.batchJobs.create(request, source, files);
+        await this.runBatchJob(job);
+    }
+
+    // 일괄 작업에서 처리하지 않은 노트를 실행
+    // 노트마다 상태를 저장하므로 취소하거나 Obsidian을 닫아도 이어서 실행할 수 있습니다.
+    async runBatchJob(job: BatchJob): Promise<void> {
+        if (this.batchRunning) {
+            new Notice('이미 실행 중인 일괄 작업이 있습니다.');
+            return;
+        }
+        const customPrompt = this.settings.customPrompts.find(prompt => prompt.id === job.customPromptId);
+        if (job.operation === 'customPrompt' && !customPrompt) {
+            new Notice('이 일괄 작업의 커스텀 프롬프트가 삭제되어 실행할 수 없습니다.');
+            return;
+        }
+
+        const key = batchOperationKey(job);
+        const vocabulary = collectVaultTags(this.app);
+        const pending = job.files.filter(entry => entry.status === 'pending');
+        const total = job.files.length;
+        let processed = total - pending.length;
+        const progress = new ProgressNotice(`일괄 작업: ${this.batchJobLabel(job)}`);
+        progress.update(processed, total, `${processed}/${total} 노트 처리됨`);
+        this.batchRunning = true;
+
+        try {
+            await runWithConcurrency(pending, this.settings.requestSettings.maxConcurrency, async (entry) => {
+                const file = this.app.vault.getAbstractFileByPath(entry.path);
+                if (!(file instanceof TFile)) {
+                    entry.status = 'failed';
+                    entry.message = '노트를 찾을 수 없습니다.';
+                } else if (this.privacyGuard.isBlocked(file)) {
+                    entry.status = 'skipped';
+                    entry.message = 'Gemini로 보내지 않도록 설정된 노트입니다. (gemini: never)';
+                } else if (job.skipProcessed && this.batchJobs.isProcessed(key, file.path, await this.app.vault.read(file))) {
+                    entry.status = 'skipped';
+                    entry.message = '이전에 처리한 뒤 바뀌지 않았습니다.';
+                } else {
+                    try {
+                        const outcome = await this.runBatchOperation(job, file, customPrompt, vocabulary, progress.signal);
+                        // 제목 생성은 노트 이름을 바꾸므로 바뀐 경로로 기록
+                        entry.path = file.path;
+                        entry.status = 'done';
+                        entry.message = outcome.message;
+                        entry.result = outcome.result;
+                        this.batchJobs.markProcessed(key, file.path, await this.app.vault.read(file));
+                    } catch (error) {
+                        // 취소된 노트는 처리하지 않은 상태로 남겨 이어서 실행
+                        if (progress.cancelled || isAbortError(error)) return;
+                        console.error(`일괄 작업 중 파일 ${file.path} 처리 오류:`, error);
+                        entry.status = 'failed';
+                        entry.message = error instanceof Error ? error.message : String(error);
+                    }
+                }
+
+                job.updatedAt = new Date().toISOString();
+                await this.batchJobs.save();
+                processed++;
+                progress.update(processed, total, `${processed}/${total} 노트 처리됨`);
+            }, progress.signal);
+        } catch (error) {
+            console.error('일괄 작업 실행 오류:', error);
+        } finally {
+            progress.hide();
+            this.batchRunning = false;
+            await this.batchJobs.save();
+        }
+
+        const report = await this.writeBatchReport(job);
+        const counts = countBatchStatuses(job);
+        const summary = `완료 ${counts.done}, 건너뜀 ${counts.skipped}, 실패 ${counts.failed}`;
+        new Notice(progress.cancelled
+            ? `일괄 작업이 취소되었습니다. (${summary}, 남음 ${counts.pending})`
+            : `일괄 작업 완료: ${summary}`);
+        if (report) {
+            await this.app.workspace.getLeaf(true).openFile(report);
+        }
+    }
+
+    // 노트 하나에 일괄 작업 실행 (실패하면 이유를 담은 오류 발생)
+    // message는 보고서에 표시할 요약, result는 노트에 반영하지 않고 보고서에만 남기는 결과
+    private async runBatchOperation(
+        job: BatchJob,
+        file: TFile,
+        customPrompt: CustomPrompt | undefined,
+        vocabulary: TagVocabulary,
+        signal: AbortSignal
+    ): Promise<{ message: string, result?: string }> {
+        const content = await this.app.vault.read(file);
+        const body = this.noteBody(file, content);
+        const render = (template: string, variables: Record<string, string>) => this.templateEngine.render(template, { file, variables });
+        const generate = async (prompt: string, feature: LLMFeature) => {
+            const response = await this.generateContent(prompt, feature, signal, undefined, false);
+            if (!response.text) throw new Error(response.error ?? '응답을 받지 못했습니다.');
+            return response.text.trim();
+        };
+        // 긴 노트는 나눠 요약한 내용으로 처리
+        const condense = async (text: string, feature: LLMFeature, template: string) => {
+            const condensed = await this.condenseLongContent(text, feature, template, signal, file, false);
+            if (condensed === null) throw new Error('긴 노트를 나눠 요약하지 못했습니다. 상호작용 로그를 확인하세요.');
+            return condensed;
+        };
+        if (!body && job.operation !== 'generateTitle') {
+            throw new Error('노트 내용이 비어있습니다.');
+        }
+
+        switch (job.operation) {
+            case 'generateTitle': {
+                const template = this.settings.promptTemplates.generateTitle;
+                const prompt = await render(template, {
+                    content: await condense(content, 'generateTitle', template),
+                    currentTitle: ` using current title: ${file.basename}`
+                });
+                const title = this.sanitizeFilename(await generate(prompt, 'generateTitle')).trim();
+                if (!title) throw new Error('빈 제목이 생성되었습니다.');
+                if (title === file.basename) return { message: '제목 변경 없음' };
+
+                const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+                const newPath = `${folder}${title}.${file.extension}`;
+                if (this.app.vault.getAbstractFileByPath(newPath)) {
+                    throw new Error(`같은 이름의 노트가 이미 있습니다: ${newPath}`);
+                }
+                const oldName = file.basename;
+                await this.app.fileManager.renameFile(file, newPath);
+                return { message: `${oldName} → ${title}` };
+            }
+            case 'summarizeText': {
+                const template = this.settings.promptTemplates.summarizeText;
+                const prompt = await render(template, { content: await condense(body, 'summarizeText', template), selection: body });
+                const summary = await generate(prompt, 'summarizeText');
+                const property = this.settings.metadataSettings.summaryProperty || 'summary';
+                await this.app.fileManager.processFrontMatter(file, data => data[property] = summary);
+                return { message: summary.length > 80 ? `${summary.substring(0, 80)}…` : summary };
+            }
+            case 'generateHashtags': {
+                const template = this.settings.promptTemplates.generateHashtags;
+                const prompt = await render(template, { content: await condense(body, 'generateHashtags', template) });
+                // 프롬프트가 '#'로 끝나므로 첫 태그에는 '#'가 없을 수 있음
+                const candidates = (await generate(prompt, 'generateHashtags')).split(/[\s,]+/);
+                let added: string[] = [];
+                await this.app.fileManager.processFrontMatter(file, data => {
+                    const existing = (parseFrontMatterTags(data) ?? []).map(tag => tag.replace(/^#/, ''));
+                    const tags = mergeTags(existing, candidates, vocabulary, this.settings.metadataSettings.maxTags);
+                    added = tags.slice(existing.length);
+                    if (added.length > 0) data.tags = tags;
+                });
+                return { message: added.length > 0 ? added.map(tag => `#${tag}`).join(' ') : '추가할 태그 없음' };
+            }
+            case 'generateMetadata': {
+                const changes = await this.planNoteMetadata(file, vocabulary, signal, false);
+                if (changes.length > 0) await this.applyMetadataChanges(file, changes);
+                return { message: changes.length > 0 ? changes.map(change => change.key).join(', ') : '변경 없음' };
+            }
+            case 'customPrompt': {
+                if (!customPrompt) throw new Error('커스텀 프롬프트를 찾을 수 없습니다.');
+                const prompt = await render(customPrompt.prompt, { content, selection: '' });
+                const result = await this.generateCustomPromptResult(customPrompt, prompt, signal, false);
+                if (!result) throw new Error('응답을 받지 못했거나 출력 스키마와 맞지 않습니다. 상호작용 로그를 확인하세요.');
+
+                switch (customPrompt.outputMode) {
+                    case 'replace': {
+                        // 선택 영역이 없으므로 프론트매터를 뺀 본문 전체를 대체
+                        const frontmatterEnd = this.app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset ?? 0;
+                        await this.app.vault.process(file, current => {
+                            if (current !== content) throw new Error('처리하는 동안 노트가 수정되었습니다.');
+                            return frontmatterEnd > 0 ? `${content.substring(0, frontmatterEnd)}\n${result}\n` : `${result}\n`;
+                        });
+                        return { message: '본문 대체' };
+                    }
+                    case 'insertBelow':
+                    case 'append':
+                        await this.app.vault.process(file, current => `${current.replace(/\s+$/, '')}\n\n${result}\n`);
+                        return { message: '노트 끝에 추가' };
+                    case 'newNote': {
+                        // 원본 노트와 같은 폴더에 만듦
+                        const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+                        const baseName = this.sanitizeFilename(`${file.basename} - ${customPrompt.name || 'Gemini'}`);
+                        let path = `${folder}${baseName}.md`;
+                        for (let index = 2; this.app.vault.getAbstractFileByPath(path); index++) {
+                            path = `${folder}${baseName} ${index}.md`;
+                        }
+                        await this.app.vault.create(path, result);
+                        return { message: `새 노트 ${path}` };
+                    }
+                    default:
+                        // 확인 창 방식은 노트를 바꾸지 않고 보고서에 결과를 남김
+                        return { message: '결과는 아래 결과 섹션 참고', result };
+                }
+            }
+        }
+    }
+
+    // 일괄 작업 결과 보고서 노트 작성 (같은 작업을 다시 실행하면 같은 노트를 갱신)
+    private async writeBatchReport(job: BatchJob): Promise<TFile | null> {
+        const linkText = (path: string) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, '', true) : path;
+        };
+        const content = renderBatchReport(job, this.batchJobLabel(job), linkText);
+
+        try {
+            const existing = job.reportPath ? this.app.vault.getAbstractFileByPath(job.reportPath) : null;
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, content);
+                return existing;
+            }
+
+            const folder = this.settings.batchSettings.reportFolder.replace(/\/+$/, '');
+            if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            const baseName = `일괄 작업 ${moment(job.createdAt).format('YYYY-MM-DD HHmmss')}`;
+            let path = `${folder ? folder + '/' : ''}${baseName}.md`;
+            for (let index = 2; this.app.vault.getAbstractFileByPath(path); index++) {
+                path = `${folder ? folder + '/' : ''}${baseName} ${index}.md`;
+            }
+            const file = await this.app.vault.create(path, content);
+            job.reportPath = file.path;
+            await this.batchJobs.save();
+            return file;
+        } catch (error) {
+            console.error('일괄 작업 보고서 작성 오류:', error);
+            new Notice(`일괄 작업 보고서 작성 오류: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    // 새 파일 생성을 위한 헬퍼 메서드 추가
+    private async createNewFileWithTitle(content: string, finalFileName: string): Promise<void> {
+        // 기본 새 파일 위치 설정에서 가져오기
+        let newFilePath = '';
+        if(this.settings.defaultNewFileLocation === 'root') {
+            newFilePath = `${finalFileName}.md`; // 기본값: 볼트 루트, .md 확장자 추가
+        }
+        else if (this.settings.defaultNewFileLocation === 'current') {
+            // 현재 활성화된 파일의 경로 가져오기 시도
+            const activeFile = this.app.workspace.getActiveFile();
+            if (activeFile && activeFile.parent) {
+                const activeDir = activeFile.parent.path; // 활성화된 파일의 디렉토리 경로 가져오기
+                newFilePath = `${activeDir}/${finalFileName}.md`; // 활성화된 노트의 폴더 사용
+            } else {
+                // activeFile이 루트 폴더에 있거나 존재하지 않음
+                newFilePath = `${finalFileName}.md`;
+                new Notice("새 노트가 루트 폴더에 생성됩니다.");
+            }
+        }
+        else if (this.settings.defaultNewFileLocation) { // 특정 폴더가 설정된 경우
+            newFilePath = `${this.settings.defaultNewFileLocation}/${finalFileName}.md`;
+        } else {
+            // 설정이 제대로 되지 않은 경우 기본값으로 루트 사용
+            newFilePath = `${finalFileName}.md`;
+            console.warn("잘못된 newFileLocation 설정, 루트 폴더 사용");
+        }
+
+        console.log("새 파일 경로:", newFilePath);
+
+        try {
+            // 새 파일 생성
+            const newFile = await this.app.vault.create(newFilePath, content);
+            new Notice(`새 노트 생성됨: ${finalFileName}`);
+
+            // 새 파일을 새 창에서 열기
+            await this.app.workspace.getLeaf(true).openFile(newFile);
+        } catch (error) {
+            console.error('새 파일 생성 오류:', error);
+            new Notice(`파일 생성 오류: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -1,5 +1,13 @@
-import { App, Modal, Notice, TFile, Setting } from 'obsidian';
-import { CustomPrompt, DocumentRelation, GeminiCopilotPlugin } from './main';
+import { App, FuzzySuggestModal, Modal, Notice, TFile, Setting, debounce } from 'obsidian';
+import GeminiCopilotPlugin, { CUSTOM_PROMPT_OUTPUT_MODES, CustomPrompt, CustomPromptOutputMode, DocumentRelation, PayloadPreviewTarget } from './main';
+import { TemplateIssue, renderTemplateIssues, validateTemplate } from './template-engine';
+import { DiffGranularity, DiffSegment, applySegments, countHunks, diffSegments } from './diff';
+import type { RelatedLinkChange } from './related-section';
+import type { TopicCluster } from './topic-clusters';
+import { MetadataFieldChange, formatMetadataValue } from './note-metadata';
+import { StructuredOutputError, parseSchemaDefinition } from './structured-output';
+import type { KeyProfile } from './key-profiles';
+import { BATCH_OPERATIONS, BATCH_SOURCES, BatchJobRequest, BatchOperation, BatchSourceType, searchResultFiles } from './batch-jobs';
 
 // 관련 문서 모달
 export class RelatedDocumentsModal extends Modal {
@@ -69,46 +77,20 @@ export class RelatedDocumentsModal extends Modal {
 
     async addWikiLink(relation: DocumentRelation) {
         try {
-            // 현재 활성화된 파일 가져오기
-            const currentFile = this.app.workspace.getActiveFile();
-            if (!currentFile) {
-                new Notice('현재 열려있는 파일이 없습니다.');
-                return;
-            }
+            const sourceFile = relation.sourceFile;
+            const link = {
+                linktext: this.app.metadataCache.fileToLinktext(relation.targetFile, sourceFile.path, true),
+                context: relation.extractedContext
+            };
 
-            // 현재 문서 내용 읽기
-            const content = await this.app.vault.read(currentFile);
-            
-            // 관련 문서 링크 생성
-            const wikiLink = `[[${relation.targetFile.basename}]]`;
-            const linkWithContext = `- ${wikiLink} - ${relation.extractedContext}`;
-            
-            // 이미 '관련 문서' 섹션이 있는지 확인
-            if (content.includes('## 관련 문서')) {
-                // 정규 표현식을 사용하여 '관련 문서' 섹션 찾기
-                const sectionRegex = /## 관련 문서\n([\s\S]*?)(?=\n##|$)/;
-                const match = content.match(sectionRegex);
-                
-                if (match) {
-                    // 이미 같은 링크가 있는지 확인
-                    if (match[1].includes(wikiLink)) {
-                        new Notice('이미 이 문서에 대한 링크가 존재합니다.');
-                        return;
-                    }
-                    
-                    // 섹션에 링크 추가
-                    const updatedSection = match[0] + '\n' + linkWithContext;
-                    const newContent = content.replace(sectionRegex, updatedSection);
-                    
-                    await this.app.vault.modify(currentFile, newContent);
-                    new Notice(`${relation.targetFile.basename}에 대한 링크가 추가되었습니다.`);
-                }
-            } else {
-                // 관련 문서 섹션 추가
-                const newContent = content + '\n\n## 관련 문서\n' + linkWithContext;
-                await this.app.vault.modify(currentFile, newContent);
-                new Notice(`${relation.targetFile.basename}에 대한 링크가 추가되었습니다.`);
+            // 관리되는 관련 문서 영역에 추가 (같은 문서는 설명만 갱신)
+            const newContent = await this.plugin.relatedSectionWriter.write(sourceFile, [link]);
+            if (newContent === null) {
+                new Notice('이미 이 문서에 대한 링크가 존재합니다.');
+                return;
             }
+            this.plugin.graphStore.refreshHash(sourceFile.path, newContent);
+            new Notice(`${relation.targetFile.basename}에 대한 링크가 추가되었습니다.`);
         } catch (error) {
             console.error('위키링크 추가 중 오류 발생:', error);
             new Notice('위키링크 추가 중 오류가 발생했습니다.');
@@ -119,10 +101,12 @@ export class RelatedDocumentsModal extends Modal {
 // 지식 그래프 요약 모달
 export class KnowledgeGraphSummaryModal extends Modal {
     relations: DocumentRelation[];
+    clusters: TopicCluster[];
 
-    constructor(app: App, relations: DocumentRelation[]) {
+    constructor(app: App, relations: DocumentRelation[], clusters: TopicCluster[] = []) {
         super(app);
         this.relations = relations;
+        this.clusters = clusters;
     }
 
     onOpen() {
@@ -160,6 +144,23 @@ export class KnowledgeGraphSummaryModal extends Modal {
             });
         }
 
+        // 주제 군집 (이름이 없으면 아직 MOC 노트를 만들지 않은 군집)
+        if (this.clusters.length > 0) {
+            contentEl.createEl('h4', { text: '주제 군집' });
+            const clusterList = contentEl.createEl('ul');
+            this.clusters.forEach((cluster, index) => {
+                const item = clusterList.createEl('li');
+                item.createEl('strong', { text: cluster.name || `주제 ${index + 1}` });
+                item.appendText(` - ${cluster.members.length}개 노트`);
+                if (cluster.summary) item.createEl('div', { text: cluster.summary, cls: 'gemini-log-timestamp' });
+                const names = cluster.members.map(path => path.split('/').pop()?.replace(/\.md$/, '') ?? path);
+                item.createEl('div', { text: names.slice(0, 8).join(', ') + (names.length > 8 ? ` 외 ${names.length - 8}개` : ''), cls: 'muted-text' });
+            });
+            if (this.clusters.some(cluster => !cluster.name)) {
+                contentEl.createEl('p', { text: '"주제 군집 및 MOC 노트 생성" 명령어로 군집 이름과 MOC 노트를 만들 수 있습니다.', cls: 'gemini-log-timestamp' });
+            }
+        }
+
         // 평균 유사도 점수 계산
         const averageSimilarity = this.relations.reduce(
             (sum, relation) => sum + relation.similarityScore, 0
@@ -171,7 +172,7 @@ export class KnowledgeGraphSummaryModal extends Modal {
 
         // 링크가 추가된 문서 수 (autoAddLinks가 활성화된 경우)
         const pluginSettings = this.app.plugins.plugins['obsidian-gemini-copilot'] as GeminiCopilotPlugin;
-        if (pluginSettings.settings.knowledgeGraphSettings.autoAddLinks) {
+        if (pluginSettings.settings.knowledgeGraphSettings.autoAddLinks && !pluginSettings.settings.knowledgeGraphSettings.previewLinks) {
             const uniqueSourceFiles = new Set(this.relations.map(r => r.sourceFile.path)).size;
             contentEl.createEl('p', { 
                 text: `${uniqueSourceFiles}개 문서에 자동으로 관련 링크가 추가되었습니다.` 
@@ -219,32 +220,55 @@ export class KnowledgeGraphSummaryModal extends Modal {
 }
 
 // Gemini 확인 모달
+export interface ConfirmationOptions {
+    // 지정하면 원본과 결과의 차이를 보여주고 변경 단위로 수락/거절
+    original?: string;
+    // 같은 프롬프트로 다시 생성 (null이면 기존 결과 유지)
+    onRegenerate?: () => Promise<string | null>;
+}
+
 export class GeminiConfirmationModal extends Modal {
     resultText: string;
     onSubmit: (result: string | null) => Promise<void>;
     confirmedResult: string | null = null;
+    options: ConfirmationOptions;
+    private granularity: DiffGranularity = 'word';
+    private segments: DiffSegment[] = [];
+    private accepted: boolean[] = [];
+    private diffEl: HTMLElement;
+    private summaryEl: HTMLElement;
+    private editorEl: HTMLTextAreaElement;
 
-    constructor(app: App, resultText: string, onSubmit: (result: string | null) => Promise<void>) {
+    constructor(app: App, resultText: string, onSubmit: (result: string | null) => Promise<void>, options: ConfirmationOptions = {}) {
         super(app);
         this.resultText = resultText;
         this.onSubmit = onSubmit;
+        this.options = options;
     }
 
     onOpen() {
         const { contentEl } = this;
 
         contentEl.createEl('h3', { text: 'Gemini Copilot Result' });
-        contentEl.createEl('p', { text: 'Please review the generated content and confirm to apply.' });
 
-        const resultContainer = contentEl.createEl('div', { cls: 'gemini-result-container' });
-        resultContainer.createEl('pre', { text: this.resultText });
+        if (this.options.original !== undefined) {
+            this.renderReview(contentEl);
+        } else {
+            contentEl.createEl('p', { text: 'Please review the generated content and confirm to apply.' });
+            const resultContainer = contentEl.createEl('div', { cls: 'gemini-result-container' });
+            resultContainer.createEl('pre', { text: this.resultText });
+        }
 
         const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
         const cancelButton = buttonContainer.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
+        if (this.options.onRegenerate) {
+            const regenerateButton = buttonContainer.createEl('button', { text: '다시 생성' });
+            regenerateButton.addEventListener('click', () => this.regenerate(regenerateButton));
+        }
         const confirmButton = buttonContainer.createEl('button', { text: 'Confirm', cls: 'mod-cta' });
 
         confirmButton.addEventListener('click', async () => {
-            this.confirmedResult = this.resultText;
+            this.confirmedResult = this.options.original !== undefined ? this.editorEl.value : this.resultText;
             await this.onSubmit(this.confirmedResult);
             this.close();
         });
@@ -259,6 +283,97 @@ export class GeminiConfirmationModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
     }
+
+    // 원본 대비 변경 사항 검토 화면
+    private renderReview(contentEl: HTMLElement) {
+        contentEl.createEl('p', { text: '변경된 부분을 클릭해 수락하거나 거절할 수 있습니다. 아래에서 결과를 직접 수정할 수도 있습니다.' });
+
+        const controls = contentEl.createEl('div', { cls: 'gemini-log-toolbar' });
+        const granularitySelect = controls.createEl('select', { cls: 'dropdown' });
+        granularitySelect.createEl('option', { text: '단어 단위', value: 'word' });
+        granularitySelect.createEl('option', { text: '줄 단위', value: 'line' });
+        granularitySelect.value = this.granularity;
+        granularitySelect.addEventListener('change', () => {
+            this.granularity = granularitySelect.value as DiffGranularity;
+            this.computeDiff(this.editorEl.value);
+        });
+        controls.createEl('button', { text: '모두 수락' }).addEventListener('click', () => this.setAll(true));
+        controls.createEl('button', { text: '모두 거절' }).addEventListener('click', () => this.setAll(false));
+        this.summaryEl = controls.createEl('span', { cls: 'gemini-log-timestamp' });
+
+        this.diffEl = contentEl.createEl('div', { cls: 'gemini-result-container gemini-diff' });
+
+        const editDetails = contentEl.createEl('details');
+        editDetails.createEl('summary', { text: '결과 직접 편집' });
+        this.editorEl = editDetails.createEl('textarea', { cls: 'gemini-setting-textarea' });
+        this.editorEl.value = this.resultText;
+        // 직접 수정하면 수정한 내용을 새 제안으로 보고 다시 비교
+        this.editorEl.addEventListener('input', debounce(() => this.computeDiff(this.editorEl.value), 400, true));
+
+        this.computeDiff(this.resultText);
+    }
+
+    private computeDiff(proposed: string) {
+        this.segments = diffSegments(this.options.original ?? '', proposed, this.granularity);
+        this.accepted = new Array(countHunks(this.segments)).fill(true);
+        this.renderDiff();
+    }
+
+    private setAll(accepted: boolean) {
+        this.accepted = this.accepted.map(() => accepted);
+        this.renderDiff();
+    }
+
+    private renderDiff() {
+        this.diffEl.empty();
+        const total = this.accepted.length;
+        if (total === 0) {
+            this.diffEl.createEl('p', { text: '원본과 달라진 부분이 없습니다.', cls: 'muted-text' });
+        }
+
+        for (const segment of this.segments) {
+            if (segment.type === 'equal') {
+                this.diffEl.createEl('span', { text: segment.text });
+                continue;
+            }
+            const accepted = this.accepted[segment.hunk];
+            const hunkEl = this.diffEl.createEl('span', {
+                cls: `gemini-diff-hunk ${accepted ? 'is-accepted' : 'is-rejected'}`,
+                attr: { title: accepted ? '클릭하여 거절' : '클릭하여 수락' }
+            });
+            if (segment.removed) hunkEl.createEl('del', { text: segment.removed });
+            if (segment.added) hunkEl.createEl('ins', { text: segment.added });
+            hunkEl.addEventListener('click', () => {
+                this.accepted[segment.hunk] = !this.accepted[segment.hunk];
+                this.renderDiff();
+            });
+        }
+
+        const acceptedCount = this.accepted.filter(value => value).length;
+        this.summaryEl.setText(`${acceptedCount} / ${total}개 변경 수락`);
+        this.editorEl.value = applySegments(this.segments, this.accepted);
+    }
+
+    private async regenerate(button: HTMLButtonElement) {
+        if (!this.options.onRegenerate) return;
+        button.disabled = true;
+        button.setText('생성 중...');
+        try {
+            const result = await this.options.onRegenerate();
+            if (result === null) return;
+            this.resultText = result;
+            if (this.options.original !== undefined) {
+                this.editorEl.value = result;
+                this.computeDiff(result);
+            } else {
+                const pre = this.contentEl.querySelector('.gemini-result-container pre');
+                if (pre) pre.textContent = result;
+            }
+        } finally {
+            button.disabled = false;
+            button.setText('다시 생성');
+        }
+    }
 }
 
 // 커스텀 프롬프트 선택 모달
@@ -284,16 +399,17 @@ export class CustomPromptSelectorModal extends Modal {
             listItem.createEl('h4', { text: prompt.name });
             listItem.createEl('p', { text: prompt.description });
 
+            // 생성 중에 에디터를 가리지 않도록 먼저 닫고 실행
             listItem.addEventListener('click', async () => {
-                await this.onSelect(prompt);
                 this.close();
+                await this.onSelect(prompt);
             });
         });
 
         const cancelButton = contentEl.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
         cancelButton.addEventListener('click', () => {
-            this.onSelect(null);
             this.close();
+            this.onSelect(null);
         });
     }
 
@@ -310,7 +426,8 @@ export class CustomPromptModal extends Modal {
 
     constructor(app: App, prompt: CustomPrompt, onSubmit: (editedPrompt: CustomPrompt | null) => Promise<void>) {
         super(app);
-        this.prompt = prompt;
+        // 취소 시 원본이 바뀌지 않도록 복사본을 편집
+        this.prompt = Object.assign({}, prompt);
         this.onSubmit = onSubmit;
     }
 
@@ -331,19 +448,101 @@ export class CustomPromptModal extends Modal {
                 .setValue(this.prompt.description)
                 .onChange(value => this.prompt.description = value));
 
+        const issuesEl = createDiv({ cls: 'gemini-template-issues' });
         new Setting(contentEl)
             .setName('Prompt Content')
             .addTextArea(text => {
                 text.setValue(this.prompt.prompt)
-                    .onChange(value => this.prompt.prompt = value);
+                    .onChange(value => {
+                        this.prompt.prompt = value;
+                        renderTemplateIssues(issuesEl, validateTemplate(value));
+                    });
+                text.inputEl.addClass('prompt-template-textarea');
+            });
+        contentEl.appendChild(issuesEl);
+        renderTemplateIssues(issuesEl, validateTemplate(this.prompt.prompt));
+
+        new Setting(contentEl)
+            .setName('Output Mode')
+            .setDesc('결과를 노트에 반영하는 방식입니다. 새 노트는 기본 새 파일 위치에 만들어집니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions(CUSTOM_PROMPT_OUTPUT_MODES)
+                .setValue(this.prompt.outputMode)
+                .onChange(value => this.prompt.outputMode = value as CustomPromptOutputMode));
+
+        // 프롬프트별 생성 옵션 (비워 두면 기본값 사용)
+        contentEl.createEl('h4', { text: 'Model Settings' });
+
+        new Setting(contentEl)
+            .setName('Model')
+            .setDesc('비워 두면 이 기능에 지정된 제공자의 기본 모델을 사용합니다.')
+            .addText(text => text
+                .setPlaceholder('gemini-1.5-pro')
+                .setValue(this.prompt.model ?? '')
+                .onChange(value => this.prompt.model = value.trim() || undefined));
+
+        new Setting(contentEl)
+            .setName('Temperature')
+            .setDesc('0.0 ~ 2.0. 비워 두면 모델 기본값을 사용합니다.')
+            .addText(text => text
+                .setValue(this.prompt.temperature !== undefined ? String(this.prompt.temperature) : '')
+                .onChange(value => {
+                    const parsed = parseFloat(value);
+                    this.prompt.temperature = isNaN(parsed) ? undefined : Math.min(Math.max(parsed, 0), 2);
+                }));
+
+        new Setting(contentEl)
+            .setName('Max Output Tokens')
+            .setDesc('비워 두면 모델 기본값을 사용합니다.')
+            .addText(text => text
+                .setValue(this.prompt.maxOutputTokens !== undefined ? String(this.prompt.maxOutputTokens) : '')
+                .onChange(value => {
+                    const parsed = parseInt(value, 10);
+                    this.prompt.maxOutputTokens = isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+                }));
+
+        new Setting(contentEl)
+            .setName('System Instruction')
+            .addTextArea(text => {
+                text.setValue(this.prompt.systemInstruction ?? '')
+                    .onChange(value => this.prompt.systemInstruction = value.trim() ? value : undefined);
+                text.inputEl.addClass('prompt-template-textarea');
+            });
+
+        const schemaIssuesEl = createDiv({ cls: 'gemini-template-issues' });
+        new Setting(contentEl)
+            .setName('Output Schema')
+            .setDesc('JSON 스키마를 입력하면 응답을 JSON으로 받아 검증한 뒤 코드 블록으로 출력합니다. 비워 두면 일반 텍스트로 응답합니다.')
+            .addTextArea(text => {
+                text.setPlaceholder('{ "type": "object", "properties": { "items": { "type": "array", "items": { "type": "string" } } }, "required": ["items"] }')
+                    .setValue(this.prompt.outputSchema ?? '')
+                    .onChange(value => {
+                        this.prompt.outputSchema = value.trim() ? value : undefined;
+                        renderTemplateIssues(schemaIssuesEl, this.schemaIssues());
+                    });
                 text.inputEl.addClass('prompt-template-textarea');
             });
+        contentEl.appendChild(schemaIssuesEl);
+        renderTemplateIssues(schemaIssuesEl, this.schemaIssues());
 
         const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
         const cancelButton = buttonContainer.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
         const confirmButton = buttonContainer.createEl('button', { text: 'Save', cls: 'mod-cta' });
 
         confirmButton.addEventListener('click', async () => {
+            if (!this.prompt.name.trim()) {
+                new Notice('프롬프트 이름을 입력하세요.');
+                return;
+            }
+            // 문법 오류가 있는 템플릿은 저장하지 않음
+            if (validateTemplate(this.prompt.prompt).some(issue => issue.severity === 'error')) {
+                new Notice('프롬프트 템플릿에 문법 오류가 있습니다.');
+                return;
+            }
+            if (this.schemaIssues().length > 0) {
+                new Notice('출력 스키마가 올바르지 않습니다.');
+                return;
+            }
             await this.onSubmit(this.prompt);
             this.close();
         });
@@ -354,6 +553,486 @@ export class CustomPromptModal extends Modal {
         });
     }
 
+    // 출력 스키마 검사 결과
+    private schemaIssues(): TemplateIssue[] {
+        try {
+            parseSchemaDefinition(this.prompt.outputSchema ?? '');
+            return [];
+        } catch (error) {
+            if (!(error instanceof StructuredOutputError)) throw error;
+            return error.message.split('\n').map(message => ({ severity: 'error', message }));
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 프롬프트 템플릿 미리보기 모달
+export class TemplatePreviewModal extends Modal {
+    title: string;
+    text: string;
+    isError: boolean;
+
+    constructor(app: App, title: string, text: string, isError = false) {
+        super(app);
+        this.title = title;
+        this.text = text;
+        this.isError = isError;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: `미리보기: ${this.title}` });
+        contentEl.createEl('p', { text: '현재 활성 노트를 기준으로 렌더링하고 민감 정보를 가린 결과입니다. 실제로 이 내용이 전송됩니다.', cls: 'meta-text' });
+
+        const resultContainer = contentEl.createEl('div', { cls: 'gemini-result-container' });
+        resultContainer.createEl('pre', { text: this.text, cls: this.isError ? 'error-text gemini-log-full-text' : 'gemini-log-full-text' });
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+        closeButton.addEventListener('click', () => this.close());
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 노트 선택 모달 (주어진 목록에서 퍼지 검색)
+export class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+    files: TFile[];
+    onChoose: (file: TFile) => void;
+
+    constructor(app: App, files: TFile[], onChoose: (file: TFile) => void, placeholder = '노트 이름을 입력하세요...') {
+        super(app);
+        this.files = files;
+        this.onChoose = onChoose;
+        this.setPlaceholder(placeholder);
+    }
+
+    getItems(): TFile[] {
+        return this.files;
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
+
+// 보낼 내용을 미리 볼 기능 선택
+export class PayloadPreviewSuggestModal extends FuzzySuggestModal<PayloadPreviewTarget> {
+    targets: PayloadPreviewTarget[];
+    onChoose: (target: PayloadPreviewTarget) => void;
+
+    constructor(app: App, targets: PayloadPreviewTarget[], onChoose: (target: PayloadPreviewTarget) => void) {
+        super(app);
+        this.targets = targets;
+        this.onChoose = onChoose;
+        this.setPlaceholder('미리 볼 기능이나 커스텀 프롬프트를 선택하세요...');
+    }
+
+    getItems(): PayloadPreviewTarget[] {
+        return this.targets;
+    }
+
+    getItemText(target: PayloadPreviewTarget): string {
+        return target.name;
+    }
+
+    onChooseItem(target: PayloadPreviewTarget): void {
+        this.onChoose(target);
+    }
+}
+
+// 키 프로필 선택 (명령어 팔레트에서 전환)
+export class KeyProfileSuggestModal extends FuzzySuggestModal<KeyProfile> {
+    profiles: KeyProfile[];
+    activeId: string;
+    onChoose: (profile: KeyProfile) => void;
+
+    constructor(app: App, profiles: KeyProfile[], activeId: string, onChoose: (profile: KeyProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.activeId = activeId;
+        this.onChoose = onChoose;
+        this.setPlaceholder('전환할 키 프로필을 선택하세요...');
+    }
+
+    getItems(): KeyProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: KeyProfile): string {
+        return `${profile.name} (${profile.geminiModel})${profile.id === this.activeId ? ' - 사용 중' : ''}`;
+    }
+
+    onChooseItem(profile: KeyProfile): void {
+        this.onChoose(profile);
+    }
+}
+
+// 변경된 줄 앞뒤로 보여줄 줄 수
+const DIFF_CONTEXT_LINES = 2;
+
+// 줄 단위 변경 사항을 읽기 전용으로 표시 (변경 없는 긴 부분은 생략)
+function renderLineDiff(el: HTMLElement, before: string, after: string) {
+    const segments = diffSegments(before, after, 'line');
+    segments.forEach((segment, index) => {
+        if (segment.type === 'change') {
+            const changeEl = el.createEl('span', { cls: 'gemini-diff-change' });
+            if (segment.removed) changeEl.createEl('del', { text: segment.removed });
+            if (segment.added) changeEl.createEl('ins', { text: segment.added });
+            return;
+        }
+        const lines = segment.text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+        const head = index > 0 ? DIFF_CONTEXT_LINES : 0;
+        const tail = index < segments.length - 1 ? DIFF_CONTEXT_LINES : 0;
+        if (lines.length <= head + tail + 1) {
+            el.createEl('span', { text: segment.text });
+            return;
+        }
+        if (head > 0) el.createEl('span', { text: lines.slice(0, head).join('') });
+        el.createEl('span', { text: `⋯ ${lines.length - head - tail}줄 생략\n`, cls: 'muted-text' });
+        if (tail > 0) el.createEl('span', { text: lines.slice(-tail).join('') });
+    });
+}
+
+// 관련 링크 일괄 추가 미리보기 (적용할 노트를 선택)
+export class LinkChangePlanModal extends Modal {
+    changes: RelatedLinkChange[];
+    onApply: (selected: RelatedLinkChange[]) => Promise<void>;
+    private selected: boolean[];
+    private summaryEl: HTMLElement;
+    private checkboxes: HTMLInputElement[] = [];
+
+    constructor(app: App, changes: RelatedLinkChange[], onApply: (selected: RelatedLinkChange[]) => Promise<void>) {
+        super(app);
+        this.changes = changes;
+        this.onApply = onApply;
+        this.selected = changes.map(() => true);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: '관련 링크 추가 미리보기' });
+        contentEl.createEl('p', { text: `${this.changes.length}개 노트가 변경됩니다. 적용할 노트를 선택하고 각 노트를 펼쳐 변경 내용을 확인하세요.` });
+
+        const controls = contentEl.createEl('div', { cls: 'gemini-log-toolbar' });
+        controls.createEl('button', { text: '모두 선택' }).addEventListener('click', () => this.setAll(true));
+        controls.createEl('button', { text: '모두 해제' }).addEventListener('click', () => this.setAll(false));
+        this.summaryEl = controls.createEl('span', { cls: 'gemini-log-timestamp' });
+
+        const listEl = contentEl.createEl('div', { cls: 'gemini-link-plan-list' });
+        this.changes.forEach((change, index) => {
+            const itemEl = listEl.createEl('details', { cls: 'gemini-link-plan-item' });
+            const summary = itemEl.createEl('summary');
+            const checkbox = summary.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected[index];
+            // 체크박스를 눌러도 펼쳐지지 않도록
+            checkbox.addEventListener('click', event => event.stopPropagation());
+            checkbox.addEventListener('change', () => {
+                this.selected[index] = checkbox.checked;
+                this.updateSummary();
+            });
+            this.checkboxes.push(checkbox);
+            summary.createEl('span', { text: ` ${change.path}` });
+
+            // 펼칠 때 diff 계산
+            const diffEl = itemEl.createEl('div', { cls: 'gemini-result-container gemini-diff' });
+            itemEl.addEventListener('toggle', () => {
+                if (itemEl.open && diffEl.childElementCount === 0) renderLineDiff(diffEl, change.before, change.after);
+            });
+        });
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        const cancelButton = buttonContainer.createEl('button', { text: '취소' });
+        cancelButton.addEventListener('click', () => this.close());
+        const applyButton = buttonContainer.createEl('button', { text: '선택한 변경 적용', cls: 'mod-cta' });
+        applyButton.addEventListener('click', async () => {
+            const selected = this.changes.filter((_, index) => this.selected[index]);
+            if (selected.length === 0) {
+                new Notice('선택한 노트가 없습니다.');
+                return;
+            }
+            applyButton.disabled = true;
+            this.close();
+            await this.onApply(selected);
+        });
+
+        this.updateSummary();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private setAll(selected: boolean) {
+        this.selected = this.selected.map(() => selected);
+        this.checkboxes.forEach(checkbox => checkbox.checked = selected);
+        this.updateSummary();
+    }
+
+    private updateSummary() {
+        this.summaryEl.setText(`${this.selected.filter(value => value).length} / ${this.changes.length}개 선택`);
+    }
+}
+
+// 링크 일괄 변경 되돌리기 확인 (이후 수정된 노트가 있을 때)
+export class RevertLinkBatchModal extends Modal {
+    editedPaths: string[];
+    total: number;
+    onChoose: (includeEdited: boolean) => Promise<void>;
+
+    constructor(app: App, editedPaths: string[], total: number, onChoose: (includeEdited: boolean) => Promise<void>) {
+        super(app);
+        this.editedPaths = editedPaths;
+        this.total = total;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: '링크 일괄 변경 되돌리기' });
+        contentEl.createEl('p', {
+            text: `${this.total}개 노트 중 ${this.editedPaths.length}개 노트가 링크를 추가한 뒤 수정되었습니다. 이 노트까지 되돌리면 이후 수정한 내용도 사라집니다.`,
+            cls: 'error-text'
+        });
+        const listEl = contentEl.createEl('ul');
+        this.editedPaths.forEach(path => listEl.createEl('li', { text: path }));
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        buttonContainer.createEl('button', { text: '취소' }).addEventListener('click', () => this.close());
+        buttonContainer.createEl('button', { text: '수정되지 않은 노트만 되돌리기', cls: 'mod-cta' }).addEventListener('click', async () => {
+            this.close();
+            await this.onChoose(false);
+        });
+        buttonContainer.createEl('button', { text: '모두 되돌리기', cls: 'mod-warning' }).addEventListener('click', async () => {
+            this.close();
+            await this.onChoose(true);
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 생성한 메타데이터 미리보기 (프론트매터 항목별로 적용 여부 선택)
+export class MetadataPreviewModal extends Modal {
+    title: string;
+    changes: MetadataFieldChange[];
+    onApply: (selected: MetadataFieldChange[]) => Promise<void>;
+    private selected: boolean[];
+
+    constructor(app: App, title: string, changes: MetadataFieldChange[], onApply: (selected: MetadataFieldChange[]) => Promise<void>) {
+        super(app);
+        this.title = title;
+        this.changes = changes;
+        this.onApply = onApply;
+        this.selected = changes.map(() => true);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: `메타데이터 미리보기: ${this.title}` });
+        contentEl.createEl('p', { text: '프론트매터에 적용할 항목을 선택하세요. 태그와 별칭은 기존 값에 추가됩니다.' });
+
+        const listEl = contentEl.createEl('div', { cls: 'gemini-link-plan-list' });
+        this.changes.forEach((change, index) => {
+            new Setting(listEl)
+                .setName(change.key)
+                .setDesc(createFragment(fragment => {
+                    const diffEl = fragment.createDiv({ cls: 'gemini-diff-change' });
+                    diffEl.createDiv().createEl('del', { text: formatMetadataValue(change.before) });
+                    diffEl.createDiv().createEl('ins', { text: formatMetadataValue(change.after) });
+                }))
+                .addToggle(toggle => toggle
+                    .setValue(this.selected[index])
+                    .onChange(value => this.selected[index] = value));
+        });
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        buttonContainer.createEl('button', { text: '취소' }).addEventListener('click', () => this.close());
+        const applyButton = buttonContainer.createEl('button', { text: '선택한 항목 적용', cls: 'mod-cta' });
+        applyButton.addEventListener('click', async () => {
+            const selected = this.changes.filter((_, index) => this.selected[index]);
+            if (selected.length === 0) {
+                new Notice('선택한 항목이 없습니다.');
+                return;
+            }
+            applyButton.disabled = true;
+            this.close();
+            await this.onApply(selected);
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 일괄 작업 설정 모달 (대상과 작업 선택)
+export class BatchJobModal extends Modal {
+    customPrompts: CustomPrompt[];
+    onSubmit: (request: BatchJobRequest) => Promise<void>;
+    private request: BatchJobRequest;
+
+    constructor(app: App, customPrompts: CustomPrompt[], initial: Partial<BatchJobRequest>, onSubmit: (request: BatchJobRequest) => Promise<void>) {
+        super(app);
+        this.customPrompts = customPrompts;
+        this.onSubmit = onSubmit;
+        this.request = Object.assign({ source: 'folder', value: '', operation: 'generateMetadata', skipProcessed: true }, initial);
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    // 대상 종류가 바뀌면 입력 항목이 달라지므로 다시 그림
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Gemini 일괄 작업' });
+
+        new Setting(contentEl)
+            .setName('대상')
+            .addDropdown(dropdown => {
+                (Object.keys(BATCH_SOURCES) as BatchSourceType[]).forEach(source => dropdown.addOption(source, BATCH_SOURCES[source]));
+                dropdown.setValue(this.request.source)
+                    .onChange(value => {
+                        this.request.source = value as BatchSourceType;
+                        this.request.value = '';
+                        this.render();
+                    });
+            });
+
+        if (this.request.source === 'folder') {
+            new Setting(contentEl)
+                .setName('폴더')
+                .setDesc('하위 폴더의 노트도 포함합니다. 비워두면 볼트 전체가 대상입니다.')
+                .addText(text => text
+                    .setPlaceholder('Projects')
+                    .setValue(this.request.value)
+                    .onChange(value => this.request.value = value));
+        } else if (this.request.source === 'tag') {
+            new Setting(contentEl)
+                .setName('태그')
+                .setDesc('하위 태그가 붙은 노트도 포함합니다.')
+                .addText(text => text
+                    .setPlaceholder('#project')
+                    .setValue(this.request.value)
+                    .onChange(value => this.request.value = value));
+        } else {
+            const results = searchResultFiles(this.app);
+            contentEl.createEl('p', {
+                text: results.files.length > 0
+                    ? `검색 결과 ${results.files.length}개 노트${results.query ? ` ("${results.query}")` : ''}`
+                    : '검색 패널에 결과가 없습니다. 먼저 검색을 실행하세요.'
+            });
+        }
+
+        const operationValue = this.request.operation === 'customPrompt' ? `customPrompt:${this.request.customPromptId}` : this.request.operation;
+        new Setting(contentEl)
+            .setName('작업')
+            .addDropdown(dropdown => {
+                (Object.keys(BATCH_OPERATIONS) as BatchOperation[])
+                    .filter(operation => operation !== 'customPrompt')
+                    .forEach(operation => dropdown.addOption(operation, BATCH_OPERATIONS[operation]));
+                this.customPrompts.forEach(prompt => dropdown.addOption(`customPrompt:${prompt.id}`, `커스텀 프롬프트: ${prompt.name}`));
+                dropdown.setValue(operationValue)
+                    .onChange(value => {
+                        if (value.startsWith('customPrompt:')) {
+                            this.request.operation = 'customPrompt';
+                            this.request.customPromptId = value.substring('customPrompt:'.length);
+                        } else {
+                            this.request.operation = value as BatchOperation;
+                            this.request.customPromptId = undefined;
+                        }
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('처리한 노트 건너뛰기')
+            .setDesc('같은 작업으로 처리한 뒤 내용이 바뀌지 않은 노트는 건너뜁니다.')
+            .addToggle(toggle => toggle
+                .setValue(this.request.skipProcessed)
+                .onChange(value => this.request.skipProcessed = value));
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        buttonContainer.createEl('button', { text: '취소' }).addEventListener('click', () => this.close());
+        const startButton = buttonContainer.createEl('button', { text: '시작', cls: 'mod-cta' });
+        startButton.addEventListener('click', async () => {
+            if (this.request.source === 'tag' && !this.request.value.trim()) {
+                new Notice('태그를 입력해주세요.');
+                return;
+            }
+            this.close();
+            await this.onSubmit({ ...this.request });
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 민감 정보를 가린 뒤 실제로 보낼 내용 미리보기
+export class RedactionPreviewModal extends Modal {
+    title: string;
+    text: string;
+    entries: { placeholder: string; label: string; value: string }[];
+
+    constructor(app: App, title: string, text: string, entries: { placeholder: string; label: string; value: string }[]) {
+        super(app);
+        this.title = title;
+        this.text = text;
+        this.entries = entries;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h3', { text: `보낼 내용 미리보기${this.title ? `: ${this.title}` : ''}` });
+        contentEl.createEl('p', {
+            text: this.entries.length > 0
+                ? `민감 정보 ${this.entries.length}개를 자리표시자로 바꿔 보냅니다. 응답에 자리표시자가 있으면 원래 값으로 되돌립니다.`
+                : '가릴 민감 정보가 없습니다. 아래 내용이 그대로 전송됩니다.',
+            cls: 'meta-text'
+        });
+
+        if (this.entries.length > 0) {
+            const listEl = contentEl.createEl('div', { cls: 'gemini-link-plan-list' });
+            this.entries.forEach(entry => {
+                new Setting(listEl)
+                    .setName(entry.placeholder)
+                    .setDesc(`${entry.label}: ${entry.value.length > 80 ? `${entry.value.substring(0, 80)}…` : entry.value}`);
+            });
+        }
+
+        const resultContainer = contentEl.createEl('div', { cls: 'gemini-result-container' });
+        resultContainer.createEl('pre', { text: this.text, cls: 'gemini-log-full-text' });
+
+        const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+        const closeButton = buttonContainer.createEl('button', { text: '닫기' });
+        closeButton.addEventListener('click', () => this.close());
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
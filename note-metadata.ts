@@ -0,0 +1,182 @@
+import { App, getAllTags, parseFrontMatterAliases, parseFrontMatterTags } from 'obsidian';
+import { JsonSchema } from './structured-output';
+
+export interface MetadataSettings {
+    // 새로 추가할 태그의 최대 개수 (기존 태그는 유지)
+    maxTags: number;
+    // 요약을 저장할 프론트매터 속성 (비우면 요약을 만들지 않음)
+    summaryProperty: string;
+    // 속성 이름 → 값을 만들 때 모델에게 전달할 설명
+    properties: Record<string, string>;
+}
+
+// 모델이 반환하는 메타데이터
+export interface GeneratedMetadata {
+    tags: string[];
+    aliases: string[];
+    summary: string;
+    properties?: Record<string, string>;
+}
+
+// 미리보기에서 항목별로 적용 여부를 고르는 프론트매터 변경
+export interface MetadataFieldChange {
+    key: string;
+    before: unknown;
+    after: unknown;
+}
+
+export type TagVocabulary = Map<string, { tag: string; count: number }>;
+
+// 태그에 쓸 수 없는 문자
+const INVALID_TAG_CHARS = /[!"#$%&'()*+,.:;<=>?@[\\\]^`{|}~]/g;
+
+// 태그를 프론트매터 형식으로 정리 (# 없음, 공백은 하이픈). 쓸 수 없는 태그는 null
+export function normalizeTag(tag: string): string | null {
+    const normalized = tag.trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .replace(INVALID_TAG_CHARS, '')
+        .replace(/\/{2,}/g, '/')
+        .replace(/^[/-]+|[/-]+$/g, '');
+    // 숫자로만 된 태그는 Obsidian에서 태그로 인식하지 않음
+    if (!normalized || /^[\d/]+$/.test(normalized)) return null;
+    return normalized;
+}
+
+// 볼트에서 쓰이는 태그 (소문자 → 처음 나온 표기와 사용한 노트 수)
+export function collectVaultTags(app: App): TagVocabulary {
+    const vocabulary: TagVocabulary = new Map();
+    for (const file of app.vault.getMarkdownFiles()) {
+        const cache = app.metadataCache.getFileCache(file);
+        if (!cache) continue;
+        const tags = new Set((getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, '')));
+        tags.forEach(tag => {
+            const key = tag.toLowerCase();
+            const entry = vocabulary.get(key);
+            if (entry) entry.count++;
+            else vocabulary.set(key, { tag, count: 1 });
+        });
+    }
+    return vocabulary;
+}
+
+// 프롬프트에 넣을 자주 쓰는 태그 목록
+export function topVaultTags(vocabulary: TagVocabulary, limit = 200): string[] {
+    return [...vocabulary.values()]
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+        .slice(0, limit)
+        .map(entry => entry.tag);
+}
+
+// 기존 태그는 그대로 두고 생성한 태그를 추가 (볼트에 이미 있는 태그는 그 표기를 사용)
+export function mergeTags(existing: string[], generated: string[], vocabulary: TagVocabulary, maxTags: number): string[] {
+    const merged = existing.map(tag => tag.replace(/^#/, ''));
+    const seen = new Set(merged.map(tag => tag.toLowerCase()));
+    let added = 0;
+    for (const candidate of generated) {
+        if (added >= maxTags) break;
+        const normalized = normalizeTag(candidate);
+        if (!normalized || seen.has(normalized.toLowerCase())) continue;
+        merged.push(vocabulary.get(normalized.toLowerCase())?.tag ?? normalized);
+        seen.add(normalized.toLowerCase());
+        added++;
+    }
+    return merged;
+}
+
+// 기존 별칭에 생성한 별칭을 추가 (노트 이름과 같은 별칭은 제외)
+export function mergeAliases(existing: string[], generated: string[], basename: string): string[] {
+    const merged = [...existing];
+    const seen = new Set([basename, ...existing].map(alias => alias.toLowerCase()));
+    for (const candidate of generated) {
+        const alias = candidate.trim();
+        if (!alias || seen.has(alias.toLowerCase())) continue;
+        merged.push(alias);
+        seen.add(alias.toLowerCase());
+    }
+    return merged;
+}
+
+// 설정 문자열("속성: 설명" 한 줄에 하나)을 속성 목록으로 변환
+export function parseMetadataProperties(text: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const match = line.match(/^\s*([^:\s][^:]*?)\s*:\s*(.+?)\s*$/);
+        if (match) {
+            properties[match[1]] = match[2];
+        }
+    }
+    return properties;
+}
+
+export function formatMetadataProperties(properties: Record<string, string>): string {
+    return Object.keys(properties)
+        .map(name => `${name}: ${properties[name]}`)
+        .join('\n');
+}
+
+// 설정에 맞는 응답 스키마 (사용자 속성이 있을 때만 properties 포함)
+export function buildMetadataSchema(settings: MetadataSettings): JsonSchema {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            tags: { type: 'array', description: '노트 주제를 나타내는 태그 (# 없이)', items: { type: 'string' } },
+            aliases: { type: 'array', description: '노트를 부를 수 있는 다른 이름', items: { type: 'string' } },
+            summary: { type: 'string', description: '노트 내용 1-2문장 요약' }
+        },
+        required: ['tags', 'aliases', 'summary']
+    };
+
+    const names = Object.keys(settings.properties);
+    if (names.length > 0 && schema.properties && schema.required) {
+        const properties: Record<string, JsonSchema> = {};
+        names.forEach(name => properties[name] = { type: 'string', description: settings.properties[name] });
+        schema.properties.properties = { type: 'object', properties, required: names };
+        schema.required.push('properties');
+    }
+    return schema;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 현재 프론트매터와 비교해 바뀌는 항목만 반환
+export function planMetadataChanges(
+    frontmatter: Record<string, unknown> | undefined,
+    generated: GeneratedMetadata,
+    vocabulary: TagVocabulary,
+    basename: string,
+    settings: MetadataSettings
+): MetadataFieldChange[] {
+    const changes: MetadataFieldChange[] = [];
+    const add = (key: string, after: unknown) => {
+        const before = frontmatter?.[key];
+        if (!sameValue(before, after)) changes.push({ key, before, after });
+    };
+
+    const existingTags = (frontmatter ? parseFrontMatterTags(frontmatter) ?? [] : []).map(tag => tag.replace(/^#/, ''));
+    const tags = mergeTags(existingTags, generated.tags, vocabulary, settings.maxTags);
+    if (tags.length > existingTags.length) add('tags', tags);
+
+    const existingAliases = frontmatter ? parseFrontMatterAliases(frontmatter) ?? [] : [];
+    const aliases = mergeAliases(existingAliases, generated.aliases, basename);
+    if (aliases.length > existingAliases.length) add('aliases', aliases);
+
+    const summary = generated.summary.trim();
+    if (settings.summaryProperty && summary) add(settings.summaryProperty, summary);
+
+    Object.keys(settings.properties).forEach(name => {
+        const value = generated.properties?.[name]?.trim();
+        if (value) add(name, value);
+    });
+    return changes;
+}
+
+// 미리보기 표시용 값
+export function formatMetadataValue(value: unknown): string {
+    if (value === undefined || value === null) return '(없음)';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
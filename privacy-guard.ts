@@ -0,0 +1,207 @@
+import { App, TFile } from 'obsidian';
+import { globToRegExp } from './graph-scope';
+
+export type PrivacyDetector = 'email' | 'phone' | 'residentNumber' | 'apiKey';
+
+export const PRIVACY_DETECTORS: Record<PrivacyDetector, string> = {
+    email: '이메일 주소',
+    phone: '전화번호',
+    residentNumber: '주민등록번호',
+    apiKey: 'API 키와 토큰',
+};
+
+export interface PrivacySettings {
+    // 켜 둔 기본 감지기
+    detectors: Record<PrivacyDetector, boolean>;
+    // 추가로 가릴 정규식 (한 줄에 하나, /패턴/플래그 형식 가능)
+    customPatterns: string[];
+    // 내용을 보내지 않을 폴더 글롭
+    blockedFolders: string[];
+}
+
+// 노트나 폴더 노트에 "gemini: never"로 표시하면 내용을 보내지 않음
+export const PRIVACY_FRONTMATTER_KEY = 'gemini';
+const PRIVACY_NEVER_VALUE = 'never';
+
+// 가린 값 대신 보내는 자리표시자 (예: [EMAIL_1])
+const PLACEHOLDER_PATTERN = /(\[(?:PRIVATE|API_KEY|RRN|EMAIL|PHONE|REDACTED)_\d+\])/;
+
+interface RedactionRule {
+    // 자리표시자 이름
+    kind: string;
+    label: string;
+    pattern: RegExp;
+    // 지정하면 이 캡처 그룹만 가림 (예: "api_key = 값"에서 값)
+    group?: number;
+}
+
+// %%private%% … %%/private%% 블록 (닫는 표시가 없으면 끝까지)
+const PRIVATE_BLOCK_RULE: RedactionRule = {
+    kind: 'PRIVATE',
+    label: '비공개 블록',
+    pattern: /%%\s*private\s*%%[\s\S]*?(?:%%\s*\/\s*private\s*%%|$)/gi
+};
+
+const DETECTOR_RULES: Record<PrivacyDetector, RedactionRule[]> = {
+    apiKey: [
+        { kind: 'API_KEY', label: PRIVACY_DETECTORS.apiKey, pattern: /\b(?:AIza[0-9A-Za-z_-]{35}|sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,})/g },
+        { kind: 'API_KEY', label: PRIVACY_DETECTORS.apiKey, pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+        { kind: 'API_KEY', label: PRIVACY_DETECTORS.apiKey, pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{20,}=*)/g, group: 1 },
+        { kind: 'API_KEY', label: PRIVACY_DETECTORS.apiKey, pattern: /\b(?:api[_-]?key|secret|token|password|passwd)\s*[:=]\s*["']?([^\s"']{8,})/gi, group: 1 }
+    ],
+    residentNumber: [
+        { kind: 'RRN', label: PRIVACY_DETECTORS.residentNumber, pattern: /\b\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\s?-?\s?[1-8]\d{6}\b/g }
+    ],
+    email: [
+        { kind: 'EMAIL', label: PRIVACY_DETECTORS.email, pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g }
+    ],
+    phone: [
+        // 국내 휴대전화, 지역번호, 070 (+82 포함)
+        { kind: 'PHONE', label: PRIVACY_DETECTORS.phone, pattern: /(?:\+82[-\s]?|\b0)(?:1[016789]|2|[3-6][1-5]|70)[-\s.)]?\d{3,4}[-\s.]?\d{4}\b/g },
+        // 국가 번호가 있는 해외 번호
+        { kind: 'PHONE', label: PRIVACY_DETECTORS.phone, pattern: /\+\d{1,3}[-\s]?\(?\d{1,4}\)?(?:[-\s]?\d{2,4}){2,3}\b/g }
+    ]
+};
+
+// 사용자 정규식 읽기 ("/패턴/플래그" 또는 패턴만). 잘못된 정규식이면 오류 발생
+export function compilePrivacyPattern(source: string): RegExp {
+    const match = source.match(/^\/(.+)\/([a-z]*)$/);
+    const pattern = match ? match[1] : source;
+    const flags = match ? match[2].replace(/g/g, '') : '';
+    const regex = new RegExp(pattern, `${flags}g`);
+    if (regex.test('')) {
+        throw new Error('빈 문자열과 일치하는 패턴은 사용할 수 없습니다.');
+    }
+    return regex;
+}
+
+// 설정 화면에 표시할 사용자 정규식 오류 목록
+export function validatePrivacyPatterns(patterns: string[]): string[] {
+    const errors: string[] = [];
+    patterns.forEach(source => {
+        try {
+            compilePrivacyPattern(source);
+        } catch (error) {
+            errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    return errors;
+}
+
+// 요청 하나에서 가린 값과 자리표시자 (응답의 자리표시자를 원래 값으로 되돌릴 때 사용)
+export class Redaction {
+    private rules: RedactionRule[];
+    private placeholders = new Map<string, string>();
+    private originals = new Map<string, { value: string; label: string }>();
+    private counters = new Map<string, number>();
+
+    constructor(rules: RedactionRule[]) {
+        this.rules = rules;
+    }
+
+    // 같은 값은 같은 자리표시자로 바꿈 (대화 기록처럼 여러 텍스트에 나눠 적용 가능)
+    apply(text: string): string {
+        let result = text;
+        for (const rule of this.rules) {
+            // 이미 넣은 자리표시자는 다른 규칙이 다시 가리지 않도록 나눠서 처리
+            result = result.split(PLACEHOLDER_PATTERN)
+                .map((segment, index) => index % 2 === 1 ? segment : segment.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+                    const secret = rule.group ? groups[rule.group - 1] : match;
+                    if (typeof secret !== 'string' || !secret) return match;
+                    const placeholder = this.placeholderFor(rule, secret);
+                    return rule.group ? match.replace(secret, placeholder) : placeholder;
+                }))
+                .join('');
+        }
+        return result;
+    }
+
+    // 응답의 자리표시자를 원래 값으로 되돌림 (escape: JSON 응답처럼 값을 이스케이프해야 할 때)
+    restore(text: string, escape: (value: string) => string = value => value): string {
+        if (this.originals.size === 0) return text;
+        return text.split(PLACEHOLDER_PATTERN)
+            .map((segment, index) => {
+                const original = index % 2 === 1 ? this.originals.get(segment) : undefined;
+                return original ? escape(original.value) : segment;
+            })
+            .join('');
+    }
+
+    get count(): number {
+        return this.originals.size;
+    }
+
+    // 종류별 가린 값 개수 (상호작용 로그에 기록)
+    summary(): Record<string, number> {
+        const summary: Record<string, number> = {};
+        this.originals.forEach(({ label }) => summary[label] = (summary[label] ?? 0) + 1);
+        return summary;
+    }
+
+    // 미리보기에 표시할 자리표시자와 원래 값
+    entries(): { placeholder: string; label: string; value: string }[] {
+        return [...this.originals.entries()].map(([placeholder, original]) => ({ placeholder, ...original }));
+    }
+
+    private placeholderFor(rule: RedactionRule, value: string): string {
+        const existing = this.placeholders.get(value);
+        if (existing) return existing;
+        const index = (this.counters.get(rule.kind) ?? 0) + 1;
+        this.counters.set(rule.kind, index);
+        const placeholder = `[${rule.kind}_${index}]`;
+        this.placeholders.set(value, placeholder);
+        this.originals.set(placeholder, { value, label: rule.label });
+        return placeholder;
+    }
+}
+
+// 외부 API로 보내기 전 노트 차단과 민감 정보 가리기
+export class PrivacyGuard {
+    private app: App;
+    private getSettings: () => PrivacySettings;
+
+    constructor(app: App, getSettings: () => PrivacySettings) {
+        this.app = app;
+        this.getSettings = getSettings;
+    }
+
+    // 내용을 보내지 않을 노트인지 (노트, 폴더 노트의 gemini: never 또는 차단 폴더)
+    isBlocked(file: TFile): boolean {
+        if (this.getSettings().blockedFolders.some(glob => globToRegExp(glob).test(file.path))) return true;
+        if (this.isMarkedNever(file)) return true;
+
+        // 폴더 노트(폴더와 이름이 같은 노트)에 표시하면 하위 노트 전체를 보내지 않음
+        for (let folder = file.parent; folder && !folder.isRoot(); folder = folder.parent) {
+            const folderNote = this.app.vault.getAbstractFileByPath(`${folder.path}/${folder.name}.md`);
+            if (folderNote instanceof TFile && this.isMarkedNever(folderNote)) return true;
+        }
+        return false;
+    }
+
+    // 현재 설정으로 새 가리기 세션 생성 (잘못된 사용자 정규식은 건너뜀)
+    createRedaction(): Redaction {
+        const settings = this.getSettings();
+        const rules: RedactionRule[] = [PRIVATE_BLOCK_RULE];
+        (Object.keys(DETECTOR_RULES) as PrivacyDetector[])
+            .filter(detector => settings.detectors[detector])
+            .forEach(detector => rules.push(...DETECTOR_RULES[detector]));
+        settings.customPatterns.forEach(source => {
+            try {
+                rules.push({ kind: 'REDACTED', label: '사용자 패턴', pattern: compilePrivacyPattern(source) });
+            } catch (error) {
+                console.warn(`개인정보 보호 패턴 오류 (${source}):`, error);
+            }
+        });
+        return new Redaction(rules);
+    }
+
+    // 되돌릴 필요가 없는 텍스트 가리기 (임베딩 등)
+    redact(text: string): string {
+        return this.createRedaction().apply(text);
+    }
+
+    private isMarkedNever(file: TFile): boolean {
+        const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[PRIVACY_FRONTMATTER_KEY];
+        return typeof value === 'string' && value.trim().toLowerCase() === PRIVACY_NEVER_VALUE;
+    }
+}
@@ -0,0 +1,48 @@
+import { Notice } from 'obsidian';
+
+// 진행률 막대와 취소 버튼이 있는 고정 알림 (오래 걸리는 명령용)
+export class ProgressNotice {
+    private notice: Notice;
+    private labelEl: HTMLElement;
+    private progressEl: HTMLProgressElement;
+    private controller = new AbortController();
+
+    constructor(title: string) {
+        this.notice = new Notice('', 0);
+        const container = this.notice.noticeEl.createDiv({ cls: 'gemini-progress' });
+        container.createEl('div', { text: title, cls: 'gemini-progress-title' });
+        this.labelEl = container.createEl('div', { cls: 'gemini-progress-label' });
+        this.progressEl = container.createEl('progress', { cls: 'gemini-progress-bar' });
+        this.progressEl.max = 1;
+        this.progressEl.value = 0;
+
+        const cancelButton = container.createEl('button', { text: '취소', cls: 'mod-warning' });
+        cancelButton.addEventListener('click', (evt) => {
+            // 버튼 클릭으로 알림이 닫히지 않도록 함
+            evt.stopPropagation();
+            this.controller.abort();
+            cancelButton.disabled = true;
+            this.labelEl.setText('취소하는 중...');
+        });
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    update(done: number, total: number, label?: string): void {
+        this.progressEl.max = Math.max(total, 1);
+        this.progressEl.value = done;
+        if (!this.cancelled) {
+            this.labelEl.setText(label ?? `${done}/${total}`);
+        }
+    }
+
+    hide(): void {
+        this.notice.hide();
+    }
+}
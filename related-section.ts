@@ -0,0 +1,255 @@
+import { App, TFile, parseYaml, stringifyYaml } from 'obsidian';
+
+// 관련 문서 목록 형식 (목록 / 콜아웃은 본문, frontmatter는 related 속성)
+export type RelatedSectionFormat = 'list' | 'callout' | 'frontmatter';
+// 새 관련 문서 영역을 넣을 위치 (이미 있으면 그 자리에서 다시 씀)
+export type RelatedSectionPosition = 'end' | 'afterFrontmatter' | 'underHeading';
+
+export interface RelatedSectionSettings {
+    format: RelatedSectionFormat;
+    position: RelatedSectionPosition;
+    headingText: string;
+    headingLevel: number;
+    // position이 underHeading일 때 기준이 되는 제목
+    anchorHeading: string;
+}
+
+export interface RelatedLink {
+    linktext: string;
+    context?: string;
+}
+
+export const RELATED_FRONTMATTER_KEY = 'related';
+
+const START_MARKER = '%% gemini-related:start %%';
+const END_MARKER = '%% gemini-related:end %%';
+
+// 관리 영역 안의 항목 (text는 목록 기호를 뺀 한 줄)
+interface SectionEntry {
+    key: string;
+    text: string;
+}
+
+// 첫 번째 위키링크의 대상으로 중복을 판단 (Obsidian 링크처럼 대소문자 무시)
+function linkKey(text: string): string | null {
+    const match = /\[\[([^\]|#]+)/.exec(text);
+    return match ? match[1].trim().toLowerCase() : null;
+}
+
+function parseEntries(lines: string[]): { entries: SectionEntry[]; others: string[] } {
+    const entries: SectionEntry[] = [];
+    const others: string[] = [];
+    for (const line of lines) {
+        const item = /^\s*[-*+]\s+(.*)$/.exec(line.replace(/^\s*>\s?/, ''));
+        const key = item ? linkKey(item[1]) : null;
+        if (item && key) {
+            if (!entries.some(entry => entry.key === key)) entries.push({ key, text: item[1].trim() });
+        } else if (line.trim() && !/^\s*(>\s*\[!|#{1,6}\s)/.test(line)) {
+            others.push(line);
+        }
+    }
+    return { entries, others };
+}
+
+// 기존 항목 순서를 유지하면서 같은 대상은 새 설명으로 바꾸고 새 대상은 뒤에 추가
+function mergeEntries(existing: SectionEntry[], links: RelatedLink[]): SectionEntry[] {
+    const merged = [...existing];
+    for (const link of links) {
+        const context = link.context?.replace(/\s*\n\s*/g, ' ').trim();
+        const entry = {
+            key: link.linktext.trim().toLowerCase(),
+            text: context ? `[[${link.linktext}]] - ${context}` : `[[${link.linktext}]]`
+        };
+        const index = merged.findIndex(item => item.key === entry.key);
+        if (index >= 0) merged[index] = entry;
+        else merged.push(entry);
+    }
+    return merged;
+}
+
+function renderBlock(entries: SectionEntry[], settings: RelatedSectionSettings): string[] {
+    const heading = settings.headingText.trim() || '관련 문서';
+    if (settings.format === 'callout') {
+        return [START_MARKER, `> [!note] ${heading}`, ...entries.map(entry => `> - ${entry.text}`), END_MARKER];
+    }
+    const level = Math.min(6, Math.max(1, Math.round(settings.headingLevel)));
+    return [START_MARKER, `${'#'.repeat(level)} ${heading}`, ...entries.map(entry => `- ${entry.text}`), END_MARKER];
+}
+
+// 코드 블록 밖의 제목 목록
+function findHeadings(lines: string[]): { line: number; level: number; text: string }[] {
+    const headings: { line: number; level: number; text: string }[] = [];
+    let inFence = false;
+    lines.forEach((line, index) => {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        if (inFence) return;
+        const match = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+        if (match) headings.push({ line: index, level: match[1].length, text: match[2].trim() });
+    });
+    return headings;
+}
+
+// 제목부터 같거나 더 높은 수준의 다음 제목 전까지의 범위
+function findHeadingSection(lines: string[], headingText: string): { start: number; end: number } | null {
+    const headings = findHeadings(lines);
+    const index = headings.findIndex(heading => heading.text === headingText.trim());
+    if (index === -1) return null;
+    const { line, level } = headings[index];
+    const next = headings.slice(index + 1).find(heading => heading.level <= level);
+    return { start: line, end: next ? next.line : lines.length };
+}
+
+function frontmatterEnd(lines: string[]): number {
+    if (lines[0] !== '---') return 0;
+    const close = lines.indexOf('---', 1);
+    return close === -1 ? 0 : close + 1;
+}
+
+// 본문의 관련 문서 영역을 갱신한 결과 (링크가 하나도 없으면 원본 그대로)
+// 표시가 있는 관리 영역은 그 자리에서 다시 쓰고, 표시 없는 예전 "관련 문서" 섹션은 관리 영역으로 바꿉니다.
+// 영역 안의 목록이 아닌 내용은 지우지 않고 영역 뒤로 옮깁니다.
+export function updateRelatedSection(content: string, links: RelatedLink[], settings: RelatedSectionSettings): string {
+    const lines = content.split('\n');
+
+    const start = lines.findIndex(line => line.trim() === START_MARKER);
+    const end = start === -1 ? -1 : lines.findIndex((line, index) => index > start && line.trim() === END_MARKER);
+    if (start !== -1 && end !== -1) {
+        const { entries, others } = parseEntries(lines.slice(start + 1, end));
+        const rest = others.length > 0 ? ['', ...others] : [];
+        lines.splice(start, end - start + 1, ...renderBlock(mergeEntries(entries, links), settings), ...rest);
+        return lines.join('\n');
+    }
+
+    const legacy = findHeadingSection(lines, settings.headingText);
+    if (legacy) {
+        const { entries, others } = parseEntries(lines.slice(legacy.start + 1, legacy.end));
+        const merged = mergeEntries(entries, links);
+        if (merged.length === 0) return content;
+        const rest = others.length > 0 ? ['', ...others, ''] : [''];
+        lines.splice(legacy.start, legacy.end - legacy.start, ...renderBlock(merged, settings), ...rest);
+        return lines.join('\n').replace(/\n+$/, '\n');
+    }
+
+    const entries = mergeEntries([], links);
+    if (entries.length === 0) return content;
+    const block = renderBlock(entries, settings);
+
+    let insertAt = -1;
+    if (settings.position === 'afterFrontmatter') {
+        insertAt = frontmatterEnd(lines);
+    } else if (settings.position === 'underHeading' && settings.anchorHeading.trim()) {
+        const anchor = findHeadings(lines).find(heading => heading.text === settings.anchorHeading.trim());
+        if (anchor) insertAt = anchor.line + 1;
+    }
+    if (insertAt === -1) {
+        return `${content.replace(/\s+$/, '')}\n\n${block.join('\n')}\n`;
+    }
+    const before = insertAt > 0 && lines[insertAt - 1].trim() ? [''] : [];
+    const after = insertAt < lines.length && lines[insertAt].trim() ? [''] : [];
+    lines.splice(insertAt, 0, ...before, ...block, ...after);
+    return lines.join('\n');
+}
+
+function relatedValues(frontmatter: Record<string, unknown>): string[] {
+    const current = frontmatter[RELATED_FRONTMATTER_KEY];
+    return Array.isArray(current) ? current.map(String) : typeof current === 'string' && current ? [current] : [];
+}
+
+// related 속성에 아직 없는 링크
+function missingRelatedLinks(frontmatter: Record<string, unknown>, links: RelatedLink[]): RelatedLink[] {
+    const values = relatedValues(frontmatter);
+    return links.filter(link => !values.some(value => linkKey(value) === link.linktext.trim().toLowerCase()));
+}
+
+// related 속성에 없는 링크만 추가 (직접 넣은 값은 그대로 유지, 추가한 링크가 없으면 false)
+// processFrontMatter 콜백에서 사용해 다른 속성은 건드리지 않습니다.
+export function addRelatedLinks(frontmatter: Record<string, unknown>, links: RelatedLink[]): boolean {
+    const missing = missingRelatedLinks(frontmatter, links);
+    if (missing.length === 0) return false;
+    frontmatter[RELATED_FRONTMATTER_KEY] = [...relatedValues(frontmatter), ...missing.map(link => `[[${link.linktext}]]`)];
+    return true;
+}
+
+// 미리보기에 보여줄, related 속성에 링크를 추가한 노트 내용 (실제 기록은 addRelatedLinks로)
+export function previewRelatedFrontmatter(content: string, links: RelatedLink[]): string {
+    const match = /^---\n([\s\S]*?)\n?---(?:\n|$)/.exec(content);
+    const parsed: unknown = match ? parseYaml(match[1]) : null;
+    if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) return content;
+    const frontmatter = { ...(parsed ?? {}) } as Record<string, unknown>;
+    if (!addRelatedLinks(frontmatter, links)) return content;
+
+    const block = `---\n${stringifyYaml(frontmatter)}---\n`;
+    return match ? block + content.substring(match[0].length) : block + content;
+}
+
+// 설정된 형식으로 관련 문서 링크를 반영한 노트 내용 (frontmatter 형식은 미리보기용)
+export function applyRelatedLinks(content: string, links: RelatedLink[], settings: RelatedSectionSettings): string {
+    return settings.format === 'frontmatter'
+        ? previewRelatedFrontmatter(content, links)
+        : updateRelatedSection(content, links, settings);
+}
+
+// 노트 하나의 변경 계획 (미리보기와 되돌리기에 사용)
+export interface RelatedLinkChange {
+    path: string;
+    before: string;
+    after: string;
+    links: RelatedLink[];
+}
+
+// 노트의 관련 문서 목록을 설정된 형식으로 기록
+export class RelatedSectionWriter {
+    private app: App;
+    private getSettings: () => RelatedSectionSettings;
+
+    constructor(app: App, getSettings: () => RelatedSectionSettings) {
+        this.app = app;
+        this.getSettings = getSettings;
+    }
+
+    // 파일을 바꾸지 않고 변경 계획만 계산 (바뀌는 내용이 없으면 null)
+    async plan(file: TFile, links: RelatedLink[]): Promise<RelatedLinkChange | null> {
+        const before = await this.app.vault.read(file);
+        const after = applyRelatedLinks(before, links, this.getSettings());
+        return after === before ? null : { path: file.path, before, after, links };
+    }
+
+    // 계획을 만든 뒤 노트가 바뀌지 않았을 때만 적용하고 기록된 노트 내용을 반환 (건너뛰면 null)
+    async apply(file: TFile, change: RelatedLinkChange): Promise<string | null> {
+        if (this.getSettings().format === 'frontmatter') {
+            if (await this.app.vault.read(file) !== change.before) return null;
+            return this.writeFrontmatter(file, change.links);
+        }
+        let applied = false;
+        await this.app.vault.process(file, data => {
+            applied = data === change.before;
+            return applied ? change.after : data;
+        });
+        return applied ? change.after : null;
+    }
+
+    // 바뀐 노트 내용을 반환 (추가하거나 바꿀 링크가 없으면 null)
+    async write(file: TFile, links: RelatedLink[]): Promise<string | null> {
+        const settings = this.getSettings();
+        if (settings.format === 'frontmatter') return this.writeFrontmatter(file, links);
+        let changed = false;
+        const content = await this.app.vault.process(file, data => {
+            const updated = applyRelatedLinks(data, links, settings);
+            changed = updated !== data;
+            return updated;
+        });
+        return changed ? content : null;
+    }
+
+    // related 속성만 갱신 (다른 속성과 형식은 Obsidian이 유지)
+    private async writeFrontmatter(file: TFile, links: RelatedLink[]): Promise<string | null> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        if (missingRelatedLinks(frontmatter, links).length === 0) return null;
+
+        let changed = false;
+        await this.app.fileManager.processFrontMatter(file, data => {
+            changed = addRelatedLinks(data, links);
+        });
+        return changed ? this.app.vault.read(file) : null;
+    }
+}
@@ -0,0 +1,213 @@
+export interface RequestSchedulerOptions {
+    requestsPerMinute: number;
+    maxConcurrency: number;
+    maxRetries: number;
+    timeoutMs: number;
+}
+
+export interface ScheduleOptions {
+    signal?: AbortSignal;
+    // 기본 재시도 횟수를 덮어씀 (스트리밍처럼 재시도하면 안 되는 요청은 0)
+    maxRetries?: number;
+    // false이면 요청별 타임아웃을 적용하지 않음
+    timeout?: boolean;
+}
+
+// 요청 취소 시 발생하는 오류
+export class RequestAbortedError extends Error {
+    constructor() {
+        super('Request was cancelled.');
+        this.name = 'AbortError';
+    }
+}
+
+// 요청 타임아웃 시 발생하는 오류
+export class RequestTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+        this.name = 'TimeoutError';
+    }
+}
+
+// HTTP 상태 코드를 가진 오류에서 상태 코드 추출 (Gemini SDK, OpenAI 호환 제공자 공통)
+export function getErrorStatus(error: unknown): number | undefined {
+    if (error && typeof error === 'object' && 'status' in error) {
+        const status = (error as { status?: unknown }).status;
+        if (typeof status === 'number') return status;
+    }
+    if (error instanceof Error) {
+        const match = error.message.match(/\[(\d{3})[^\]]*\]/);
+        if (match) return Number(match[1]);
+    }
+    return undefined;
+}
+
+// 429와 5xx, 타임아웃만 재시도
+export function isRetryableError(error: unknown): boolean {
+    if (error instanceof RequestTimeoutError) return true;
+    const status = getErrorStatus(error);
+    return status === 429 || (status !== undefined && status >= 500);
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof RequestAbortedError
+        || (error instanceof Error && error.name === 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestAbortedError());
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            window.clearTimeout(timer);
+            reject(new RequestAbortedError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// 모든 모델 호출을 감싸는 요청 스케줄러
+// 분당 요청 수와 동시 실행 수를 제한하고, 429/5xx 오류는 지수 백오프로 재시도합니다.
+export class RequestScheduler {
+    private options: RequestSchedulerOptions;
+    private running = 0;
+    private waiting: (() => void)[] = [];
+    private startTimes: number[] = [];
+
+    constructor(options: RequestSchedulerOptions) {
+        this.options = options;
+    }
+
+    updateOptions(options: RequestSchedulerOptions): void {
+        this.options = options;
+        this.releaseWaiting();
+    }
+
+    get pendingCount(): number {
+        return this.running + this.waiting.length;
+    }
+
+    async schedule<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+        const maxRetries = options.maxRetries ?? this.options.maxRetries;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(options.signal);
+            let failure: unknown;
+            try {
+                return await this.runAttempt(task, options);
+            } catch (error) {
+                failure = error;
+            } finally {
+                this.release();
+            }
+
+            if (options.signal?.aborted) throw new RequestAbortedError();
+            if (attempt >= maxRetries || !isRetryableError(failure)) throw failure;
+
+            const delay = Math.min(1000 * Math.pow(2, attempt), 30000) + Math.random() * 500;
+            console.warn(`요청 실패, ${Math.round(delay)}ms 후 재시도 (${attempt + 1}/${maxRetries}):`, failure);
+            await sleep(delay, options.signal);
+        }
+    }
+
+    private async runAttempt<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions): Promise<T> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        let timer: number | undefined;
+        let rejectOnAbort: (() => void) | undefined;
+        const useTimeout = options.timeout !== false && this.options.timeoutMs > 0;
+
+        try {
+            const pending = [task(controller.signal)];
+            if (useTimeout) {
+                pending.push(new Promise<T>((_, reject) => {
+                    timer = window.setTimeout(() => {
+                        controller.abort();
+                        reject(new RequestTimeoutError(this.options.timeoutMs));
+                    }, this.options.timeoutMs);
+                }));
+            }
+            if (options.signal) {
+                const signal = options.signal;
+                pending.push(new Promise<T>((_, reject) => {
+                    if (signal.aborted) reject(new RequestAbortedError());
+                    rejectOnAbort = () => reject(new RequestAbortedError());
+                    signal.addEventListener('abort', rejectOnAbort, { once: true });
+                }));
+            }
+            return await Promise.race(pending);
+        } finally {
+            if (timer !== undefined) window.clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+            if (rejectOnAbort) options.signal?.removeEventListener('abort', rejectOnAbort);
+        }
+    }
+
+    // 동시 실행 수와 분당 요청 수 한도 안에서 실행 슬롯 확보
+    private async acquire(signal?: AbortSignal): Promise<void> {
+        for (;;) {
+            if (signal?.aborted) throw new RequestAbortedError();
+
+            if (this.running < Math.max(1, this.options.maxConcurrency)) {
+                const now = Date.now();
+                this.startTimes = this.startTimes.filter(time => now - time < 60000);
+                if (this.options.requestsPerMinute <= 0 || this.startTimes.length < this.options.requestsPerMinute) {
+                    this.running++;
+                    this.startTimes.push(now);
+                    return;
+                }
+                // 가장 오래된 요청이 1분 창을 벗어날 때까지 대기
+                await sleep(60000 - (now - this.startTimes[0]) + 10, signal);
+                continue;
+            }
+
+            await new Promise<void>((resolve, reject) => {
+                const onAbort = () => {
+                    this.waiting = this.waiting.filter(waiter => waiter !== wake);
+                    reject(new RequestAbortedError());
+                };
+                const wake = () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                this.waiting.push(wake);
+                signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+    }
+
+    private release(): void {
+        this.running = Math.max(0, this.running - 1);
+        this.releaseWaiting();
+    }
+
+    private releaseWaiting(): void {
+        const available = Math.max(1, this.options.maxConcurrency) - this.running;
+        this.waiting.splice(0, Math.max(0, available)).forEach(wake => wake());
+    }
+}
+
+// 항목을 최대 limit개씩 동시에 처리 (취소되면 남은 항목은 건너뜀)
+export async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+}
@@ -1,7 +1,22 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, MarkdownView, PluginSettingTab, Setting, Notice, TextAreaComponent } from 'obsidian';
 import GeminiCopilotPlugin from './main';
-import { CustomPrompt, DEFAULT_SETTINGS } from './main';
-import { CustomPromptModal } from './modals';
+import { CUSTOM_PROMPT_OUTPUT_MODES, CustomPrompt, DEFAULT_SETTINGS, EmbeddingProviderType } from './main';
+import { CustomPromptModal, TemplatePreviewModal } from './modals';
+import { createId } from './ids';
+import { LLMFeature, LLMProviderType, LLM_FEATURE_LABELS, USAGE_FEATURE_LABELS, UsageFeature } from './llm-provider';
+import { UsageSummaryRow, formatDate, formatPriceTable, parsePriceTable } from './usage';
+import { TEMPLATE_VARIABLES, renderTemplateIssues, validateTemplate } from './template-engine';
+import { RelatedSectionFormat, RelatedSectionPosition } from './related-section';
+import { GraphScopeSettings, parseScopeList } from './graph-scope';
+import { formatMetadataProperties, parseMetadataProperties } from './note-metadata';
+import { OPENAI_KEY_NAME, geminiKeyName } from './key-profiles';
+import { PRIVACY_DETECTORS, PrivacyDetector, validatePrivacyPatterns } from './privacy-guard';
+import { ATTACHMENT_OUTPUTS, AttachmentOutput } from './attachments';
+
+const PROVIDER_OPTIONS: Record<LLMProviderType, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI 호환 (로컬/사내 서버)',
+};
 
 export class GeminiCopilotSettingTab extends PluginSettingTab {
     plugin: GeminiCopilotPlugin;
@@ -17,28 +32,75 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
         containerEl.empty();
         containerEl.createEl('h2', { text: 'Gemini Copilot Settings' });
 
+        // 키 프로필 (API 키와 기본 모델 묶음)
+        const profiles = this.plugin.settings.keyProfiles;
+        const profile = this.plugin.getActiveKeyProfile();
         new Setting(containerEl)
-            .setName('Gemini API Key')
-            .setDesc('Enter your Gemini API key from Google AI Studio.')
+            .setName('키 프로필')
+            .setDesc('업무용, 개인용처럼 API 키와 기본 모델을 프로필로 나눠 둘 수 있습니다. 명령어 팔레트의 "Gemini 키 프로필 전환"으로도 바꿀 수 있습니다.')
+            .addDropdown(dropdown => {
+                profiles.forEach(item => dropdown.addOption(item.id, item.name));
+                dropdown.setValue(profile.id)
+                    .onChange(async (value) => {
+                        await this.plugin.switchKeyProfile(value);
+                        this.display();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('추가')
+                .onClick(async () => {
+                    const added = { id: createId(), name: `프로필 ${profiles.length + 1}`, geminiModel: profile.geminiModel };
+                    profiles.push(added);
+                    await this.plugin.switchKeyProfile(added.id);
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('삭제')
+                .setWarning()
+                .setDisabled(profiles.length <= 1)
+                .onClick(async () => {
+                    if (profiles.length <= 1) return;
+                    this.plugin.secrets.set(geminiKeyName(profile), '');
+                    this.plugin.settings.keyProfiles = profiles.filter(item => item.id !== profile.id);
+                    await this.plugin.switchKeyProfile(this.plugin.settings.keyProfiles[0].id);
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('프로필 이름')
             .addText(text => text
-                .setPlaceholder('Enter API key')
-                .setValue(this.plugin.settings.geminiApiKey)
+                .setValue(profile.name)
                 .onChange(async (value) => {
-                    this.plugin.settings.geminiApiKey = value;
+                    profile.name = value.trim() || profile.name;
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Gemini API Key')
+            .setDesc('Google AI Studio에서 발급한 키입니다. data.json이 아니라 이 기기의 로컬 저장소에 저장되므로 동기화되거나 커밋되지 않습니다. 기기마다 한 번씩 입력하세요.')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.setPlaceholder('Enter API key')
+                    .setValue(this.plugin.secrets.get(geminiKeyName(profile)))
+                    .onChange(async (value) => {
+                        this.plugin.secrets.set(geminiKeyName(profile), value.trim());
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         new Setting(containerEl)
             .setName('Gemini Model')
-            .setDesc('Enter the Gemini model name to use (e.g., gemini-pro, gemini-2.0-pro).')
+            .setDesc('이 프로필에서 사용할 Gemini 모델 이름입니다 (e.g., gemini-pro, gemini-2.0-pro).')
             .addText(text => text
                 .setPlaceholder('예: gemini-pro')
-                .setValue(this.plugin.settings.geminiModel)
+                .setValue(profile.geminiModel)
                 .onChange(async (value) => {
-                    this.plugin.settings.geminiModel = value;
+                    profile.geminiModel = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
+        this.addConnectionTest(containerEl, 'gemini', model => profile.geminiModel = model);
+
         new Setting(containerEl)
             .setName('Default New File Location')
             .setDesc('Set the default location for new files created by Gemini Copilot.')
@@ -54,6 +116,208 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
                 })
             );
 
+        // LLM 제공자 설정 섹션
+        containerEl.createEl('h3', { text: 'LLM 제공자 설정' });
+
+        new Setting(containerEl)
+            .setName('기본 제공자')
+            .setDesc('별도로 지정하지 않은 기능에 사용할 LLM 제공자입니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions(PROVIDER_OPTIONS)
+                .setValue(this.plugin.settings.defaultProvider)
+                .onChange(async (value) => {
+                    this.plugin.settings.defaultProvider = value as LLMProviderType;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('OpenAI 호환 Base URL')
+            .setDesc('OpenAI 호환 서버의 주소입니다 (예: Ollama http://localhost:11434/v1, llama.cpp http://localhost:8080/v1).')
+            .addText(text => text
+                .setPlaceholder('http://localhost:11434/v1')
+                .setValue(this.plugin.settings.openAICompatible.baseUrl)
+                .onChange(async (value) => {
+                    this.plugin.settings.openAICompatible.baseUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('OpenAI 호환 API Key')
+            .setDesc('인증이 필요 없는 로컬 서버라면 비워 두세요. Gemini 키처럼 이 기기의 로컬 저장소에만 저장됩니다.')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.setPlaceholder('Enter API key')
+                    .setValue(this.plugin.secrets.get(OPENAI_KEY_NAME))
+                    .onChange(async (value) => {
+                        this.plugin.secrets.set(OPENAI_KEY_NAME, value.trim());
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('OpenAI 호환 모델')
+            .setDesc('서버에서 사용할 모델 이름입니다 (예: llama3.1, qwen2.5).')
+            .addText(text => text
+                .setPlaceholder('예: llama3.1')
+                .setValue(this.plugin.settings.openAICompatible.model)
+                .onChange(async (value) => {
+                    this.plugin.settings.openAICompatible.model = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        this.addConnectionTest(containerEl, 'openai', model => this.plugin.settings.openAICompatible.model = model);
+
+        containerEl.createEl('h4', { text: '기능별 제공자' });
+        (Object.keys(LLM_FEATURE_LABELS) as LLMFeature[]).forEach(feature => {
+            new Setting(containerEl)
+                .setName(LLM_FEATURE_LABELS[feature])
+                .addDropdown(dropdown => dropdown
+                    .addOption('default', '기본 제공자 사용')
+                    .addOptions(PROVIDER_OPTIONS)
+                    .setValue(this.plugin.settings.featureProviders[feature] ?? 'default')
+                    .onChange(async (value) => {
+                        if (value === 'default') {
+                            delete this.plugin.settings.featureProviders[feature];
+                        } else {
+                            this.plugin.settings.featureProviders[feature] = value as LLMProviderType;
+                        }
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        // 요청 설정 섹션
+        containerEl.createEl('h3', { text: '요청 설정' });
+
+        new Setting(containerEl)
+            .setName('분당 최대 요청 수')
+            .setDesc('모든 모델 호출(임베딩 포함)에 적용되는 분당 요청 한도입니다. 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('15')
+                .setValue(String(this.plugin.settings.requestSettings.requestsPerMinute))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.requestSettings.requestsPerMinute = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 동시 요청 수')
+            .setDesc('동시에 실행할 수 있는 요청 수입니다.')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.requestSettings.maxConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.requestSettings.maxConcurrency = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 재시도 횟수')
+            .setDesc('429(할당량 초과)나 5xx 오류, 타임아웃 발생 시 지수 백오프로 재시도할 횟수입니다.')
+            .addSlider(slider => slider
+                .setLimits(0, 6, 1)
+                .setValue(this.plugin.settings.requestSettings.maxRetries)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.requestSettings.maxRetries = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('요청 타임아웃 (초)')
+            .setDesc('요청 하나가 이 시간 안에 끝나지 않으면 중단하고 재시도합니다. 스트리밍 응답에는 적용되지 않습니다.')
+            .addSlider(slider => slider
+                .setLimits(10, 300, 10)
+                .setValue(this.plugin.settings.requestSettings.timeoutSeconds)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.requestSettings.timeoutSeconds = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 긴 노트 처리 설정 섹션
+        containerEl.createEl('h3', { text: '긴 노트 처리' });
+        containerEl.createEl('p', {
+            text: '모델 입력 한도를 넘는 노트는 제목 단위 조각으로 나눠 부분별로 처리한 뒤 결과를 합칩니다. (제목, 요약, 해시태그, 메타데이터, 핵심 개념 추출, 일괄 작업)',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('조각 최대 토큰 수')
+            .setDesc('조각 하나에 넣을 최대 토큰 수입니다. 모델 입력 한도가 더 작으면 그 한도에 맞춥니다.')
+            .addText(text => text
+                .setPlaceholder('8000')
+                .setValue(String(this.plugin.settings.longNoteSettings.maxChunkTokens))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 500) return;
+                    this.plugin.settings.longNoteSettings.maxChunkTokens = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('기본 컨텍스트 크기 (토큰)')
+            .setDesc('입력 한도를 조회할 수 없는 모델(OpenAI 호환 서버 등)에 사용할 컨텍스트 크기입니다.')
+            .addText(text => text
+                .setPlaceholder('8192')
+                .setValue(String(this.plugin.settings.longNoteSettings.defaultContextTokens))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 1000) return;
+                    this.plugin.settings.longNoteSettings.defaultContextTokens = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 개인정보 보호 설정 섹션 (모든 요청과 임베딩에 적용)
+        containerEl.createEl('h3', { text: '개인정보 보호' });
+        containerEl.createEl('p', {
+            text: '보내기 전에 민감 정보를 [EMAIL_1] 같은 자리표시자로 바꾸고, 응답에 자리표시자가 있으면 원래 값으로 되돌립니다. %%private%% … %%/private%% 사이의 내용은 항상 가립니다. 프론트매터에 gemini: never가 있는 노트와 그런 폴더 노트가 있는 폴더는 보내지 않습니다.',
+            cls: 'setting-item-description'
+        });
+
+        (Object.keys(PRIVACY_DETECTORS) as PrivacyDetector[]).forEach(detector => {
+            new Setting(containerEl)
+                .setName(`${PRIVACY_DETECTORS[detector]} 가리기`)
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.privacySettings.detectors[detector])
+                    .onChange(async (value) => {
+                        this.plugin.settings.privacySettings.detectors[detector] = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        const patternIssuesEl = createDiv({ cls: 'gemini-template-issues' });
+        const renderPatternIssues = (patterns: string[]) => {
+            patternIssuesEl.empty();
+            validatePrivacyPatterns(patterns).forEach(error => patternIssuesEl.createEl('div', { text: `오류: ${error}`, cls: 'error-text' }));
+        };
+        const patternsSetting = new Setting(containerEl)
+            .setName('추가로 가릴 패턴')
+            .setDesc('한 줄에 정규식 하나를 입력합니다. /패턴/i 형식으로 플래그를 지정할 수 있습니다. (예: 프로젝트-\\d{4}) 잘못된 패턴은 사용하지 않습니다.')
+            .addTextArea(textarea => textarea
+                .setValue(this.plugin.settings.privacySettings.customPatterns.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.privacySettings.customPatterns = value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+                    renderPatternIssues(this.plugin.settings.privacySettings.customPatterns);
+                    await this.plugin.saveSettings();
+                }));
+        (patternsSetting.components[0] as TextAreaComponent).inputEl.addClass('prompt-template-textarea');
+        containerEl.appendChild(patternIssuesEl);
+        renderPatternIssues(this.plugin.settings.privacySettings.customPatterns);
+
+        new Setting(containerEl)
+            .setName('보내지 않을 폴더')
+            .setDesc('쉼표로 구분한 폴더 글롭입니다. 이 폴더의 노트는 명령어, 지식 그래프, 채팅, 일괄 작업 어디에서도 보내지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('Private, Journal/**')
+                .setValue(this.plugin.settings.privacySettings.blockedFolders.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.privacySettings.blockedFolders = parseScopeList(value);
+                    await this.plugin.saveSettings();
+                }));
+
         // 프롬프트 템플릿 설정 섹션
         containerEl.createEl('h3', { text: '프롬프트 템플릿 설정' });
         containerEl.createEl('p', { 
@@ -62,9 +326,11 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
         });
         
         const variablesList = containerEl.createEl('ul');
-        variablesList.createEl('li', { text: '{{content}} - 선택한 텍스트 또는 노트 내용' });
-        variablesList.createEl('li', { text: '{{currentTitle}} - 현재 노트의 제목 (노트 제목 생성 시 사용)' });
-        variablesList.createEl('li', { text: '{{sourceTitle}}, {{sourceConcepts}}, {{targetTitle}}, {{targetConcepts}} - 문서 관계 분석 시 사용' });
+        Object.entries(TEMPLATE_VARIABLES).forEach(([name, description]) => {
+            variablesList.createEl('li', { text: `{{${name}}} - ${description}` });
+        });
+        variablesList.createEl('li', { text: '{{#if 변수}} … {{else}} … {{/if}} - 변수 값이 있을 때만 포함 ({{#if !변수}}는 반대)' });
+        variablesList.createEl('li', { text: '\\{{ - 중괄호를 그대로 출력' });
 
         // 노트 제목 생성 프롬프트
         this.addPromptTemplateSetting(
@@ -114,6 +380,59 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
             'promptTemplates.analyzeDocumentRelation'
         );
 
+        // 주제 군집 이름 생성 프롬프트
+        this.addPromptTemplateSetting(
+            containerEl,
+            '주제 군집 이름 생성 프롬프트',
+            '주제 군집의 이름과 요약을 만들 때 사용하는 프롬프트입니다. JSON으로 name과 summary를 반환해야 합니다.',
+            'promptTemplates.describeTopicCluster'
+        );
+
+        // 메타데이터 생성 프롬프트
+        this.addPromptTemplateSetting(
+            containerEl,
+            '메타데이터 생성 프롬프트',
+            '노트의 태그, 별칭, 요약, 사용자 속성을 만들 때 사용하는 프롬프트입니다. 응답 형식은 메타데이터 설정에 맞는 JSON 스키마로 지정됩니다.',
+            'promptTemplates.generateMetadata'
+        );
+
+        // 인라인 자동 완성 프롬프트
+        this.addPromptTemplateSetting(
+            containerEl,
+            '인라인 자동 완성 프롬프트',
+            '입력을 멈췄을 때 커서 뒤에 이어질 텍스트를 제안하는 프롬프트입니다. 응답은 그대로 회색 제안으로 표시되므로 이어질 텍스트만 출력하도록 지시하세요.',
+            'promptTemplates.inlineCompletion'
+        );
+
+        // 첨부 파일 설명 프롬프트 (이미지나 PDF가 프롬프트와 함께 전송됨)
+        this.addPromptTemplateSetting(
+            containerEl,
+            '첨부 이미지 대체 텍스트 프롬프트',
+            '임베드한 이미지의 대체 텍스트를 만들 때 사용하는 프롬프트입니다. 응답은 임베드의 대체 텍스트로 들어가므로 한 문장만 출력하도록 지시하세요.',
+            'promptTemplates.attachmentAltText'
+        );
+
+        this.addPromptTemplateSetting(
+            containerEl,
+            '첨부 파일 텍스트 추출 (OCR) 프롬프트',
+            '이미지나 PDF의 글자를 옮겨 적을 때 사용하는 프롬프트입니다.',
+            'promptTemplates.attachmentOcr'
+        );
+
+        this.addPromptTemplateSetting(
+            containerEl,
+            '첨부 그림 설명 프롬프트',
+            '사진, 도표, 그래프, 다이어그램을 설명할 때 사용하는 프롬프트입니다.',
+            'promptTemplates.attachmentDescription'
+        );
+
+        this.addPromptTemplateSetting(
+            containerEl,
+            '첨부 PDF 요약 프롬프트',
+            '임베드한 PDF 문서를 요약할 때 사용하는 프롬프트입니다.',
+            'promptTemplates.attachmentPdfSummary'
+        );
+
         // 프롬프트 초기화 버튼
         new Setting(containerEl)
             .setName('모든 프롬프트 초기화')
@@ -133,7 +452,7 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('지식 그래프 활성화')
-            .setDesc('자동으로 문서 간 연결을 생성하고 그래프 뷰에 표시합니다.')
+            .setDesc('자동으로 문서 간 연결을 생성하고 그래프 뷰에 표시합니다. 활성화하면 수정된 노트를 백그라운드에서 다시 분석합니다.')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.knowledgeGraphSettings.enabled)
                 .onChange(async (value) => {
@@ -143,7 +462,7 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('최소 유사도 점수')
-            .setDesc('문서 간 연결을 생성하기 위한 최소 유사도 점수 (0.0 ~ 1.0)')
+            .setDesc('문서 간 연결을 생성하기 위한 최소 임베딩 유사도 점수 (0.0 ~ 1.0)')
             .addSlider(slider => slider
                 .setLimits(0.1, 0.9, 0.1)
                 .setValue(this.plugin.settings.knowledgeGraphSettings.minSimilarityScore)
@@ -175,6 +494,410 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('링크 추가 전 미리보기')
+            .setDesc('자동으로 링크를 추가하기 전에 변경될 노트와 변경 내용을 보여주고, 선택한 노트에만 적용합니다. 적용한 변경은 "마지막 Gemini 링크 일괄 변경 되돌리기" 명령으로 되돌릴 수 있습니다.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.knowledgeGraphSettings.previewLinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.previewLinks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const relatedSettings = this.plugin.settings.relatedSectionSettings;
+
+        new Setting(containerEl)
+            .setName('관련 문서 형식')
+            .setDesc('관련 문서 링크를 기록하는 방식입니다. 목록과 콜아웃은 %% gemini-related %% 표시 사이의 영역을 실행할 때마다 다시 쓰며, 직접 추가한 링크는 유지합니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    list: '제목 + 목록',
+                    callout: '콜아웃',
+                    frontmatter: '프론트매터 related 속성',
+                })
+                .setValue(relatedSettings.format)
+                .onChange(async (value) => {
+                    relatedSettings.format = value as RelatedSectionFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('관련 문서 위치')
+            .setDesc('관련 문서 영역이 아직 없는 노트에서 영역을 만들 위치입니다. 기준 제목을 찾지 못하면 노트 끝에 추가합니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    end: '노트 끝',
+                    afterFrontmatter: '프론트매터 바로 아래',
+                    underHeading: '기준 제목 아래',
+                })
+                .setValue(relatedSettings.position)
+                .onChange(async (value) => {
+                    relatedSettings.position = value as RelatedSectionPosition;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('기준 제목')
+            .setDesc('위치가 "기준 제목 아래"일 때 관련 문서 영역을 넣을 제목 텍스트 (# 제외)')
+            .addText(text => text
+                .setPlaceholder('참고')
+                .setValue(relatedSettings.anchorHeading)
+                .onChange(async (value) => {
+                    relatedSettings.anchorHeading = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('관련 문서 제목')
+            .setDesc('관련 문서 영역의 제목 텍스트와 수준입니다. 같은 제목의 예전 섹션은 다음 실행 때 관리 영역으로 바뀝니다.')
+            .addText(text => text
+                .setPlaceholder('관련 문서')
+                .setValue(relatedSettings.headingText)
+                .onChange(async (value) => {
+                    relatedSettings.headingText = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addDropdown(dropdown => dropdown
+                .addOptions({ '1': 'H1', '2': 'H2', '3': 'H3', '4': 'H4', '5': 'H5', '6': 'H6' })
+                .setValue(String(relatedSettings.headingLevel))
+                .onChange(async (value) => {
+                    relatedSettings.headingLevel = parseInt(value, 10);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('임베딩 제공자')
+            .setDesc('문서 유사도 계산에 사용할 임베딩입니다. 로컬 임베딩은 API 호출 없이 동작하지만 정확도가 낮습니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    gemini: 'Gemini Embedding API',
+                    local: '로컬 (오프라인)',
+                })
+                .setValue(this.plugin.settings.knowledgeGraphSettings.embeddingProvider)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.embeddingProvider = value as EmbeddingProviderType;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('임베딩 모델')
+            .setDesc('Gemini 임베딩 모델 이름 (예: text-embedding-004). 모델을 바꾸면 저장된 임베딩이 초기화됩니다.')
+            .addText(text => text
+                .setPlaceholder('text-embedding-004')
+                .setValue(this.plugin.settings.knowledgeGraphSettings.embeddingModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.embeddingModel = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('내보내기 폴더')
+            .setDesc('"지식 그래프 내보내기" 명령어(JSON, GraphML, Mermaid, Canvas)로 만든 파일을 저장할 폴더입니다.')
+            .addText(text => text
+                .setPlaceholder('Gemini Graph')
+                .setValue(this.plugin.settings.knowledgeGraphSettings.exportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.exportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('MOC 노트 폴더')
+            .setDesc('"주제 군집 및 MOC 노트 생성" 명령어가 주제별 MOC(Map of Content) 노트를 만들 폴더입니다. 이미 만든 MOC 노트는 위치를 옮겨도 프론트매터의 gemini-moc 값으로 찾아 갱신합니다.')
+            .addText(text => text
+                .setPlaceholder('Gemini MOC')
+                .setValue(this.plugin.settings.mocSettings.folder)
+                .onChange(async (value) => {
+                    this.plugin.settings.mocSettings.folder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최소 군집 크기')
+            .setDesc('이보다 적은 노트로 이루어진 군집은 MOC 노트를 만들지 않습니다.')
+            .addSlider(slider => slider
+                .setLimits(2, 20, 1)
+                .setValue(this.plugin.settings.mocSettings.minClusterSize)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.mocSettings.minClusterSize = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 분석 범위 (지식 그래프, 관련 문서 찾기, 채팅 볼트 검색에 공통 적용)
+        containerEl.createEl('h4', { text: '분석 범위' });
+        containerEl.createEl('p', {
+            text: '지식 그래프, 관련 문서 찾기, 채팅의 볼트 검색에 사용할 노트를 제한합니다. 파일 탐색기에서 폴더를 우클릭해 "이 폴더로 지식 그래프 생성"을 실행할 수도 있습니다.',
+            cls: 'setting-item-description'
+        });
+
+        const scopeListSetting = (name: string, desc: string, placeholder: string, key: keyof Pick<GraphScopeSettings, 'includeFolders' | 'excludeFolders' | 'includeTags' | 'excludeTags'>) => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setPlaceholder(placeholder)
+                    .setValue(this.plugin.settings.knowledgeGraphSettings[key].join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.knowledgeGraphSettings[key] = parseScopeList(value);
+                        await this.plugin.saveSettings();
+                    }));
+        };
+        scopeListSetting('포함할 폴더', '쉼표로 구분한 폴더 글롭 (*, **, ? 사용 가능). 비워 두면 모든 폴더를 포함합니다.', 'Projects, Notes/**', 'includeFolders');
+        scopeListSetting('제외할 폴더', '쉼표로 구분한 폴더 글롭. 폴더를 지정하면 하위 노트도 모두 제외됩니다.', 'Templates, Daily, **/archive', 'excludeFolders');
+        scopeListSetting('포함할 태그', '쉼표로 구분한 태그 (# 생략 가능, 하위 태그 포함). 비워 두면 태그와 관계없이 포함합니다.', 'project, research', 'includeTags');
+        scopeListSetting('제외할 태그', '이 태그가 있는 노트는 제외합니다.', 'private, draft', 'excludeTags');
+
+        new Setting(containerEl)
+            .setName('최소 노트 길이')
+            .setDesc('이 글자 수보다 짧은 노트는 분석하지 않습니다. (0이면 빈 노트만 제외)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.knowledgeGraphSettings.minNoteLength))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.knowledgeGraphSettings.minNoteLength = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('제외 프론트매터 속성')
+            .setDesc('이 속성이 false인 노트는 제외합니다. (예: gemini: false) 비워 두면 사용하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('gemini')
+                .setValue(this.plugin.settings.knowledgeGraphSettings.optOutProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.optOutProperty = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('첨부 파일 설명 노트 포함')
+            .setDesc('이미지와 PDF의 설명을 기록한 첨부 파일 설명 노트도 분석합니다. 임베드 옆에 삽입한 설명은 노트 내용의 일부로 항상 포함됩니다.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.knowledgeGraphSettings.includeAttachmentNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.knowledgeGraphSettings.includeAttachmentNotes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('임베딩 저장소')
+            .setDesc(`현재 ${this.plugin.embeddingStore.size}개 노트의 임베딩이 저장되어 있습니다.`)
+            .addButton(button => button
+                .setButtonText('임베딩 비우기')
+                .onClick(async () => {
+                    await this.plugin.embeddingStore.clear();
+                    new Notice('저장된 임베딩을 비웠습니다.');
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('지식 그래프 저장소')
+            .setDesc(`분석한 관계를 저장해 두고, 지식 그래프가 활성화되어 있으면 수정된 노트만 백그라운드에서 다시 분석합니다. 현재 ${this.plugin.graphStore.size}개 노트, ${this.plugin.graphStore.edgeCount}개 관계가 저장되어 있습니다. 비우면 다음 지식 그래프 생성 때 모든 노트를 다시 분석합니다.`)
+            .addButton(button => button
+                .setButtonText('저장소 비우기')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.graphStore.clear();
+                    new Notice('지식 그래프 저장소를 비웠습니다.');
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('핵심 개념 캐시')
+            .setDesc(`노트별로 추출한 핵심 개념을 저장해 두고 내용이 바뀐 노트만 다시 분석합니다. 현재 ${this.plugin.conceptCache.size}개 노트가 캐시되어 있습니다.`)
+            .addButton(button => button
+                .setButtonText('캐시 비우기')
+                .onClick(async () => {
+                    await this.plugin.conceptCache.clear();
+                    new Notice('핵심 개념 캐시를 비웠습니다.');
+                    this.display();
+                }));
+
+        // 채팅 설정 섹션
+        containerEl.createEl('h3', { text: '채팅 설정' });
+
+        new Setting(containerEl)
+            .setName('대화 저장 폴더')
+            .setDesc('채팅 패널에서 저장한 대화 노트가 만들어지는 폴더입니다.')
+            .addText(text => text
+                .setPlaceholder('Gemini Chats')
+                .setValue(this.plugin.settings.chatSettings.folder)
+                .onChange(async (value) => {
+                    this.plugin.settings.chatSettings.folder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('볼트 검색 노트 수')
+            .setDesc('볼트 검색을 켰을 때 질문과 비슷한 노트를 몇 개까지 컨텍스트로 첨부할지 설정합니다. 최소 유사도 점수 설정을 함께 사용합니다.')
+            .addSlider(slider => slider
+                .setLimits(1, 20, 1)
+                .setValue(this.plugin.settings.chatSettings.retrievalCount)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.chatSettings.retrievalCount = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 컨텍스트 글자 수')
+            .setDesc('질문마다 첨부 노트와 선택 영역에서 보낼 최대 글자 수입니다. 넘는 부분은 잘립니다.')
+            .addText(text => text
+                .setPlaceholder('20000')
+                .setValue(String(this.plugin.settings.chatSettings.maxContextChars))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed <= 0) return;
+                    this.plugin.settings.chatSettings.maxContextChars = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 인라인 자동 완성 설정 섹션
+        containerEl.createEl('h3', { text: '인라인 자동 완성' });
+        containerEl.createEl('p', {
+            text: '입력을 멈추면 이어질 텍스트를 회색으로 제안합니다. Tab으로 전체, Ctrl/Cmd+→로 다음 단어를 입력하고 Esc로 닫습니다. 할당량을 아끼도록 노트(gemini-autocomplete: true)나 아래 폴더에서만 동작합니다.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('인라인 자동 완성 사용')
+            .setDesc('끄면 노트나 폴더 설정과 관계없이 모든 곳에서 제안하지 않습니다.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autocompleteSettings.enabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.autocompleteSettings.enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('자동 완성 폴더')
+            .setDesc('쉼표로 구분한 폴더 글롭입니다. 이 폴더의 노트에서 자동 완성이 동작합니다. 노트의 gemini-autocomplete 속성(true/false)이 있으면 그 설정을 따릅니다.')
+            .addText(text => text
+                .setPlaceholder('Drafts, Blog/**')
+                .setValue(this.plugin.settings.autocompleteSettings.folders.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.autocompleteSettings.folders = parseScopeList(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('입력 대기 시간 (ms)')
+            .setDesc('입력을 멈춘 뒤 이 시간이 지나면 제안을 요청합니다. 길게 할수록 요청이 줄어듭니다.')
+            .addSlider(slider => slider
+                .setLimits(300, 3000, 100)
+                .setValue(this.plugin.settings.autocompleteSettings.delayMs)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.autocompleteSettings.delayMs = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('자동 완성 모델')
+            .setDesc('자동 완성에만 사용할 모델입니다 (예: gemini-2.0-flash). 비워 두면 제공자의 기본 모델을 사용합니다.')
+            .addText(text => text
+                .setPlaceholder('gemini-2.0-flash')
+                .setValue(this.plugin.settings.autocompleteSettings.model)
+                .onChange(async (value) => {
+                    this.plugin.settings.autocompleteSettings.model = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 제안 토큰 수')
+            .setDesc('제안 하나의 최대 출력 토큰 수입니다.')
+            .addSlider(slider => slider
+                .setLimits(16, 256, 16)
+                .setValue(this.plugin.settings.autocompleteSettings.maxOutputTokens)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.autocompleteSettings.maxOutputTokens = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 첨부 파일 설명 설정 섹션
+        containerEl.createEl('h3', { text: '첨부 파일 설명' });
+        containerEl.createEl('p', {
+            text: '노트에 임베드한 이미지(png, jpg, webp, heic)와 PDF를 모델에 보내 대체 텍스트, 텍스트 추출(OCR), 그림 설명, PDF 요약을 만듭니다. 첨부 파일 내용은 민감 정보 가리기가 적용되지 않습니다.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('결과 반영 방식')
+            .setDesc('임베드 옆: 대체 텍스트는 임베드에 넣고, 나머지는 임베드 아래 접힌 콜아웃으로 삽입합니다. 설명 노트: 첨부 파일마다 설명 노트를 만들어 작업별 구역에 기록합니다. 파일 탐색기에서 실행하면 항상 설명 노트에 기록합니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions(ATTACHMENT_OUTPUTS)
+                .setValue(this.plugin.settings.attachmentSettings.output)
+                .onChange(async (value) => {
+                    this.plugin.settings.attachmentSettings.output = value as AttachmentOutput;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('설명 노트 폴더')
+            .setDesc('첨부 파일 설명 노트를 만들 폴더입니다.')
+            .addText(text => text
+                .setPlaceholder('Gemini Attachments')
+                .setValue(this.plugin.settings.attachmentSettings.companionFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.attachmentSettings.companionFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // 메타데이터 생성 설정 섹션
+        containerEl.createEl('h3', { text: '메타데이터 생성 설정' });
+
+        new Setting(containerEl)
+            .setName('추가할 최대 태그 수')
+            .setDesc('한 번에 새로 추가할 태그 수입니다. 기존 태그는 그대로 유지됩니다.')
+            .addSlider(slider => slider
+                .setLimits(1, 20, 1)
+                .setValue(this.plugin.settings.metadataSettings.maxTags)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.metadataSettings.maxTags = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('요약 속성 이름')
+            .setDesc('노트 요약을 저장할 프론트매터 속성입니다. 비워 두면 요약을 기록하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('summary')
+                .setValue(this.plugin.settings.metadataSettings.summaryProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.metadataSettings.summaryProperty = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        const propertiesSetting = new Setting(containerEl)
+            .setName('사용자 속성')
+            .setDesc('함께 생성할 프론트매터 속성입니다. 한 줄에 "속성: 설명" 형식으로 입력하세요. 설명은 값을 만들 때 모델에게 전달됩니다. (예: status: 초안, 진행 중, 완료 중 하나)')
+            .addTextArea(textarea => textarea
+                .setValue(formatMetadataProperties(this.plugin.settings.metadataSettings.properties))
+                .onChange(async (value) => {
+                    this.plugin.settings.metadataSettings.properties = parseMetadataProperties(value);
+                    await this.plugin.saveSettings();
+                }));
+        (propertiesSetting.components[0] as TextAreaComponent).inputEl.addClass('prompt-template-textarea');
+
+        // 일괄 작업 설정 섹션
+        containerEl.createEl('h3', { text: '일괄 작업 설정' });
+
+        new Setting(containerEl)
+            .setName('보고서 폴더')
+            .setDesc('일괄 작업 결과 보고서 노트를 만들 폴더입니다. 비워 두면 볼트 루트에 만듭니다.')
+            .addText(text => text
+                .setPlaceholder('Gemini Batch')
+                .setValue(this.plugin.settings.batchSettings.reportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.batchSettings.reportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         // 커스텀 프롬프트 설정 섹션
         containerEl.createEl('h3', { text: '커스텀 프롬프트' });
         
@@ -182,7 +905,10 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
         this.plugin.settings.customPrompts.forEach((prompt, index) => {
             const promptSetting = new Setting(containerEl)
                 .setName(prompt.name)
-                .setDesc(prompt.description)
+                .setDesc(`${prompt.description} (${CUSTOM_PROMPT_OUTPUT_MODES[prompt.outputMode]}${prompt.model ? `, ${prompt.model}` : ''})`)
+                .addButton(button => button
+                    .setButtonText('미리보기')
+                    .onClick(() => this.showTemplatePreview(prompt.name, prompt.prompt)))
                 .addButton(button => button
                     .setButtonText('삭제')
                     .onClick(async () => {
@@ -207,12 +933,12 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
         // 새 프롬프트 추가 버튼
         new Setting(containerEl)
             .setName('새 커스텀 프롬프트 추가')
-            .setDesc('Gemini API에 전송할 커스텀 프롬프트를 만듭니다. {{content}} 플레이스홀더를 사용하여 선택한 텍스트를 프롬프트에 포함시킬 수 있습니다.')
+            .setDesc('Gemini API에 전송할 커스텀 프롬프트를 만듭니다. 위 프롬프트 템플릿과 같은 변수({{content}}, {{selection}}, {{title}} 등)와 {{#if}} 블록을 사용할 수 있습니다. 각 프롬프트는 "Custom Prompt: 이름" 명령어로 등록되어 단축키를 지정할 수 있습니다.')
             .addButton(button => button
                 .setButtonText('추가')
                 .setCta()
                 .onClick(() => {
-                    const newPrompt = { name: '', prompt: '', description: '' };
+                    const newPrompt: CustomPrompt = { id: createId(), name: '', prompt: '', description: '', outputMode: 'confirm' };
                     new CustomPromptModal(this.app, newPrompt, async (editedPrompt) => {
                         if (editedPrompt) {
                             if (!this.plugin.settings.customPrompts) {
@@ -226,24 +952,189 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
                 })
             );
 
+        // 토큰 사용량 및 예산 섹션
+        containerEl.createEl('h3', { text: '토큰 사용량 및 예산' });
+        this.renderUsageDashboard(containerEl);
+
+        new Setting(containerEl)
+            .setName('일일 토큰 예산')
+            .setDesc('하루에 사용할 수 있는 최대 토큰 수입니다 (입력 + 출력). 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.usageSettings.dailyTokenBudget))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.usageSettings.dailyTokenBudget = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('월간 토큰 예산')
+            .setDesc('한 달에 사용할 수 있는 최대 토큰 수입니다. 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.usageSettings.monthlyTokenBudget))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.usageSettings.monthlyTokenBudget = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('예산 초과 시 동작')
+            .setDesc('요청이 예산을 넘을 것으로 예상될 때 경고만 할지, 요청을 차단할지 선택합니다. 지식 그래프는 실행 전에 전체 예상 토큰으로 확인합니다.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    warn: '경고',
+                    block: '차단',
+                })
+                .setValue(this.plugin.settings.usageSettings.budgetAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.usageSettings.budgetAction = value as 'warn' | 'block';
+                    await this.plugin.saveSettings();
+                }));
+
+        const priceSetting = new Setting(containerEl)
+            .setName('모델 가격표')
+            .setDesc('예상 비용 계산에 사용합니다. 한 줄에 "모델: 입력 가격, 출력 가격" 형식으로 100만 토큰당 USD 가격을 입력하세요. 모델 이름은 접두사로도 일치합니다.')
+            .addTextArea(textarea => textarea
+                .setValue(formatPriceTable(this.plugin.settings.usageSettings.prices))
+                .onChange(async (value) => {
+                    this.plugin.settings.usageSettings.prices = parsePriceTable(value);
+                    await this.plugin.saveSettings();
+                }));
+        (priceSetting.components[0] as TextAreaComponent).inputEl.addClass('prompt-template-textarea');
+
+        new Setting(containerEl)
+            .setName('사용량 기록 초기화')
+            .setDesc('누적된 토큰 사용량 기록을 모두 삭제합니다.')
+            .addButton(button => button
+                .setButtonText('초기화')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.usageTracker.clear();
+                    new Notice('사용량 기록이 초기화되었습니다.');
+                    this.display();
+                }));
+
         containerEl.createEl('h3', { text: 'Gemini Interaction Log' });
-        const logContainer = containerEl.createEl('div', { cls: 'gemini-log-container' });
-
-        if (this.plugin.settings.logHistory.length === 0) {
-            logContainer.createEl('p', { text: 'No Gemini interactions logged yet.' });
-        } else {
-            this.plugin.settings.logHistory.slice().reverse().forEach(logEntry => {
-                const entryEl = logContainer.createEl('div', { cls: 'gemini-log-entry' });
-                entryEl.createEl('p', { text: `Timestamp: ${logEntry.timestamp}`, cls: 'gemini-log-timestamp' });
-                entryEl.createEl('p', { text: `Model: ${logEntry.model}` });
-                entryEl.createEl('p', { text: `Input: ${logEntry.inputPrompt.substring(0, 100)}...`, attr: { title: logEntry.inputPrompt } });
-                entryEl.createEl('p', { text: `Output: ${logEntry.outputResponse ? logEntry.outputResponse.substring(0, 100) + '...' : 'Error'}`, attr: { title: logEntry.outputResponse || 'Error' } });
-                if (logEntry.error) {
-                    entryEl.createEl('p', { text: `Error: ${logEntry.error}`, cls: 'gemini-log-error' });
-                }
-                containerEl.createEl('hr');
-            });
+
+        new Setting(containerEl)
+            .setName('상호작용 로그')
+            .setDesc(`모든 요청과 응답은 설정과 분리된 로그 파일(logs.jsonl)에 기록됩니다. 현재 ${this.plugin.logStore.size}개 항목이 저장되어 있습니다.`)
+            .addButton(button => button
+                .setButtonText('로그 보기')
+                .setCta()
+                .onClick(() => this.plugin.activateLogView()))
+            .addButton(button => button
+                .setButtonText('로그 지우기')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.logStore.clear();
+                    new Notice('상호작용 로그를 지웠습니다.');
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 로그 항목 수')
+            .setDesc('이보다 많아지면 오래된 항목부터 삭제합니다. 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('1000')
+                .setValue(String(this.plugin.settings.logSettings.maxEntries))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.logSettings.maxEntries = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('로그 보관 기간 (일)')
+            .setDesc('이 기간보다 오래된 항목은 삭제합니다. 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('30')
+                .setValue(String(this.plugin.settings.logSettings.maxAgeDays))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.logSettings.maxAgeDays = parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('최대 로그 크기 (MB)')
+            .setDesc('로그 파일이 이 크기를 넘으면 오래된 항목부터 삭제합니다. 0이면 제한하지 않습니다.')
+            .addText(text => text
+                .setPlaceholder('20')
+                .setValue(String(this.plugin.settings.logSettings.maxSizeMB))
+                .onChange(async (value) => {
+                    const parsed = parseFloat(value);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.logSettings.maxSizeMB = parsed;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // 일별/모델별/기능별 사용량과 예상 비용 표시
+    private renderUsageDashboard(containerEl: HTMLElement): void {
+        const tracker = this.plugin.usageTracker;
+        const { prices, dailyTokenBudget, monthlyTokenBudget } = this.plugin.settings.usageSettings;
+        const today = formatDate(new Date());
+        const thisMonth = today.substring(0, 7);
+
+        const dashboard = containerEl.createEl('div', { cls: 'gemini-usage-dashboard' });
+        const todayTokens = tracker.totalTokens('daily');
+        const monthTokens = tracker.totalTokens('monthly');
+        const budgetText = (used: number, limit: number) =>
+            limit > 0 ? `${used.toLocaleString()} / ${limit.toLocaleString()} 토큰` : `${used.toLocaleString()} 토큰`;
+        dashboard.createEl('p', { text: `오늘: ${budgetText(todayTokens, dailyTokenBudget)}` });
+        dashboard.createEl('p', { text: `이번 달: ${budgetText(monthTokens, monthlyTokenBudget)}` });
+
+        // 최근 7일
+        const recentDays = new Set<string>();
+        for (let i = 0; i < 7; i++) {
+            recentDays.add(formatDate(new Date(Date.now() - i * 24 * 60 * 60 * 1000)));
+        }
+        const dailyRows = tracker.summarize('day', prices, day => recentDays.has(day))
+            .sort((a, b) => b.key.localeCompare(a.key));
+        this.renderUsageTable(dashboard, '최근 7일', '날짜', dailyRows);
+
+        const monthFilter = (day: string) => day.startsWith(thisMonth);
+        const modelRows = tracker.summarize('model', prices, monthFilter)
+            .sort((a, b) => b.cost - a.cost || b.inputTokens - a.inputTokens);
+        this.renderUsageTable(dashboard, '이번 달 모델별', '모델', modelRows);
+
+        const featureRows = tracker.summarize('feature', prices, monthFilter)
+            .map(row => ({ ...row, key: USAGE_FEATURE_LABELS[row.key as UsageFeature] ?? row.key }))
+            .sort((a, b) => b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+        this.renderUsageTable(dashboard, '이번 달 기능별', '기능', featureRows);
+    }
+
+    private renderUsageTable(containerEl: HTMLElement, title: string, keyLabel: string, rows: UsageSummaryRow[]): void {
+        containerEl.createEl('h4', { text: title });
+        if (rows.length === 0) {
+            containerEl.createEl('p', { text: '사용 기록이 없습니다.', cls: 'gemini-log-timestamp' });
+            return;
         }
+
+        const table = containerEl.createEl('table', { cls: 'knowledge-graph-table' });
+        const headerRow = table.createEl('tr');
+        headerRow.createEl('th', { text: keyLabel });
+        headerRow.createEl('th', { text: '요청', cls: 'text-right' });
+        headerRow.createEl('th', { text: '입력 토큰', cls: 'text-right' });
+        headerRow.createEl('th', { text: '출력 토큰', cls: 'text-right' });
+        headerRow.createEl('th', { text: '예상 비용', cls: 'text-right' });
+
+        rows.forEach(row => {
+            const tr = table.createEl('tr');
+            tr.createEl('td', { text: row.key });
+            tr.createEl('td', { text: row.requests.toLocaleString(), cls: 'text-right' });
+            tr.createEl('td', { text: row.inputTokens.toLocaleString(), cls: 'text-right' });
+            tr.createEl('td', { text: row.outputTokens.toLocaleString(), cls: 'text-right' });
+            tr.createEl('td', { text: `$${row.cost.toFixed(4)}`, cls: 'text-right' });
+        });
     }
 
     // 프롬프트 템플릿 설정 항목을 추가하는 헬퍼 메서드
@@ -281,33 +1172,116 @@ export class GeminiCopilotSettingTab extends PluginSettingTab {
             current[parts[parts.length - 1]] = value;
         };
 
+        const issuesEl = createDiv({ cls: 'gemini-template-issues' });
         const setting = new Setting(containerEl)
             .setName(name)
             .setDesc(desc)
             .addTextArea(textarea => textarea
-                .setValue(getNestedSettingValue(this.plugin.settings as Record<string, unknown>, settingPath))
+                .setValue(getNestedSettingValue(this.plugin.settings as unknown as Record<string, unknown>, settingPath))
                 .onChange(async (value) => {
-                    setNestedSettingValue(this.plugin.settings as Record<string, unknown>, settingPath, value);
+                    setNestedSettingValue(this.plugin.settings as unknown as Record<string, unknown>, settingPath, value);
+                    renderTemplateIssues(issuesEl, validateTemplate(value));
                     await this.plugin.saveSettings();
                 })
             );
+        containerEl.appendChild(issuesEl);
+        renderTemplateIssues(issuesEl, validateTemplate(getNestedSettingValue(this.plugin.settings as unknown as Record<string, unknown>, settingPath)));
 
         // 텍스트 영역에 CSS 클래스 적용
-        const textareaComponent = setting.components[0];
+        const textareaComponent = setting.components[0] as TextAreaComponent | undefined;
         if (textareaComponent && textareaComponent.inputEl) {
             textareaComponent.inputEl.addClass('prompt-template-textarea');
         }
 
+        // 현재 노트 기준 미리보기 버튼 추가
+        setting.addButton(button => button
+            .setButtonText('미리보기')
+            .onClick(() => this.showTemplatePreview(
+                name,
+                getNestedSettingValue(this.plugin.settings as unknown as Record<string, unknown>, settingPath)
+            ))
+        );
+
         // 기본값으로 초기화 버튼 추가
         setting.addButton(button => button
             .setButtonText('기본값으로 초기화')
             .onClick(async () => {
-                const defaultValue = getNestedSettingValue(DEFAULT_SETTINGS as Record<string, unknown>, settingPath);
-                setNestedSettingValue(this.plugin.settings as Record<string, unknown>, settingPath, defaultValue);
+                const defaultValue = getNestedSettingValue(DEFAULT_SETTINGS as unknown as Record<string, unknown>, settingPath);
+                setNestedSettingValue(this.plugin.settings as unknown as Record<string, unknown>, settingPath, defaultValue);
                 await this.plugin.saveSettings();
                 this.display(); // 설정 화면 새로고침
                 new Notice(`${name} 프롬프트가 기본값으로 초기화되었습니다.`);
             })
         );
     }
+
+    // 연결 테스트 버튼 (성공하면 사용할 수 있는 모델 목록에서 기본 모델을 고를 수 있음)
+    private addConnectionTest(containerEl: HTMLElement, type: LLMProviderType, setModel: (model: string) => void): void {
+        const resultEl = createDiv({ cls: 'gemini-template-issues' });
+        new Setting(containerEl)
+            .setName('연결 테스트')
+            .setDesc('현재 키로 연결해 사용할 수 있는 모델 목록을 가져옵니다.')
+            .addButton(button => button
+                .setButtonText('연결 테스트')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    resultEl.empty();
+                    resultEl.createEl('div', { text: '연결하는 중...', cls: 'muted-text' });
+                    try {
+                        const models = await this.plugin.listProviderModels(type);
+                        resultEl.empty();
+                        resultEl.createEl('div', { text: `연결 성공: 사용할 수 있는 모델 ${models.length}개`, cls: 'muted-text' });
+                        if (models.length > 0) {
+                            new Setting(resultEl)
+                                .setName('기본 모델로 사용')
+                                .addDropdown(dropdown => {
+                                    dropdown.addOption('', '모델 선택...');
+                                    models.forEach(model => dropdown.addOption(model, model));
+                                    dropdown.onChange(async (value) => {
+                                        if (!value) return;
+                                        setModel(value);
+                                        await this.plugin.saveSettings();
+                                        this.display();
+                                    });
+                                });
+                        }
+                    } catch (error) {
+                        console.error('연결 테스트 오류:', error);
+                        resultEl.empty();
+                        resultEl.createEl('div', { text: `연결 실패: ${error instanceof Error ? error.message : String(error)}`, cls: 'error-text' });
+                    } finally {
+                        button.setDisabled(false);
+                    }
+                }));
+        containerEl.appendChild(resultEl);
+    }
+
+    // 현재 활성 노트(선택 영역이 있으면 선택 영역)를 기준으로 템플릿을 렌더링해 표시
+    private async showTemplatePreview(name: string, template: string): Promise<void> {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        const file = view?.file ?? this.app.workspace.getActiveFile();
+        const selection = view?.editor.getSelection() ?? '';
+        const content = selection || (view ? view.editor.getValue() : file ? await this.app.vault.cachedRead(file) : '');
+
+        try {
+            const rendered = await this.plugin.templateEngine.render(template, {
+                file,
+                variables: {
+                    content,
+                    selection,
+                    currentTitle: file ? ` using current title: ${file.basename}` : '',
+                    sourceTitle: file?.basename ?? '(원본 문서 제목)',
+                    sourceConcepts: '(원본 문서 핵심 개념)',
+                    targetTitle: '(대상 문서 제목)',
+                    targetConcepts: '(대상 문서 핵심 개념)',
+                    textBefore: '(커서 앞 문단)',
+                    attachmentName: '(첨부 파일 이름)',
+                    headingPath: '(커서 위치의 제목 경로)'
+                }
+            });
+            new TemplatePreviewModal(this.app, name, this.plugin.privacyGuard.redact(rendered)).open();
+        } catch (error) {
+            new TemplatePreviewModal(this.app, name, error instanceof Error ? error.message : String(error), true).open();
+        }
+    }
 }
@@ -0,0 +1,153 @@
+import { Editor, EditorPosition, TFile, editorInfoField } from 'obsidian';
+import { Extension, StateEffect, StateField, Transaction } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+
+// 스트리밍 중 삽입 위치 끝에 표시되는 마커
+export const GENERATING_MARKER = ' ⏳ generating…';
+
+// 받은 토큰을 모아 에디터에 반영하는 간격 (ms)
+const FLUSH_INTERVAL_MS = 100;
+
+interface StreamRange {
+    from: number;
+    to: number;
+}
+
+const setStreamRange = StateEffect.define<StreamRange | null>();
+
+// 스트리밍 결과를 써 넣는 범위
+// 범위 밖을 편집해도 위치가 어긋나지 않도록 변경 사항에 맞춰 옮김 (경계에서 입력한 글자는 범위 밖으로)
+const streamRangeField = StateField.define<StreamRange | null>({
+    create: () => null,
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setStreamRange)) return effect.value;
+        }
+        if (!value || !tr.docChanged) return value;
+        const from = tr.changes.mapPos(value.from, 1);
+        return { from, to: Math.max(from, tr.changes.mapPos(value.to, -1)) };
+    }
+});
+
+// 스트리밍 범위를 추적하는 에디터 확장
+export const streamingExtension: Extension = streamRangeField;
+
+// Editor가 감싸고 있는 CodeMirror 뷰 (공개 타입 정의에 없어 내부 속성 사용)
+interface EditorInternals {
+    cm: EditorView;
+}
+
+// 스트리밍 응답을 에디터에 실시간으로 써 넣고, 취소 시 원래 상태로 되돌리는 세션
+// 중간 삽입은 실행 취소 기록에 남기지 않고, 완료할 때 원래 텍스트를 최종 텍스트로 바꾸는 한 번의 변경만 기록합니다.
+export class EditorStreamSession {
+    readonly controller = new AbortController();
+    // 스트리밍을 시작한 노트
+    readonly file: TFile | null;
+    private view: EditorView;
+    private originalText: string;
+    private prefix: string;
+    private buffer = '';
+    // 마지막으로 에디터에 써 넣은 텍스트 (마커 포함)
+    private written: string;
+    private flushTimer: number | null = null;
+    private finished = false;
+
+    // from~to 범위를 스트리밍 결과로 대체 (from === to이면 해당 위치에 삽입)
+    constructor(editor: Editor, from: EditorPosition, to: EditorPosition, prefix = '') {
+        this.view = (editor as unknown as EditorInternals).cm;
+        this.file = this.view.state.field(editorInfoField, false)?.file ?? null;
+        this.originalText = editor.getRange(from, to);
+        this.prefix = prefix;
+        this.written = this.prefix + GENERATING_MARKER;
+        const start = editor.posToOffset(from);
+        this.view.dispatch({
+            changes: { from: start, to: editor.posToOffset(to), insert: this.written },
+            effects: setStreamRange.of({ from: start, to: start + this.written.length }),
+            annotations: Transaction.addToHistory.of(false)
+        });
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get text(): string {
+        return this.buffer;
+    }
+
+    get isFinished(): boolean {
+        return this.finished;
+    }
+
+    // 에디터에 다른 노트가 열려 스트리밍 범위를 잃었는지
+    get isDetached(): boolean {
+        const state = this.view.state;
+        return state.field(editorInfoField, false)?.file !== this.file || !state.field(streamRangeField, false);
+    }
+
+    append(token: string): void {
+        if (this.finished) return;
+        this.buffer += token;
+        if (this.flushTimer !== null) return;
+        this.flushTimer = window.setTimeout(() => {
+            this.flushTimer = null;
+            if (!this.finished) this.write(this.prefix + this.buffer + GENERATING_MARKER);
+        }, FLUSH_INTERVAL_MS);
+    }
+
+    // 마커를 제거하고 최종 텍스트 확정
+    complete(finalText?: string): void {
+        if (!this.finish()) return;
+        if (finalText !== undefined) this.buffer = finalText;
+        if (!this.write(this.originalText)) return;
+
+        const range = this.view.state.field(streamRangeField);
+        if (!range) return;
+        const text = this.prefix + this.buffer;
+        this.view.dispatch({
+            changes: { from: range.from, to: range.to, insert: text },
+            selection: { anchor: range.from + text.length },
+            effects: setStreamRange.of(null)
+        });
+    }
+
+    // 요청을 중단하고 부분 삽입을 원래 텍스트로 되돌림 (다른 노트가 열렸으면 에디터는 그대로 둠)
+    cancel(): void {
+        if (!this.finish()) return;
+        this.controller.abort();
+        if (this.write(this.originalText)) {
+            this.view.dispatch({ effects: setStreamRange.of(null) });
+        }
+    }
+
+    // 다른 노트가 열리기 전에 저장된 부분 삽입을 원래 텍스트로 되돌린 노트 내용
+    restoreIn(content: string): string {
+        const at = content.indexOf(this.written);
+        if (at < 0 || this.written === this.originalText) return content;
+        return content.substring(0, at) + this.originalText + content.substring(at + this.written.length);
+    }
+
+    private finish(): boolean {
+        if (this.finished) return false;
+        this.finished = true;
+        if (this.flushTimer !== null) {
+            window.clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        return true;
+    }
+
+    // 스트리밍 범위를 text로 바꿈 (실행 취소 기록에는 남기지 않음, 범위를 잃었으면 false)
+    private write(text: string): boolean {
+        if (this.isDetached) return false;
+        const range = this.view.state.field(streamRangeField);
+        if (!range) return false;
+        this.view.dispatch({
+            changes: { from: range.from, to: range.to, insert: text },
+            effects: setStreamRange.of({ from: range.from, to: range.from + text.length }),
+            annotations: Transaction.addToHistory.of(false)
+        });
+        this.written = text;
+        return true;
+    }
+}
@@ -0,0 +1,206 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+
+// 구조화된 응답에 사용하는 JSON 스키마 (JSON Schema의 일부만 지원)
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    // string
+    minLength?: number;
+    // number, integer
+    minimum?: number;
+    maximum?: number;
+    // array
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    // object
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+const SCHEMA_TYPES: JsonSchema['type'][] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+// 응답이 JSON이 아니거나 스키마와 맞지 않을 때 발생 (message는 모델에게 다시 요청할 때 그대로 전달)
+export class StructuredOutputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export const CORE_CONCEPTS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        concepts: {
+            type: 'array',
+            description: '문서의 핵심 개념, 주제, 키워드 (단어나 짧은 구문)',
+            items: { type: 'string', minLength: 1 },
+            minItems: 1
+        }
+    },
+    required: ['concepts']
+};
+
+export const DOCUMENT_RELATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        context: { type: 'string', description: '두 문서가 어떻게 관련되어 있는지에 대한 1-2문장 설명' }
+    },
+    required: ['context']
+};
+
+export const TOPIC_CLUSTER_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: '주제 이름 (2-6 단어)', minLength: 1 },
+        summary: { type: 'string', description: '주제 요약 (1-2문장)' }
+    },
+    required: ['name', 'summary']
+};
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+// 값이 스키마와 맞는지 검사 (반환값: 오류 목록, 비어 있으면 통과)
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${path}: string이어야 하지만 ${describeValue(value)}입니다.`];
+            if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+                return [`${path}: ${schema.minLength}자 이상이어야 합니다.`];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${path}: ${schema.enum.join(', ')} 중 하나여야 합니다.`];
+            }
+            return [];
+
+        case 'number':
+        case 'integer': {
+            if (typeof value !== 'number' || !isFinite(value)) return [`${path}: number여야 하지만 ${describeValue(value)}입니다.`];
+            if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: 정수여야 합니다.`];
+            const errors: string[] = [];
+            if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: ${schema.minimum} 이상이어야 하지만 ${value}입니다.`);
+            if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: ${schema.maximum} 이하여야 하지만 ${value}입니다.`);
+            return errors;
+        }
+
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path}: boolean이어야 하지만 ${describeValue(value)}입니다.`];
+
+        case 'array': {
+            if (!Array.isArray(value)) return [`${path}: array여야 하지만 ${describeValue(value)}입니다.`];
+            const errors: string[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: 항목이 ${schema.minItems}개 이상이어야 합니다.`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: 항목이 ${schema.maxItems}개 이하여야 합니다.`);
+            const items = schema.items;
+            if (items) value.forEach((item, index) => errors.push(...validateJson(item, items, `${path}[${index}]`)));
+            return errors;
+        }
+
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path}: object여야 하지만 ${describeValue(value)}입니다.`];
+            }
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            (schema.required ?? []).forEach(key => {
+                if (record[key] === undefined) errors.push(`${path}.${key}: 필수 항목이 없습니다.`);
+            });
+            Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+                if (record[key] !== undefined) errors.push(...validateJson(record[key], property, `${path}.${key}`));
+            });
+            return errors;
+        }
+    }
+}
+
+// 응답 텍스트를 JSON으로 읽고 스키마로 검증 (코드 블록으로 감싼 응답도 허용)
+export function parseStructuredOutput<T>(text: string, schema: JsonSchema): T {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '').trim();
+    let value: unknown;
+    try {
+        value = JSON.parse(trimmed);
+    } catch (error) {
+        throw new StructuredOutputError(`응답이 올바른 JSON이 아닙니다: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const errors = validateJson(value, schema);
+    if (errors.length > 0) {
+        throw new StructuredOutputError(errors.join('\n'));
+    }
+    return value as T;
+}
+
+// 사용자가 입력한 스키마 정의 검사 (반환값: 오류 목록)
+export function validateSchemaDefinition(value: unknown, path = '$'): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: 스키마는 object여야 합니다.`];
+    const schema = value as Record<string, unknown>;
+    if (!SCHEMA_TYPES.includes(schema.type as JsonSchema['type'])) {
+        return [`${path}.type: ${SCHEMA_TYPES.join(', ')} 중 하나여야 합니다.`];
+    }
+
+    const errors: string[] = [];
+    if (schema.type === 'array') {
+        if (schema.items === undefined) errors.push(`${path}.items: array 스키마에는 items가 필요합니다.`);
+        else errors.push(...validateSchemaDefinition(schema.items, `${path}.items`));
+    }
+    if (schema.type === 'object') {
+        const properties = schema.properties;
+        if (typeof properties !== 'object' || properties === null || Array.isArray(properties) || Object.keys(properties).length === 0) {
+            errors.push(`${path}.properties: object 스키마에는 속성이 하나 이상 필요합니다.`);
+        } else {
+            Object.entries(properties).forEach(([key, property]) => errors.push(...validateSchemaDefinition(property, `${path}.properties.${key}`)));
+            if (schema.required !== undefined) {
+                if (!Array.isArray(schema.required) || schema.required.some(key => typeof key !== 'string' || !(key in properties))) {
+                    errors.push(`${path}.required: properties에 있는 속성 이름 목록이어야 합니다.`);
+                }
+            }
+        }
+    }
+    if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.some(item => typeof item !== 'string'))) {
+        errors.push(`${path}.enum: 문자열 목록이어야 합니다.`);
+    }
+    for (const key of ['minLength', 'minimum', 'maximum', 'minItems', 'maxItems']) {
+        if (schema[key] !== undefined && typeof schema[key] !== 'number') errors.push(`${path}.${key}: 숫자여야 합니다.`);
+    }
+    return errors;
+}
+
+// 커스텀 프롬프트의 스키마 텍스트를 읽음 (비어 있으면 null)
+export function parseSchemaDefinition(text: string): JsonSchema | null {
+    if (!text.trim()) return null;
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        throw new StructuredOutputError(`스키마가 올바른 JSON이 아닙니다: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const errors = validateSchemaDefinition(value);
+    if (errors.length > 0) {
+        throw new StructuredOutputError(errors.join('\n'));
+    }
+    return value as JsonSchema;
+}
+
+// Gemini responseSchema로 변환 (Gemini가 지원하지 않는 범위 조건은 빼고 검증 단계에서 확인)
+export function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+    const result: ResponseSchema = {
+        type: schema.type as SchemaType,
+        description: schema.description,
+        enum: schema.enum,
+        format: schema.enum ? 'enum' : undefined,
+        required: schema.required
+    };
+    if (schema.items) {
+        result.items = toGeminiSchema(schema.items);
+    }
+    if (schema.properties) {
+        const properties: Record<string, ResponseSchema> = {};
+        Object.keys(schema.properties).forEach(key => properties[key] = toGeminiSchema((schema.properties as Record<string, JsonSchema>)[key]));
+        result.properties = properties;
+    }
+    return result;
+}
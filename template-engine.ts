@@ -0,0 +1,285 @@
+import { App, TFile, getAllTags, moment } from 'obsidian';
+
+// 템플릿 문법 오류 (위치 정보 포함)
+export class TemplateSyntaxError extends Error {
+    line: number;
+
+    constructor(message: string, line: number) {
+        super(`${line}행: ${message}`);
+        this.name = 'TemplateSyntaxError';
+        this.line = line;
+    }
+}
+
+export interface TemplateIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// 렌더링에 사용할 노트와 호출 측 변수
+export interface TemplateContext {
+    file?: TFile | null;
+    variables?: Record<string, string | undefined>;
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; line: number }
+    | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+// 기본으로 제공되는 변수 (호출 측 변수는 기능마다 다름)
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+    content: '선택한 텍스트 또는 노트 내용',
+    selection: '에디터에서 선택한 텍스트',
+    title: '현재 노트의 제목',
+    currentTitle: '노트 제목 생성 시 현재 제목 안내 문구',
+    tags: '현재 노트의 태그 (쉼표로 구분)',
+    backlinks: '현재 노트를 링크하는 노트 목록',
+    'frontmatter.키': '현재 노트 프론트매터의 값',
+    'date:형식': '현재 날짜 (moment 형식, 기본값 YYYY-MM-DD)',
+    'file:경로': '다른 노트의 전체 내용',
+    sourceTitle: '문서 관계 분석 시 원본 문서 제목',
+    sourceConcepts: '문서 관계 분석 시 원본 문서 핵심 개념',
+    targetTitle: '문서 관계 분석 시 대상 문서 제목',
+    targetConcepts: '문서 관계 분석 시 대상 문서 핵심 개념',
+    clusterNotes: '주제 군집 이름 생성 시 군집에 속한 노트 제목 목록',
+    clusterConcepts: '주제 군집 이름 생성 시 군집의 주요 핵심 개념',
+    vaultTags: '메타데이터 생성 시 볼트에서 자주 쓰는 태그 목록',
+    metadataProperties: '메타데이터 생성 시 설정한 사용자 속성과 설명',
+    textBefore: '인라인 자동 완성 시 커서 앞 문단',
+    textAfter: '인라인 자동 완성 시 커서 뒤 문단의 나머지',
+    headingPath: '인라인 자동 완성 시 커서 위치의 제목 경로',
+    attachmentName: '첨부 파일 설명 시 이미지나 PDF 파일 이름',
+};
+
+const KNOWN_NAMES = new Set(['content', 'selection', 'title', 'currentTitle', 'tags', 'backlinks', 'date',
+    'sourceTitle', 'sourceConcepts', 'targetTitle', 'targetConcepts', 'clusterNotes', 'clusterConcepts',
+    'vaultTags', 'metadataProperties', 'textBefore', 'textAfter', 'headingPath', 'attachmentName']);
+
+const NAME_PATTERN = /^(frontmatter(\.[^\s.{}]+)+|date(:[^{}]+)?|file:[^{}]+|[A-Za-z_][\w-]*)$/;
+
+// 템플릿을 구문 트리로 변환
+// {{이름}}, {{#if 이름}}…{{else}}…{{/if}}, \{{ (이스케이프) 를 지원합니다.
+export function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // 열린 if 블록 스택 (else 이후에는 otherwise에 추가)
+    const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+    let text = '';
+    let line = 1;
+    let i = 0;
+
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        return top.inElse ? top.node.otherwise : top.node.then;
+    };
+    const flushText = () => {
+        if (text) current().push({ type: 'text', value: text });
+        text = '';
+    };
+
+    while (i < template.length) {
+        if (template.startsWith('\\{{', i)) {
+            text += '{{';
+            i += 3;
+            continue;
+        }
+        if (!template.startsWith('{{', i)) {
+            if (template[i] === '\n') line++;
+            text += template[i];
+            i++;
+            continue;
+        }
+
+        const end = template.indexOf('}}', i + 2);
+        if (end === -1) {
+            throw new TemplateSyntaxError('닫히지 않은 {{ 가 있습니다.', line);
+        }
+        const tag = template.substring(i + 2, end).trim();
+        const tagLine = line;
+        line += (template.substring(i, end).match(/\n/g) ?? []).length;
+        i = end + 2;
+        flushText();
+
+        if (tag.startsWith('#if')) {
+            let name = tag.substring(3).trim();
+            const negate = name.startsWith('!');
+            if (negate) name = name.substring(1).trim();
+            if (!name || !NAME_PATTERN.test(name)) {
+                throw new TemplateSyntaxError(`{{#if}} 뒤에 올바른 변수 이름이 필요합니다: "${tag}"`, tagLine);
+            }
+            const node: TemplateNode = { type: 'if', name, negate, then: [], otherwise: [], line: tagLine };
+            current().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top) throw new TemplateSyntaxError('{{else}}에 대응하는 {{#if}}가 없습니다.', tagLine);
+            if (top.inElse) throw new TemplateSyntaxError('{{else}}가 두 번 사용되었습니다.', tagLine);
+            top.inElse = true;
+        } else if (tag === '/if') {
+            if (!stack.pop()) throw new TemplateSyntaxError('{{/if}}에 대응하는 {{#if}}가 없습니다.', tagLine);
+        } else if (!tag) {
+            throw new TemplateSyntaxError('빈 {{}} 태그가 있습니다.', tagLine);
+        } else if (!NAME_PATTERN.test(tag)) {
+            throw new TemplateSyntaxError(`알 수 없는 태그입니다: "{{${tag}}}"`, tagLine);
+        } else {
+            current().push({ type: 'variable', name: tag, line: tagLine });
+        }
+    }
+
+    flushText();
+    const unclosed = stack[stack.length - 1];
+    if (unclosed) {
+        throw new TemplateSyntaxError('{{#if}} 블록이 {{/if}}로 닫히지 않았습니다.', unclosed.node.line);
+    }
+    return root;
+}
+
+function collectNames(nodes: TemplateNode[], names: { name: string; line: number }[]): void {
+    for (const node of nodes) {
+        if (node.type === 'variable') {
+            names.push({ name: node.name, line: node.line });
+        } else if (node.type === 'if') {
+            names.push({ name: node.name, line: node.line });
+            collectNames(node.then, names);
+            collectNames(node.otherwise, names);
+        }
+    }
+}
+
+// 문법 오류와 알 수 없는 변수를 검사 (extraVariables: 기능별로 추가 허용할 변수)
+export function validateTemplate(template: string, extraVariables: string[] = []): TemplateIssue[] {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parseTemplate(template);
+    } catch (error) {
+        return [{ severity: 'error', message: error instanceof Error ? error.message : String(error) }];
+    }
+
+    const issues: TemplateIssue[] = [];
+    const names: { name: string; line: number }[] = [];
+    collectNames(nodes, names);
+    for (const { name, line } of names) {
+        if (name.startsWith('frontmatter.') || name.startsWith('date:') || name.startsWith('file:')) continue;
+        if (KNOWN_NAMES.has(name) || extraVariables.includes(name)) continue;
+        issues.push({ severity: 'warning', message: `${line}행: 알 수 없는 변수 {{${name}}}는 빈 값으로 바뀝니다.` });
+    }
+    return issues;
+}
+
+// 프롬프트 템플릿 렌더러 (기본 프롬프트와 커스텀 프롬프트가 함께 사용)
+export class PromptTemplateEngine {
+    private app: App;
+    // 내용을 외부로 보내지 않을 노트인지 (개인정보 보호 설정)
+    private isBlocked: (file: TFile) => boolean;
+
+    constructor(app: App, isBlocked: (file: TFile) => boolean = () => false) {
+        this.app = app;
+        this.isBlocked = isBlocked;
+    }
+
+    async render(template: string, context: TemplateContext = {}): Promise<string> {
+        if (context.file && this.isBlocked(context.file)) {
+            throw new Error(`"${context.file.basename}" 노트는 Gemini로 보내지 않도록 설정되어 있습니다. (gemini: never)`);
+        }
+        const nodes = parseTemplate(template);
+        // 한 번 렌더링하는 동안 같은 변수는 한 번만 계산
+        const resolved = new Map<string, string>();
+        const resolve = async (name: string): Promise<string> => {
+            const cached = resolved.get(name);
+            if (cached !== undefined) return cached;
+            const value = await this.resolveVariable(name, context);
+            resolved.set(name, value);
+            return value;
+        };
+        return this.renderNodes(nodes, resolve);
+    }
+
+    private async renderNodes(nodes: TemplateNode[], resolve: (name: string) => Promise<string>): Promise<string> {
+        let output = '';
+        for (const node of nodes) {
+            if (node.type === 'text') {
+                output += node.value;
+            } else if (node.type === 'variable') {
+                output += await resolve(node.name);
+            } else {
+                const truthy = (await resolve(node.name)).trim().length > 0;
+                output += await this.renderNodes(truthy !== node.negate ? node.then : node.otherwise, resolve);
+            }
+        }
+        return output;
+    }
+
+    private async resolveVariable(name: string, context: TemplateContext): Promise<string> {
+        const variables = context.variables ?? {};
+        if (Object.prototype.hasOwnProperty.call(variables, name)) {
+            return variables[name] ?? '';
+        }
+
+        const file = context.file ?? null;
+        if (name === 'title') return file?.basename ?? '';
+        if (name === 'date') return moment().format('YYYY-MM-DD');
+        if (name.startsWith('date:')) return moment().format(name.substring(5).trim());
+        if (name.startsWith('file:')) return this.readLinkedFile(name.substring(5).trim(), file);
+        if (!file) return '';
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (name === 'tags') {
+            return cache ? [...new Set(getAllTags(cache) ?? [])].join(', ') : '';
+        }
+        if (name === 'backlinks') {
+            return this.getBacklinks(file).join(', ');
+        }
+        if (name.startsWith('frontmatter.')) {
+            let value: unknown = cache?.frontmatter;
+            for (const key of name.substring('frontmatter.'.length).split('.')) {
+                value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+            }
+            return formatValue(value);
+        }
+        return '';
+    }
+
+    // 현재 노트를 링크하는 노트 이름 목록
+    private getBacklinks(file: TFile): string[] {
+        const backlinks: string[] = [];
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        for (const sourcePath of Object.keys(resolvedLinks)) {
+            if (sourcePath === file.path || !resolvedLinks[sourcePath][file.path]) continue;
+            const source = this.app.vault.getAbstractFileByPath(sourcePath);
+            if (source instanceof TFile) backlinks.push(`[[${source.basename}]]`);
+        }
+        return backlinks.sort();
+    }
+
+    // {{file:경로}} - 링크 경로로 노트를 찾아 내용을 그대로 삽입 (중첩 템플릿은 처리하지 않음)
+    private async readLinkedFile(linkpath: string, sourceFile: TFile | null): Promise<string> {
+        const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourceFile?.path ?? '')
+            ?? this.app.vault.getAbstractFileByPath(linkpath);
+        if (!(target instanceof TFile)) {
+            throw new Error(`{{file:${linkpath}}}: 노트를 찾을 수 없습니다.`);
+        }
+        if (this.isBlocked(target)) {
+            throw new Error(`{{file:${linkpath}}}: Gemini로 보내지 않도록 설정된 노트입니다. (gemini: never)`);
+        }
+        return this.app.vault.cachedRead(target);
+    }
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(formatValue).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+// 검사 결과를 요소에 표시 (문제가 없으면 비움)
+export function renderTemplateIssues(el: HTMLElement, issues: TemplateIssue[]): void {
+    el.empty();
+    issues.forEach(issue => {
+        el.createEl('div', {
+            text: `${issue.severity === 'error' ? '오류' : '경고'}: ${issue.message}`,
+            cls: issue.severity === 'error' ? 'error-text' : 'muted-text'
+        });
+    });
+}
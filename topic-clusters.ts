@@ -0,0 +1,144 @@
+import { App, TAbstractFile } from 'obsidian';
+
+// 이름과 요약을 붙인 주제 군집 (members는 노트 경로)
+export interface TopicCluster {
+    id: string;
+    name: string;
+    summary: string;
+    members: string[];
+    concepts: string[];
+}
+
+interface TopicClusterData {
+    version: number;
+    clusters: TopicCluster[];
+}
+
+const TOPIC_CLUSTER_VERSION = 1;
+
+export const MOC_FRONTMATTER_KEY = 'gemini-moc';
+
+const MOC_START_MARKER = '%% gemini-moc:start %%';
+const MOC_END_MARKER = '%% gemini-moc:end %%';
+
+// 이전 실행과 같은 군집으로 볼 최소 구성원 겹침 비율
+const MATCH_THRESHOLD = 0.5;
+
+// 두 구성원 목록의 겹침 비율 (Jaccard)
+export function memberOverlap(a: string[], b: string[]): number {
+    const setB = new Set(b);
+    const intersection = a.filter(path => setB.has(path)).length;
+    const union = new Set([...a, ...b]).size;
+    return union === 0 ? 0 : intersection / union;
+}
+
+// 핵심 개념 문자열("개념1, 개념2")을 비교용 목록으로 변환
+export function splitConcepts(concepts: string): string[] {
+    return concepts.split(/[,\n]/).map(concept => concept.trim().toLowerCase()).filter(concept => concept.length > 0);
+}
+
+// 군집 안에서 많이 나오는 핵심 개념
+export function topConcepts(members: string[], concepts: Map<string, string[]>, limit = 8): string[] {
+    const counts = new Map<string, number>();
+    members.forEach(path => new Set(concepts.get(path) ?? []).forEach(concept => counts.set(concept, (counts.get(concept) ?? 0) + 1)));
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([concept]) => concept);
+}
+
+// MOC 노트 관리 영역 (제목, 요약, 구성원 링크)
+function renderMocRegion(cluster: TopicCluster, linkText: (path: string) => string): string[] {
+    const lines = [MOC_START_MARKER, `# ${cluster.name}`, ''];
+    if (cluster.summary) lines.push(cluster.summary.trim(), '');
+    if (cluster.concepts.length > 0) lines.push(`**핵심 개념:** ${cluster.concepts.join(', ')}`, '');
+    lines.push('## 노트');
+    cluster.members.forEach(path => lines.push(`- [[${linkText(path)}]]`));
+    lines.push(MOC_END_MARKER);
+    return lines;
+}
+
+// MOC 노트 내용 (기존 노트는 관리 영역만 바꾸고 나머지는 유지)
+export function updateMocContent(existing: string | null, cluster: TopicCluster, linkText: (path: string) => string): string {
+    const region = renderMocRegion(cluster, linkText);
+    if (existing === null) {
+        return ['---', `${MOC_FRONTMATTER_KEY}: ${cluster.id}`, '---', '', ...region, ''].join('\n');
+    }
+
+    const lines = existing.split('\n');
+    const start = lines.findIndex(line => line.trim() === MOC_START_MARKER);
+    const end = start === -1 ? -1 : lines.findIndex((line, index) => index > start && line.trim() === MOC_END_MARKER);
+    if (start !== -1 && end !== -1) {
+        lines.splice(start, end - start + 1, ...region);
+        return lines.join('\n');
+    }
+    return `${existing.replace(/\s+$/, '')}\n\n${region.join('\n')}\n`;
+}
+
+// 군집 이름과 구성원을 저장해 다시 실행할 때 같은 MOC 노트를 갱신
+export class TopicClusterStore {
+    private app: App;
+    private filePath: string;
+    private clusters: TopicCluster[] = [];
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as TopicClusterData;
+            if (data.version === TOPIC_CLUSTER_VERSION && Array.isArray(data.clusters)) {
+                this.clusters = data.clusters;
+            }
+        } catch (error) {
+            console.error('주제 군집 로드 오류:', error);
+            this.clusters = [];
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: TopicClusterData = { version: TOPIC_CLUSTER_VERSION, clusters: this.clusters };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('주제 군집 저장 오류:', error);
+        }
+    }
+
+    get all(): TopicCluster[] {
+        return this.clusters;
+    }
+
+    async replace(clusters: TopicCluster[]): Promise<void> {
+        this.clusters = clusters;
+        await this.save();
+    }
+
+    // 구성원이 가장 많이 겹치는 이전 군집 (excludeIds: 이미 다른 군집에 배정된 ID)
+    match(members: string[], excludeIds: Set<string>): { cluster: TopicCluster; overlap: number } | null {
+        let best: { cluster: TopicCluster; overlap: number } | null = null;
+        for (const cluster of this.clusters) {
+            if (excludeIds.has(cluster.id)) continue;
+            const overlap = memberOverlap(members, cluster.members);
+            if (overlap >= MATCH_THRESHOLD && (!best || overlap > best.overlap)) {
+                best = { cluster, overlap };
+            }
+        }
+        return best;
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string): void {
+        let changed = false;
+        for (const cluster of this.clusters) {
+            const index = cluster.members.indexOf(oldPath);
+            if (index !== -1) {
+                cluster.members[index] = file.path;
+                changed = true;
+            }
+        }
+        if (changed) this.save();
+    }
+}
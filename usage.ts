@@ -0,0 +1,179 @@
+import { App, debounce } from 'obsidian';
+
+// 토큰 사용량 합계
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface UsageSummaryRow extends UsageTotals {
+    key: string;
+    cost: number;
+}
+
+// 모델별 100만 토큰당 가격 (USD)
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export type UsageGroupBy = 'day' | 'model' | 'feature';
+
+export interface BudgetCheckResult {
+    period: 'daily' | 'monthly';
+    used: number;
+    limit: number;
+}
+
+interface UsageData {
+    version: number;
+    // 날짜(YYYY-MM-DD) → 모델 → 기능 → 합계
+    days: Record<string, Record<string, Record<string, UsageTotals>>>;
+}
+
+const USAGE_DATA_VERSION = 1;
+
+// 토큰 수 추정 (API로 셀 수 없을 때 사용)
+// 라틴 문자는 약 4자당 1토큰, 한글 등 그 외 문자는 1자당 약 1토큰으로 계산합니다.
+export function estimateTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 128) ascii++;
+        else other++;
+    }
+    return Math.ceil(ascii / 4 + other);
+}
+
+// "모델: 입력가격, 출력가격" 형식의 줄을 가격표로 변환
+export function parsePriceTable(text: string): Record<string, ModelPrice> {
+    const prices: Record<string, ModelPrice> = {};
+    for (const line of text.split('\n')) {
+        const match = line.match(/^\s*([^:#]+?)\s*:\s*([\d.]+)\s*,\s*([\d.]+)\s*$/);
+        if (match) {
+            prices[match[1]] = { input: parseFloat(match[2]), output: parseFloat(match[3]) };
+        }
+    }
+    return prices;
+}
+
+export function formatPriceTable(prices: Record<string, ModelPrice>): string {
+    return Object.entries(prices)
+        .map(([model, price]) => `${model}: ${price.input}, ${price.output}`)
+        .join('\n');
+}
+
+// 가격표에서 모델 가격 찾기 (정확히 일치하지 않으면 가장 긴 접두사 일치)
+export function findModelPrice(prices: Record<string, ModelPrice>, model: string): ModelPrice | null {
+    if (prices[model]) return prices[model];
+    const prefix = Object.keys(prices)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : null;
+}
+
+export function estimateCost(prices: Record<string, ModelPrice>, model: string, inputTokens: number, outputTokens: number): number {
+    const price = findModelPrice(prices, model);
+    if (!price) return 0;
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+export function formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 일별 토큰 사용량을 모델/기능별로 누적하는 저장소
+export class UsageTracker {
+    private app: App;
+    private filePath: string;
+    private days: UsageData['days'] = {};
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(app: App, filePath: string) {
+        this.app = app;
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as UsageData;
+            if (data.version === USAGE_DATA_VERSION && data.days) {
+                this.days = data.days;
+            }
+        } catch (error) {
+            console.error('사용량 데이터 로드 오류:', error);
+            this.days = {};
+        }
+    }
+
+    async save(): Promise<void> {
+        const data: UsageData = { version: USAGE_DATA_VERSION, days: this.days };
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('사용량 데이터 저장 오류:', error);
+        }
+    }
+
+    record(model: string, feature: string, inputTokens: number, outputTokens: number, date = new Date()): void {
+        const day = formatDate(date);
+        const models = this.days[day] ?? (this.days[day] = {});
+        const features = models[model] ?? (models[model] = {});
+        const totals = features[feature] ?? (features[feature] = { requests: 0, inputTokens: 0, outputTokens: 0 });
+        totals.requests++;
+        totals.inputTokens += inputTokens;
+        totals.outputTokens += outputTokens;
+        this.requestSave();
+    }
+
+    // 조건에 맞는 날짜의 사용량을 기준별로 묶어 합산
+    summarize(groupBy: UsageGroupBy, prices: Record<string, ModelPrice>, includeDay: (day: string) => boolean = () => true): UsageSummaryRow[] {
+        const rows = new Map<string, UsageSummaryRow>();
+
+        for (const [day, models] of Object.entries(this.days)) {
+            if (!includeDay(day)) continue;
+            for (const [model, features] of Object.entries(models)) {
+                for (const [feature, totals] of Object.entries(features)) {
+                    const key = groupBy === 'day' ? day : groupBy === 'model' ? model : feature;
+                    const row = rows.get(key) ?? { key, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+                    row.requests += totals.requests;
+                    row.inputTokens += totals.inputTokens;
+                    row.outputTokens += totals.outputTokens;
+                    row.cost += estimateCost(prices, model, totals.inputTokens, totals.outputTokens);
+                    rows.set(key, row);
+                }
+            }
+        }
+        return [...rows.values()];
+    }
+
+    // 하루 또는 한 달 동안 사용한 전체 토큰 수
+    totalTokens(period: 'daily' | 'monthly', date = new Date()): number {
+        const today = formatDate(date);
+        const prefix = period === 'daily' ? today : today.substring(0, 7);
+        return this.summarize('day', {}, day => day.startsWith(prefix))
+            .reduce((sum, row) => sum + row.inputTokens + row.outputTokens, 0);
+    }
+
+    // 예상 토큰을 더했을 때 예산을 넘는지 확인 (0이면 제한 없음)
+    checkBudget(estimatedTokens: number, dailyLimit: number, monthlyLimit: number): BudgetCheckResult | null {
+        const daily = this.totalTokens('daily');
+        if (dailyLimit > 0 && daily + estimatedTokens > dailyLimit) {
+            return { period: 'daily', used: daily, limit: dailyLimit };
+        }
+        const monthly = this.totalTokens('monthly');
+        if (monthlyLimit > 0 && monthly + estimatedTokens > monthlyLimit) {
+            return { period: 'monthly', used: monthly, limit: monthlyLimit };
+        }
+        return null;
+    }
+
+    async clear(): Promise<void> {
+        this.days = {};
+        await this.save();
+    }
+}